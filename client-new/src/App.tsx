@@ -1,9 +1,12 @@
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route, useParams } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, useParams, useSearchParams } from 'react-router-dom';
 import { ThemeProvider, createTheme } from '@mui/material';
 import CssBaseline from '@mui/material/CssBaseline';
 import AdminView from './components/AdminView';
 import ContestantView from './components/ContestantView';
+import RoomLobby from './components/RoomLobby';
+import BoardOverlay from './components/BoardOverlay';
+import TimerOverlay from './components/TimerOverlay';
 
 const theme = createTheme({
   palette: {
@@ -170,9 +173,36 @@ const theme = createTheme({
   },
 });
 
+const DEFAULT_ROOM_ID = 'default';
+
+const AdminRoute: React.FC = () => {
+  const { roomId } = useParams<{ roomId: string }>();
+  return roomId ? <AdminView key={roomId} roomId={roomId} /> : null;
+};
+
+// Links from before rooms existed have no room segment and point at the default room
 const ContestantRoute: React.FC = () => {
-  const { contestantId } = useParams<{ contestantId: string }>();
-  return contestantId ? <ContestantView contestantId={contestantId} /> : null;
+  const { roomId = DEFAULT_ROOM_ID, contestantId } = useParams<{ roomId: string, contestantId: string }>();
+  const [searchParams] = useSearchParams();
+  return contestantId ? (
+    <ContestantView
+      roomId={roomId}
+      contestantId={contestantId}
+      contestantKey={searchParams.get('key') || ''}
+      timerId={searchParams.get('timer') || undefined}
+    />
+  ) : null;
+};
+
+const BoardOverlayRoute: React.FC = () => {
+  const { roomId = DEFAULT_ROOM_ID } = useParams<{ roomId: string }>();
+  return <BoardOverlay key={roomId} roomId={roomId} />;
+};
+
+const TimerOverlayRoute: React.FC = () => {
+  const { roomId = DEFAULT_ROOM_ID } = useParams<{ roomId: string }>();
+  const [searchParams] = useSearchParams();
+  return <TimerOverlay key={roomId} roomId={roomId} timerId={searchParams.get('timer') || undefined} />;
 };
 
 function App() {
@@ -181,9 +211,15 @@ function App() {
       <CssBaseline />
       <Router>
         <Routes>
-          <Route path="/" element={<AdminView />} />
-          <Route path="/admin" element={<AdminView />} />
+          <Route path="/" element={<RoomLobby />} />
+          <Route path="/admin" element={<RoomLobby />} />
+          <Route path="/admin/:roomId" element={<AdminRoute />} />
           <Route path="/contestant/:contestantId" element={<ContestantRoute />} />
+          <Route path="/contestant/:roomId/:contestantId" element={<ContestantRoute />} />
+          <Route path="/overlay/board" element={<BoardOverlayRoute />} />
+          <Route path="/overlay/:roomId/board" element={<BoardOverlayRoute />} />
+          <Route path="/overlay/timer" element={<TimerOverlayRoute />} />
+          <Route path="/overlay/:roomId/timer" element={<TimerOverlayRoute />} />
         </Routes>
       </Router>
     </ThemeProvider>
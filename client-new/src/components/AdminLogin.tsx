@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Box, Button, Paper, TextField, Typography } from '@mui/material';
+import { config } from '../utils/config';
+import { setAdminToken } from '../utils/adminAuth';
+
+interface AdminLoginProps {
+  onLogin: (token: string) => void;
+}
+
+const AdminLogin: React.FC<AdminLoginProps> = ({ onLogin }) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleLogin = async () => {
+    if (!password) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`${config.apiUrl}/api/admin/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+      if (response.ok) {
+        const { token } = await response.json();
+        setAdminToken(token);
+        onLogin(token);
+      } else if (response.status === 503) {
+        setError('The server has no admin password set');
+      } else {
+        setError('Incorrect password');
+      }
+    } catch (error) {
+      console.error('Error logging in:', error);
+      setError('Could not reach the server');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Box sx={{
+      height: '100vh',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      bgcolor: 'background.default',
+      p: 3
+    }}>
+      <Paper elevation={3} sx={{ p: 4, width: '100%', maxWidth: 400 }}>
+        <Typography variant="h4" gutterBottom sx={{ color: 'primary.main' }}>
+          Admin Login
+        </Typography>
+        <TextField
+          label="Admin Password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              handleLogin();
+            }
+          }}
+          error={!!error}
+          helperText={error || ' '}
+          fullWidth
+          autoFocus
+          sx={{ mb: 2 }}
+        />
+        <Button
+          variant="contained"
+          onClick={handleLogin}
+          disabled={submitting || !password}
+          fullWidth
+          sx={{ minHeight: 40 }}
+        >
+          Log In
+        </Button>
+      </Paper>
+    </Box>
+  );
+};
+
+export default AdminLogin;
@@ -1,6 +1,32 @@
 import React, { useEffect, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { config } from '../utils/config';
+import { adminHeaders } from '../utils/adminAuth';
+import { useAdminAuth } from '../utils/useAdminAuth';
+import AdminLogin from './AdminLogin';
+import { formatTimerMs, NamedTimer, pickTimer, TimerMode } from '../utils/timer';
+import TimerControls from './TimerControls';
+import { enableClockSync, recordServerTime } from '../utils/serverClock';
+import { subscribeToGameState } from '../utils/gameStateSync';
+import { BuzzerState } from '../utils/buzzer';
+import ScoringRulesPanel, { ScoringRules } from './ScoringRulesPanel';
+import WagerRoundPanel, { WagerPhase, WagerRound } from './WagerRoundPanel';
+import FreeTextPanel from './FreeTextPanel';
+import NumericPanel, { NumericResult } from './NumericPanel';
+import TeamsPanel from './TeamsPanel';
+import HistoryPanel, { HistorySummary } from './HistoryPanel';
+import QuestionPackPanel from './QuestionPackPanel';
+import QuestionEditorPanel from './QuestionEditorPanel';
+import BoardPanel from './BoardPanel';
+import RundownPanel, { Rundown } from './RundownPanel';
+import AutomationRulesPanel, { AutomationRule } from './AutomationRulesPanel';
+import AnswerLockControls from './AnswerLockControls';
+import { groupByTeam, Team, TeamScoreMode } from '../utils/teams';
+import { Question, QuestionKind } from '../utils/questions';
+import { Board, BoardPosition, getBoardCell } from '../utils/board';
+import { MediaPlayback, MediaRef, usePreloadMedia } from '../utils/media';
+import QuestionMedia from './QuestionMedia';
+import MediaControls from './MediaControls';
 import {
   Box,
   Button,
@@ -32,48 +58,82 @@ import {
 import AddIcon from '@mui/icons-material/Add';
 import DeleteIcon from '@mui/icons-material/Delete';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { Link as RouterLink } from 'react-router-dom';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
 import StopIcon from '@mui/icons-material/Stop';
+import LinkOffIcon from '@mui/icons-material/LinkOff';
 
 interface Contestant {
   id: string;
+  key: string;
   name: string;
   score: number;
   buzzed: boolean;
   connected: boolean;
+  lockedOutUntil?: number | null;
+  teamId?: string | null;
 }
 
-type GameType = 'buzzer' | 'multiple-choice' | 'two-option' | 'timer-only';
+type GameType = 'buzzer' | 'multiple-choice' | 'two-option' | 'timer-only' | 'wager' | 'free-text' | 'numeric' | 'board';
 
-interface Question {
-  question: string;
-  options: string[];
-  correctAnswer: string;
+// A problem the server found in an uploaded question file
+interface ImportError {
+  line: number;
+  message: string;
 }
 
 interface GameConfig {
   question?: string;
   options?: string[];
-  questions?: Question[];
   currentQuestionIndex?: number;
-  timerDuration?: number;
-  timerRunning?: boolean;
-  timerRemaining?: number;
+  media?: MediaRef;
+  optionMedia?: (MediaRef | null)[];
 }
 
 interface GameState {
+  roomId?: string;
+  roomName?: string;
   contestants: Contestant[];
+  teams?: Team[];
+  teamScoreMode?: TeamScoreMode;
+  teamBuzzLockout?: boolean;
   buzzOrder?: string[];
+  buzzerState?: BuzzerState;
+  buzzerLockoutMs?: number;
+  scoringRules?: ScoringRules;
+  automationRules?: AutomationRule[];
+  incorrectBuzzes?: string[];
+  activeBuzzer?: string | null;
   gameType?: GameType;
   gameConfig?: GameConfig;
+  timers?: NamedTimer[];
+  serverTime?: number;
   questions?: Question[];
+  questionPackId?: string | null;
   currentQuestionIndex?: number;
   answers?: Record<string, string>;
+  answerLatencies?: Record<string, number>;
+  answersLocked?: boolean;
+  firstAnswerFinal?: boolean;
   revealAnswers?: boolean;
   correctAnswer?: string;
+  wagerRound?: WagerRound;
+  answerSuggestions?: Record<string, boolean>;
+  answerJudgements?: Record<string, boolean>;
+  numericResults?: NumericResult[] | null;
+  history?: HistorySummary;
+  board?: Board;
+  mediaPlayback?: MediaPlayback;
+  preloadMedia?: MediaRef[];
+  rundown?: Rundown | null;
+  rundownSegmentIndex?: number;
+}
+
+interface AdminViewProps {
+  roomId: string;
 }
 
-const AdminView: React.FC = () => {
+const AdminView: React.FC<AdminViewProps> = ({ roomId }) => {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [gameState, setGameState] = useState<GameState>({ contestants: [] });
   const [newContestantName, setNewContestantName] = useState('');
@@ -83,32 +143,59 @@ const AdminView: React.FC = () => {
   const [optionsInput, setOptionsInput] = useState<string>('');
   const [correctAnswer, setCorrectAnswer] = useState<string | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [importErrors, setImportErrors] = useState<ImportError[]>([]);
+  const [pendingImport, setPendingImport] = useState<Question[] | null>(null);
+  const [editorOpen, setEditorOpen] = useState(false);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [timerMinutes, setTimerMinutes] = useState<string>('1');
-  const [timerSeconds, setTimerSeconds] = useState<string>('0');
+  const [newTimerName, setNewTimerName] = useState<string>('');
+  const [lockoutInput, setLockoutInput] = useState<string>('');
   const [resetScoresDialogOpen, setResetScoresDialogOpen] = useState(false);
   const [sessionId, setSessionId] = useState<string>('');
   const [isRecording, setIsRecording] = useState(false);
   const [sessionInfo, setSessionInfo] = useState<any>(null);
+  const [roomName, setRoomName] = useState<string>('');
+  const { adminToken, setAdminToken, authRequired, isReady, needsLogin, logout: handleLogout } = useAdminAuth();
+  const roomApiUrl = `${config.apiUrl}/api/rooms/${encodeURIComponent(roomId)}`;
+  const mainTimer = pickTimer(gameState.timers);
+
+  // Upcoming questions' media, so previews and playback start without a wait
+  usePreloadMedia(gameState.preloadMedia);
 
   useEffect(() => {
-    const newSocket = io(config.websocketUrl);
+    if (!isReady) return;
+
+    const newSocket = io(config.websocketUrl, { auth: { token: adminToken } });
     console.log('Connecting to WebSocket server...');
     setSocket(newSocket);
+    enableClockSync(newSocket);
 
     newSocket.on('connect', () => {
       console.log('WebSocket connected successfully');
       // Request current game state from server
-      newSocket.emit('join', 'admin');
+      newSocket.emit('join', { roomId });
     });
 
     newSocket.on('connect_error', (error) => {
       console.error('WebSocket connection error:', error);
     });
 
-    newSocket.on('gameState', (state: GameState) => {
+    newSocket.on('joinError', (data: { message: string }) => {
+      console.error('Could not join room:', data.message);
+      setRoomName('');
+    });
+
+    newSocket.on('authError', (data: { event: string }) => {
+      console.error('Admin action rejected by server:', data.event);
+      handleLogout();
+    });
+
+    subscribeToGameState<GameState>(newSocket, (state) => {
       console.log('Received game state:', state);
+      if (state.serverTime) {
+        recordServerTime(state.serverTime);
+      }
       setGameState(state);
+      setRoomName(state.roomName || '');
       if (state.gameType) {
         console.log('Setting game type:', state.gameType);
         setGameType(state.gameType);
@@ -144,7 +231,7 @@ const AdminView: React.FC = () => {
       console.log('Cleaning up WebSocket connection');
       newSocket.close();
     };
-  }, []);
+  }, [adminToken, isReady, roomId, handleLogout]);
 
   const handleAddContestant = async () => {
     if (!newContestantName.trim()) {
@@ -154,15 +241,20 @@ const AdminView: React.FC = () => {
     console.log('Attempting to add contestant:', newContestantName);
 
     try {
-      console.log('Sending POST request to /api/contestants');
-      const response = await fetch(`${config.apiUrl}/api/contestants`, {
+      console.log('Sending POST request to /api/rooms/:roomId/contestants');
+      const response = await fetch(`${roomApiUrl}/contestants`, {
         method: 'POST',
-        headers: {
+        headers: adminHeaders({
           'Content-Type': 'application/json',
-        },
+        }),
         body: JSON.stringify({ name: newContestantName }),
       });
 
+      if (response.status === 401) {
+        handleLogout();
+        return;
+      }
+
       console.log('Received response:', response.status);
       const data = await response.json();
       
@@ -188,6 +280,60 @@ const AdminView: React.FC = () => {
     }
   };
 
+  const handleAddTeam = (name: string) => {
+    if (socket) {
+      socket.emit('admin:addTeam', name);
+    }
+  };
+
+  const handleRenameTeam = (teamId: string, name: string) => {
+    if (socket) {
+      socket.emit('admin:renameTeam', { teamId, name });
+    }
+  };
+
+  const handleRemoveTeam = (teamId: string) => {
+    if (socket) {
+      socket.emit('admin:removeTeam', teamId);
+    }
+  };
+
+  const handleUpdateTeamScore = (teamId: string, score: number) => {
+    if (socket) {
+      socket.emit('admin:updateTeamScore', { teamId, score });
+    }
+  };
+
+  const handleSetTeamScoreMode = (mode: TeamScoreMode) => {
+    if (socket) {
+      socket.emit('admin:setTeamScoreMode', mode);
+    }
+  };
+
+  const handleSetTeamBuzzLockout = (enabled: boolean) => {
+    if (socket) {
+      socket.emit('admin:setTeamBuzzLockout', enabled);
+    }
+  };
+
+  const handleSetContestantTeam = (contestantId: string, teamId: string | null) => {
+    if (socket) {
+      socket.emit('admin:setContestantTeam', { contestantId, teamId });
+    }
+  };
+
+  const handleUndo = () => {
+    if (socket) {
+      socket.emit('admin:undo');
+    }
+  };
+
+  const handleRedo = () => {
+    if (socket) {
+      socket.emit('admin:redo');
+    }
+  };
+
   const handleResetBuzzers = () => {
     console.log('Resetting buzzers');
     if (socket) {
@@ -195,6 +341,39 @@ const AdminView: React.FC = () => {
     }
   };
 
+  const handleSetBuzzerState = (buzzerState: BuzzerState) => {
+    if (socket) {
+      const event = buzzerState === 'open' ? 'admin:openBuzzers' : buzzerState === 'armed' ? 'admin:armBuzzers' : 'admin:closeBuzzers';
+      socket.emit(event);
+    }
+  };
+
+  const handleJudgeBuzz = (correct: boolean) => {
+    if (socket && gameState.activeBuzzer) {
+      socket.emit('admin:judgeBuzz', { correct, contestantId: gameState.activeBuzzer });
+    }
+  };
+
+  const handleSetScoringRules = (rules: Partial<ScoringRules>) => {
+    if (socket) {
+      socket.emit('admin:setScoringRules', rules);
+    }
+  };
+
+  const handleSetAutomationRules = (rules: AutomationRule[]) => {
+    if (socket) {
+      socket.emit('admin:setAutomationRules', rules);
+    }
+  };
+
+  const handleSetBuzzerLockout = () => {
+    const lockoutMs = parseInt(lockoutInput, 10);
+    if (socket && !isNaN(lockoutMs) && lockoutMs >= 0) {
+      socket.emit('admin:setBuzzerLockout', lockoutMs);
+    }
+    setLockoutInput('');
+  };
+
   const handleResetScores = () => {
     setResetScoresDialogOpen(true);
   };
@@ -206,31 +385,47 @@ const AdminView: React.FC = () => {
     setResetScoresDialogOpen(false);
   };
 
-  const copyContestantUrl = (contestantId: string) => {
-    const url = `${config.frontendUrl}/contestant/${contestantId}`;
-    navigator.clipboard.writeText(url);
+  const getContestantUrl = (contestant: Contestant) => {
+    return `${config.frontendUrl}/contestant/${roomId}/${contestant.id}?key=${encodeURIComponent(contestant.key)}`;
+  };
+
+  const copyContestantUrl = (contestant: Contestant) => {
+    navigator.clipboard.writeText(getContestantUrl(contestant));
   };
 
   const copyAllUrls = () => {
     const formattedList = gameState.contestants
-      .map(c => `${c.name}: ${config.frontendUrl}/contestant/${c.id}`)
+      .map(c => `${c.name}: ${getContestantUrl(c)}`)
       .join('\n');
     navigator.clipboard.writeText(formattedList);
   };
 
   const copyAllUrlsOnly = () => {
     const urlsOnly = gameState.contestants
-      .map(c => `${config.frontendUrl}/contestant/${c.id}`)
+      .map(c => getContestantUrl(c))
       .join('\n');
     navigator.clipboard.writeText(urlsOnly);
   };
 
+  const activeBuzzer = gameState.contestants.find(c => c.id === gameState.activeBuzzer);
+  const currentQuestion = questions[currentQuestionIndex];
+  // The board plays clues; the rest of the question bank is multiple choice
+  const questionKind: QuestionKind = gameType === 'board' ? 'clue' : 'multiple-choice';
+  // A board cell is worth its value; otherwise a question's own points beat the round default
+  const buzzPoints = gameType === 'board' ? getBoardCell(gameState.board, gameState.board?.activeCell)?.value : currentQuestion?.points;
+
   const getBuzzOrder = (id: string) => {
     if (!gameState.buzzOrder) return null;
     const idx = gameState.buzzOrder.indexOf(id);
     return idx !== -1 ? idx + 1 : null;
   };
 
+  const handleRegenerateLink = (contestantId: string) => {
+    if (socket) {
+      socket.emit('admin:regenerateContestantKey', contestantId);
+    }
+  };
+
   const handleRemoveContestant = (contestantId: string) => {
     if (socket) {
       socket.emit('admin:removeContestant', contestantId);
@@ -282,51 +477,116 @@ const AdminView: React.FC = () => {
     if (socket) socket.emit('admin:revealAnswers');
   };
 
+  const handleSetAnswersLocked = (locked: boolean) => {
+    if (socket) socket.emit('admin:setAnswersLocked', locked);
+  };
+
+  const handleSetFirstAnswerFinal = (enabled: boolean) => {
+    if (socket) socket.emit('admin:setFirstAnswerFinal', enabled);
+  };
+
   const handleSetCorrectAnswer = (answer: string) => {
     setCorrectAnswer(answer);
     if (socket) socket.emit('admin:setCorrectAnswer', answer);
   };
 
+  const handleSetWagerPhase = (phase: WagerPhase) => {
+    if (socket) socket.emit('admin:setWagerPhase', phase);
+  };
+
+  const handleRevealWager = (contestantId: string, correct: boolean) => {
+    if (socket) socket.emit('admin:revealWager', { contestantId, correct });
+  };
+
+  const handleJudgeAnswer = (contestantId: string, accepted: boolean) => {
+    if (socket) socket.emit('admin:judgeAnswer', { contestantId, accepted });
+  };
+
+  // packId ties the round to a saved pack so the questions that air get marked
+  const loadQuestions = (parsedQuestions: Question[], packId?: string) => {
+    setQuestions(parsedQuestions);
+    setCurrentQuestionIndex(0);
+    if (socket) {
+      // On the board the bank only feeds the next build; nothing goes on screen yet
+      if (gameType === 'board') {
+        socket.emit('admin:setQuestions', parsedQuestions, packId);
+        return;
+      }
+      socket.emit('admin:setGameType', 'multiple-choice');
+      
+      socket.emit('admin:setQuestions', parsedQuestions, packId);
+      
+      const firstQuestion = parsedQuestions[0];
+      const newConfig = {
+        question: firstQuestion.question,
+        options: firstQuestion.options,
+        currentQuestionIndex: 0,
+        media: firstQuestion.media,
+        optionMedia: firstQuestion.optionMedia
+      };
+      socket.emit('admin:setGameConfig', newConfig);
+      
+      socket.emit('admin:setCorrectAnswer', firstQuestion.correctAnswer);
+      if (firstQuestion.timer) socket.emit('admin:setTimerDuration', firstQuestion.timer);
+    }
+  };
+
+  // The server parses and validates the file; nothing is loaded until it's clean or the host accepts the valid rows
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       const text = e.target?.result as string;
-      const lines = text.split('\n');
-      const parsedQuestions: Question[] = lines
-        .filter(line => line.trim())
-        .map(line => {
-          const [question, a, b, c, d, correct] = line.split(',').map(item => item.trim());
-          return {
-            question,
-            options: [a, b, c, d],
-            correctAnswer: correct
-          };
+      const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      try {
+        const response = await fetch(`${config.apiUrl}/api/questions/import?format=${format}&kind=${questionKind}`, {
+          method: 'POST',
+          headers: adminHeaders({ 'Content-Type': 'text/plain' }),
+          body: text,
         });
-
-      setQuestions(parsedQuestions);
-      if (socket) {
-        socket.emit('admin:setGameType', 'multiple-choice');
-        
-        socket.emit('admin:setQuestions', parsedQuestions);
-        
-        const firstQuestion = parsedQuestions[0];
-        const newConfig = {
-          question: firstQuestion.question,
-          options: firstQuestion.options,
-          questions: parsedQuestions,
-          currentQuestionIndex: 0
-        };
-        socket.emit('admin:setGameConfig', newConfig);
-        
-        socket.emit('admin:setCorrectAnswer', firstQuestion.correctAnswer);
+        if (response.status === 401) {
+          handleLogout();
+          return;
+        }
+        const data = await response.json();
+        if (!response.ok) {
+          setImportErrors([{ line: 1, message: data.error || 'Import failed' }]);
+          setPendingImport([]);
+          return;
+        }
+        if (data.errors.length === 0) {
+          loadQuestions(data.questions);
+          return;
+        }
+        setImportErrors(data.errors);
+        setPendingImport(data.questions);
+      } catch (error) {
+        console.error('Error importing questions:', error);
       }
     };
     reader.readAsText(file);
   };
 
+  const handleCloseImport = () => {
+    setPendingImport(null);
+    setImportErrors([]);
+  };
+
+  const handleSaveEditedQuestions = (editedQuestions: Question[], liveIndex: number) => {
+    setQuestions(editedQuestions);
+    socket?.emit('admin:updateQuestions', { questions: editedQuestions, currentQuestionIndex: liveIndex });
+  };
+
+  const handleImportValidQuestions = () => {
+    if (pendingImport && pendingImport.length > 0) {
+      loadQuestions(pendingImport);
+    }
+    handleCloseImport();
+  };
+
   const handleNextQuestion = () => {
     if (currentQuestionIndex < questions.length - 1) {
       const nextIndex = currentQuestionIndex + 1;
@@ -336,13 +596,15 @@ const AdminView: React.FC = () => {
         ...gameConfig,
         question: question.question,
         options: question.options,
-        questions: questions,
-        currentQuestionIndex: nextIndex
+        currentQuestionIndex: nextIndex,
+        media: question.media,
+        optionMedia: question.optionMedia
       };
       setGameConfig(newConfig);
       if (socket) {
         socket.emit('admin:setGameConfig', newConfig);
         socket.emit('admin:setCorrectAnswer', question.correctAnswer);
+        if (question.timer) socket.emit('admin:setTimerDuration', question.timer);
       }
     }
   };
@@ -356,83 +618,79 @@ const AdminView: React.FC = () => {
         ...gameConfig,
         question: question.question,
         options: question.options,
-        questions: questions,
-        currentQuestionIndex: prevIndex
+        currentQuestionIndex: prevIndex,
+        media: question.media,
+        optionMedia: question.optionMedia
       };
       setGameConfig(newConfig);
       if (socket) {
         socket.emit('admin:setGameConfig', newConfig);
         socket.emit('admin:setCorrectAnswer', question.correctAnswer);
+        if (question.timer) socket.emit('admin:setTimerDuration', question.timer);
       }
     }
   };
 
-  const handleStartTimer = () => {
-    console.log('Starting timer');
+  // Timer commands carry which of the room's timers they're for
+  const handleStartTimer = (timerId: string, totalSeconds: number) => {
     if (socket) {
-      const minutes = parseInt(timerMinutes) || 0;
-      const seconds = parseInt(timerSeconds) || 0;
-      const totalSeconds = minutes * 60 + seconds;
-      console.log('Timer duration:', totalSeconds);
-      socket.emit('admin:startTimer', totalSeconds);
+      socket.emit('admin:startTimer', totalSeconds, timerId);
     }
   };
 
-  const handleStopTimer = () => {
+  const handleStopTimer = (timerId: string) => {
     if (socket) {
-      socket.emit('admin:stopTimer');
+      socket.emit('admin:stopTimer', timerId);
     }
   };
 
-  const handleResumeTimer = () => {
+  const handleResumeTimer = (timerId: string) => {
     if (socket) {
-      socket.emit('admin:resumeTimer');
+      socket.emit('admin:resumeTimer', timerId);
     }
   };
 
-  const handleStopOrResumeTimer = () => {
-    if (gameConfig.timerRunning) {
-      handleStopTimer();
-    } else {
-      handleResumeTimer();
+  const handleResetTimer = (timerId: string) => {
+    if (socket) {
+      socket.emit('admin:resetTimer', timerId);
     }
   };
 
-  const handleTimerMinutesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setTimerMinutes(value);
-    const minutes = parseInt(value);
-    const seconds = parseInt(timerSeconds) || 0;
-    if (!isNaN(minutes) && minutes >= 0) {
-      if (socket) {
-        const totalSeconds = minutes * 60 + seconds;
-        socket.emit('admin:setTimerDuration', totalSeconds);
-      }
+  const handleTimerDurationChange = (timerId: string, totalSeconds: number) => {
+    if (socket) {
+      socket.emit('admin:setTimerDuration', totalSeconds, timerId);
     }
   };
 
-  const handleTimerSecondsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    let value = e.target.value;
-    // Only allow 0-59
-    if (value !== '' && (!/^[0-9]+$/.test(value) || parseInt(value) > 59)) {
-      return;
+  const handleTimerModeChange = (timerId: string, mode: TimerMode) => {
+    if (socket) {
+      socket.emit('admin:setTimerMode', mode, timerId);
     }
-    setTimerSeconds(value);
-    const minutes = parseInt(timerMinutes) || 0;
-    const seconds = parseInt(value);
-    if (!isNaN(seconds) && seconds >= 0 && seconds <= 59) {
-      if (socket) {
-        const totalSeconds = minutes * 60 + seconds;
-        socket.emit('admin:setTimerDuration', totalSeconds);
-      }
+  };
+
+  const handleSetChessTurn = (timerId: string, contestantId: string) => {
+    if (socket) {
+      socket.emit('admin:setChessTurn', contestantId, timerId);
+    }
+  };
+
+  const handleAddTimer = () => {
+    if (socket && newTimerName.trim()) {
+      socket.emit('admin:addTimer', newTimerName.trim());
+      setNewTimerName('');
+    }
+  };
+
+  const handleRenameTimer = (timerId: string, name: string) => {
+    if (socket) {
+      socket.emit('admin:renameTimer', { timerId, name });
     }
   };
 
-  const formatTime = (seconds: number | undefined): string => {
-    if (seconds === undefined) return '00:00';
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  const handleRemoveTimer = (timerId: string) => {
+    if (socket) {
+      socket.emit('admin:removeTimer', timerId);
+    }
   };
 
   const formatRemainingTime = (milliseconds: number | null): string => {
@@ -452,8 +710,9 @@ const AdminView: React.FC = () => {
 
   const handleStartNewSession = async () => {
     try {
-      const response = await fetch(`${config.apiUrl}/api/logs/start-session`, {
+      const response = await fetch(`${roomApiUrl}/logs/start-session`, {
         method: 'POST',
+        headers: adminHeaders(),
       });
       if (response.ok) {
         const data = await response.json();
@@ -472,7 +731,9 @@ const AdminView: React.FC = () => {
 
   const fetchSessionInfo = async () => {
     try {
-      const response = await fetch(`${config.apiUrl}/api/logs/session-info`);
+      const response = await fetch(`${roomApiUrl}/logs/session-info`, {
+        headers: adminHeaders(),
+      });
       if (response.ok) {
         const data = await response.json();
         setSessionInfo(data.sessionInfo);
@@ -501,9 +762,9 @@ const AdminView: React.FC = () => {
   const handleEndSession = async () => {
     if (!sessionId) return;
     try {
-      const response = await fetch(`${config.apiUrl}/api/logs/end-session`, {
+      const response = await fetch(`${roomApiUrl}/logs/end-session`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: adminHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({ sessionId, fps: 29.97 }),
       });
 
@@ -528,11 +789,92 @@ const AdminView: React.FC = () => {
     }
   };
 
+  if (needsLogin) {
+    return <AdminLogin onLogin={setAdminToken} />;
+  }
+
+  // Play/pause for the clip on screen; multiple choice and the board share them
+  const mediaControls = (media: MediaRef) => (
+    <MediaControls
+      media={media}
+      playback={gameState.mediaPlayback}
+      onPlay={() => socket?.emit('admin:playMedia')}
+      onPause={() => socket?.emit('admin:pauseMedia')}
+      onStop={() => socket?.emit('admin:stopMedia')}
+    />
+  );
+
+  // Upload, editor and packs feed both multiple choice and the category board
+  const questionBankControls = (
+    <>
+      <Stack direction="row" spacing={2} sx={{ mb: 2, width: '100%' }} alignItems="center">
+        <Button 
+          variant="contained" 
+          component="span" 
+          color="warning" 
+          sx={{ 
+            minWidth: 200,
+            minHeight: 36
+          }}
+        >
+          <label htmlFor="csv-upload" style={{ width: '100%', display: 'block', cursor: 'pointer' }}>
+            <input
+              accept=".csv,.json"
+              style={{ display: 'none' }}
+              id="csv-upload"
+              type="file"
+              onChange={handleFileUpload}
+            />
+            Upload Questions (CSV/JSON)
+          </label>
+        </Button>
+        <Typography sx={{ flexGrow: 1 }}>Loaded {questions.length} questions</Typography>
+        <Button variant="outlined" onClick={() => setEditorOpen(!editorOpen)} sx={{ minHeight: 36 }}>
+          {editorOpen ? 'Close Editor' : 'Edit Questions'}
+        </Button>
+      </Stack>
+      {editorOpen && (
+        <QuestionEditorPanel
+          questions={questions}
+          kind={questionKind}
+          currentQuestionIndex={currentQuestionIndex}
+          onSave={handleSaveEditedQuestions}
+          onUnauthorized={handleLogout}
+        />
+      )}
+      <QuestionPackPanel
+        questions={questions}
+        kind={questionKind}
+        currentPackId={gameState.questionPackId ?? null}
+        currentQuestionIndex={currentQuestionIndex}
+        onLoad={loadQuestions}
+        onUnauthorized={handleLogout}
+      />
+    </>
+  );
+
   return (
     <Box sx={{ p: 3, minHeight: '100vh', backgroundColor: 'background.default' }}>
-      <Typography variant="h3" gutterBottom sx={{ color: 'primary.main', mb: 4 }}>
-        Syntax Admin Panel
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 4 }}>
+        <Box>
+          <Typography variant="h3" sx={{ color: 'primary.main' }}>
+            Syntax Admin Panel
+          </Typography>
+          <Typography variant="subtitle1" color="text.secondary">
+            Room: {roomName || roomId}
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant="outlined" component={RouterLink} to="/admin" sx={{ minHeight: 36 }}>
+            All Rooms
+          </Button>
+          {authRequired && (
+            <Button variant="outlined" onClick={handleLogout} sx={{ minHeight: 36 }}>
+              Log Out
+            </Button>
+          )}
+        </Box>
+      </Box>
 
       <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
         <Typography variant="h4" gutterBottom>
@@ -610,8 +952,65 @@ const AdminView: React.FC = () => {
             )}
           </Box>
         </Box>
+        {gameState.scoringRules && (
+          <ScoringRulesPanel rules={gameState.scoringRules} onChange={handleSetScoringRules} />
+        )}
       </Paper>
 
+      {gameState.history && (
+        <HistoryPanel history={gameState.history} onUndo={handleUndo} onRedo={handleRedo} />
+      )}
+
+      <RundownPanel
+        activeRundown={gameState.rundown ?? null}
+        segmentIndex={gameState.rundownSegmentIndex ?? -1}
+        gameType={gameType}
+        questions={questions}
+        questionPackId={gameState.questionPackId ?? null}
+        question={gameConfig.question || ''}
+        correctAnswer={correctAnswer}
+        timerDurationMs={mainTimer?.durationMs ?? null}
+        scoringRules={gameState.scoringRules}
+        automationRules={gameState.automationRules ?? []}
+        onStart={(rundownId) => socket?.emit('admin:startRundown', rundownId)}
+        onGoToSegment={(index) => socket?.emit('admin:goToSegment', index)}
+        onEnd={() => socket?.emit('admin:endRundown')}
+        onUnauthorized={handleLogout}
+      />
+
+      <AutomationRulesPanel
+        rules={gameState.automationRules ?? []}
+        timers={gameState.timers ?? []}
+        onChange={handleSetAutomationRules}
+      />
+
+      {/* Question import problems, shown before anything is loaded */}
+      <Dialog open={pendingImport !== null} onClose={handleCloseImport} maxWidth="sm" fullWidth>
+        <DialogTitle>Problems in the question file</DialogTitle>
+        <DialogContent>
+          <List dense>
+            {importErrors.map((error, idx) => (
+              <ListItem key={idx} disableGutters>
+                <ListItemText primary={`Line ${error.line}: ${error.message}`} />
+              </ListItem>
+            ))}
+          </List>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseImport} sx={{ minHeight: 36, minWidth: 80 }}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleImportValidQuestions}
+            disabled={!pendingImport || pendingImport.length === 0}
+            sx={{ minHeight: 36 }}
+          >
+            Import {pendingImport?.length ?? 0} valid questions
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Reset Scores Confirmation Dialog */}
       <Dialog
         open={resetScoresDialogOpen}
@@ -620,7 +1019,7 @@ const AdminView: React.FC = () => {
         <DialogTitle>Reset All Scores?</DialogTitle>
         <DialogContent>
           <Typography>
-            Are you sure you want to reset all contestant scores to 0? This action cannot be undone.
+            Are you sure you want to reset all contestant scores to 0? You can undo this from the History panel.
           </Typography>
         </DialogContent>
         <DialogActions>
@@ -658,65 +1057,148 @@ const AdminView: React.FC = () => {
             <MenuItem value="multiple-choice">Multiple Choice</MenuItem>
             <MenuItem value="two-option">Two Option (Custom)</MenuItem>
             <MenuItem value="timer-only">Timer Only</MenuItem>
+            <MenuItem value="wager">Wager Round</MenuItem>
+            <MenuItem value="free-text">Free Text</MenuItem>
+            <MenuItem value="numeric">Closest Number</MenuItem>
+            <MenuItem value="board">Category Board</MenuItem>
           </Select>
         </FormControl>
 
         {/* Timer Controls - moved here */}
-        <Stack direction="row" alignItems="center" sx={{ mb: 2, flexWrap: 'wrap', gap: 2 }}>
-          <TextField
-            label="Minutes"
-            type="number"
-            value={timerMinutes}
-            onChange={handleTimerMinutesChange}
-            sx={{ width: 120 }}
-            inputProps={{ min: 0 }}
+        {(gameState.timers || []).map(timer => (
+          <TimerControls
+            key={timer.id}
+            timer={timer}
+            contestants={gameState.contestants}
+            onStart={(seconds) => handleStartTimer(timer.id, seconds)}
+            onStop={() => handleStopTimer(timer.id)}
+            onResume={() => handleResumeTimer(timer.id)}
+            onReset={() => handleResetTimer(timer.id)}
+            onDurationChange={(seconds) => handleTimerDurationChange(timer.id, seconds)}
+            onModeChange={(mode) => handleTimerModeChange(timer.id, mode)}
+            onSetChessTurn={(contestantId) => handleSetChessTurn(timer.id, contestantId)}
+            onRename={(name) => handleRenameTimer(timer.id, name)}
+            onRemove={() => handleRemoveTimer(timer.id)}
           />
+        ))}
+        <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
           <TextField
-            label="Seconds"
-            type="number"
-            value={timerSeconds}
-            onChange={handleTimerSecondsChange}
-            sx={{ width: 120 }}
-            inputProps={{ min: 0, max: 59 }}
-          />
-          <Button
-            variant="contained"
-            color="primary"
-            onClick={handleStartTimer}
-            sx={{ 
-              minHeight: 36,
-              minWidth: 120
+            label="New Timer Name"
+            size="small"
+            value={newTimerName}
+            onChange={(e) => setNewTimerName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                handleAddTimer();
+              }
             }}
-          >
-            Start Timer
+            placeholder="e.g. Shot Clock"
+          />
+          <Button variant="outlined" onClick={handleAddTimer} disabled={!newTimerName.trim()}>
+            Add Timer
           </Button>
-          {gameConfig.timerRemaining !== undefined && (
-            <Button
-              variant="contained"
-              color={gameConfig.timerRunning ? "error" : "success"}
-              onClick={handleStopOrResumeTimer}
-              sx={{ 
-                minHeight: 36,
-                minWidth: 120
-              }}
-            >
-              {gameConfig.timerRunning ? 'Stop Timer' : (gameConfig.timerRemaining > 0 ? 'Resume Timer' : 'Stop Timer')}
-            </Button>
-          )}
-          {gameConfig.timerRemaining !== undefined && (
-            <Typography variant="h4" sx={{ ml: 2 }}>
-              {formatTime(gameConfig.timerRemaining)}
-            </Typography>
-          )}
-          {gameConfig.timerRemaining === undefined && gameConfig.timerDuration !== undefined && (
-            <Typography variant="h4" sx={{ ml: 2, color: 'text.secondary' }}>
-              {formatTime(gameConfig.timerDuration)}
-            </Typography>
-          )}
         </Stack>
 
-        {gameType === 'buzzer' && (
+        {gameType === 'board' && (
+          <>
+            <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+              <Typography variant="h6" sx={{ mb: 2, fontWeight: 700 }}>
+                Question Bank
+              </Typography>
+              {questionBankControls}
+            </Paper>
+            <BoardPanel
+              board={gameState.board}
+              renderMediaControls={mediaControls}
+              questionCount={questions.length}
+              onBuild={() => socket?.emit('admin:buildBoard')}
+              onPickCell={(position: BoardPosition) => socket?.emit('admin:pickBoardCell', position)}
+              onCloseCell={() => socket?.emit('admin:closeBoardCell')}
+              onSetCellUsed={(position: BoardPosition, used: boolean) => socket?.emit('admin:setBoardCellUsed', { position, used })}
+              onReset={() => socket?.emit('admin:resetBoard')}
+            />
+          </>
+        )}
+
+        {(gameType === 'buzzer' || gameType === 'board') && (
           <>
+            <Stack direction="row" spacing={2} sx={{ mb: 3 }} alignItems="center">
+              <Chip
+                label={gameState.buzzerState === 'open' ? 'Buzzers Open' : gameState.buzzerState === 'armed' ? 'Buzzers Armed' : 'Buzzers Closed'}
+                color={gameState.buzzerState === 'open' ? 'success' : gameState.buzzerState === 'armed' ? 'warning' : 'default'}
+              />
+              <Button
+                variant="contained"
+                color="success"
+                onClick={() => handleSetBuzzerState('open')}
+                disabled={gameState.buzzerState === 'open'}
+                sx={{ minHeight: 36, minWidth: 120 }}
+              >
+                Open Buzzers
+              </Button>
+              <Tooltip title="Buzzing while armed locks the contestant out for the penalty time">
+                <Button
+                  variant="outlined"
+                  color="warning"
+                  onClick={() => handleSetBuzzerState('armed')}
+                  disabled={gameState.buzzerState === 'armed'}
+                  sx={{ minHeight: 36, minWidth: 120 }}
+                >
+                  Arm
+                </Button>
+              </Tooltip>
+              <Button
+                variant="outlined"
+                onClick={() => handleSetBuzzerState('closed')}
+                disabled={gameState.buzzerState === 'closed'}
+                sx={{ minHeight: 36, minWidth: 120 }}
+              >
+                Close Buzzers
+              </Button>
+              <TextField
+                label="Early buzz lockout (ms)"
+                type="number"
+                size="small"
+                value={lockoutInput}
+                placeholder={String(gameState.buzzerLockoutMs ?? '')}
+                onChange={(e) => setLockoutInput(e.target.value)}
+                onBlur={handleSetBuzzerLockout}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    handleSetBuzzerLockout();
+                  }
+                }}
+                slotProps={{ inputLabel: { shrink: true } }}
+                sx={{ width: 180 }}
+              />
+            </Stack>
+            <Stack direction="row" spacing={2} sx={{ mb: 3 }} alignItems="center">
+              <Typography variant="h6" sx={{ fontWeight: 700, minWidth: 220 }}>
+                {activeBuzzer ? `Answering: ${activeBuzzer.name}` : 'Waiting for a buzz'}
+              </Typography>
+              <Button
+                variant="contained"
+                color="success"
+                onClick={() => handleJudgeBuzz(true)}
+                disabled={!activeBuzzer}
+                sx={{ minHeight: 36, minWidth: 120 }}
+              >
+                Correct (+{buzzPoints ?? gameState.scoringRules?.pointsCorrect ?? 1})
+              </Button>
+              <Tooltip title="Locks this contestant out for the question and passes the buzz to the next in line">
+                <span>
+                  <Button
+                    variant="contained"
+                    color="error"
+                    onClick={() => handleJudgeBuzz(false)}
+                    disabled={!activeBuzzer}
+                    sx={{ minHeight: 36, minWidth: 120 }}
+                  >
+                    Incorrect (-{gameState.scoringRules?.penaltyWrong ?? 0})
+                  </Button>
+                </span>
+              </Tooltip>
+            </Stack>
             <Typography variant="h6" sx={{ mb: 2, fontWeight: 700 }}>
               Current Options Status
             </Typography>
@@ -730,31 +1212,51 @@ const AdminView: React.FC = () => {
                 </TableRow>
               </TableHead>
               <TableBody>
-                {gameState.contestants.map(c => (
-                  <TableRow key={c.id}>
-                    <TableCell>{c.name}</TableCell>
-                    <TableCell align="center">{c.score}</TableCell>
-                    <TableCell align="center">
-                      <Chip
-                        label={c.buzzed ? 'Buzzed' : 'Ready'}
-                        color={c.buzzed ? 'info' : 'default'}
-                        size="small"
-                      />
-                    </TableCell>
-                    <TableCell align="center">
-                      {getBuzzOrder(c.id) ? (
-                        <Chip label={getBuzzOrder(c.id)} color={getBuzzOrder(c.id) === 1 ? 'primary' : 'default'} size="small" />
-                      ) : (
-                        <Typography variant="body2" color="text.secondary">—</Typography>
-                      )}
-                    </TableCell>
-                  </TableRow>
+                {groupByTeam(gameState.contestants, gameState.teams).map(group => (
+                  <React.Fragment key={group.team?.id ?? 'no-team'}>
+                    {group.team && (
+                      <TableRow>
+                        <TableCell colSpan={4} sx={{ fontWeight: 700, bgcolor: 'action.hover' }}>
+                          {group.team.name} ({group.team.score})
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {group.members.map(c => (
+                      <TableRow key={c.id}>
+                        <TableCell>{c.name}</TableCell>
+                        <TableCell align="center">{c.score}</TableCell>
+                        <TableCell align="center">
+                          <Chip
+                            label={gameState.incorrectBuzzes?.includes(c.id) ? 'Incorrect' : c.id === gameState.activeBuzzer ? 'Answering' : c.buzzed ? 'Buzzed' : 'Ready'}
+                            color={gameState.incorrectBuzzes?.includes(c.id) ? 'error' : c.id === gameState.activeBuzzer ? 'success' : c.buzzed ? 'info' : 'default'}
+                            size="small"
+                          />
+                        </TableCell>
+                        <TableCell align="center">
+                          {getBuzzOrder(c.id) ? (
+                            <Chip label={getBuzzOrder(c.id)} color={getBuzzOrder(c.id) === 1 ? 'primary' : 'default'} size="small" />
+                          ) : (
+                            <Typography variant="body2" color="text.secondary">—</Typography>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </React.Fragment>
                 ))}
               </TableBody>
             </Table>
           </>
         )}
 
+        {(gameType === 'multiple-choice' || gameType === 'two-option' || gameType === 'free-text' || gameType === 'numeric') && (
+          <AnswerLockControls
+            answersLocked={!!gameState.answersLocked}
+            firstAnswerFinal={!!gameState.firstAnswerFinal}
+            onLockChange={handleSetAnswersLocked}
+            onFirstAnswerFinalChange={handleSetFirstAnswerFinal}
+          />
+        )}
+
         {(gameType === 'multiple-choice' || gameType === 'two-option') && (
           <>
             {gameType === 'multiple-choice' && (
@@ -762,29 +1264,7 @@ const AdminView: React.FC = () => {
                 <Typography variant="h6" sx={{ mb: 2, fontWeight: 700, width: '100%', textAlign: 'left' }}>
                   Question Management
                 </Typography>
-                <Stack direction="row" spacing={2} sx={{ mb: 2, width: '100%' }} alignItems="center">
-                  <Button 
-                    variant="contained" 
-                    component="span" 
-                    color="warning" 
-                    sx={{ 
-                      minWidth: 200,
-                      minHeight: 36
-                    }}
-                  >
-                    <label htmlFor="csv-upload" style={{ width: '100%', display: 'block', cursor: 'pointer' }}>
-                      <input
-                        accept=".csv"
-                        style={{ display: 'none' }}
-                        id="csv-upload"
-                        type="file"
-                        onChange={handleFileUpload}
-                      />
-                      Upload Questions CSV
-                    </label>
-                  </Button>
-                  <Typography sx={{ flexGrow: 1 }}>Loaded {questions.length} questions</Typography>
-                </Stack>
+                {questionBankControls}
                 <Stack direction="row" spacing={2} sx={{ mb: 2, width: '100%' }} alignItems="center">
                   <Button
                     variant="outlined"
@@ -818,6 +1298,17 @@ const AdminView: React.FC = () => {
                     <Typography variant="h5" sx={{ mb: 2, fontWeight: 700, width: '100%', textAlign: 'left' }}>
                       {gameConfig.question}
                     </Typography>
+                    {gameConfig.media && (
+                      <>
+                        <QuestionMedia media={gameConfig.media} playback={gameState.mediaPlayback} muted maxHeight={200} />
+                        {mediaControls(gameConfig.media)}
+                      </>
+                    )}
+                    {currentQuestion?.notes && (
+                      <Typography variant="body2" color="text.secondary" sx={{ mb: 2, whiteSpace: 'pre-wrap' }}>
+                        Host notes: {currentQuestion.notes}
+                      </Typography>
+                    )}
                     <Box
                       sx={{
                         display: 'grid',
@@ -868,6 +1359,7 @@ const AdminView: React.FC = () => {
                       <TableCell align="center">Score</TableCell>
                       <TableCell align="center">Status</TableCell>
                       <TableCell align="center">Answer</TableCell>
+                      <TableCell align="center">Time</TableCell>
                     </TableRow>
                   </TableHead>
                   <TableBody>
@@ -899,6 +1391,9 @@ const AdminView: React.FC = () => {
                             <Typography variant="body2" color="text.secondary">—</Typography>
                           )}
                         </TableCell>
+                        <TableCell align="center">
+                          {gameState.answerLatencies?.[c.id] !== undefined ? formatTimerMs(gameState.answerLatencies[c.id], false) : '—'}
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -975,6 +1470,7 @@ const AdminView: React.FC = () => {
                       <TableCell align="center">Score</TableCell>
                       <TableCell align="center">Status</TableCell>
                       <TableCell align="center">Answer</TableCell>
+                      <TableCell align="center">Time</TableCell>
                     </TableRow>
                   </TableHead>
                   <TableBody>
@@ -1000,6 +1496,9 @@ const AdminView: React.FC = () => {
                             <Typography variant="body2" color="text.secondary">—</Typography>
                           )}
                         </TableCell>
+                        <TableCell align="center">
+                          {gameState.answerLatencies?.[c.id] !== undefined ? formatTimerMs(gameState.answerLatencies[c.id], false) : '—'}
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -1024,8 +1523,68 @@ const AdminView: React.FC = () => {
             )}
           </>
         )}
+
+        {gameType === 'free-text' && (
+          <FreeTextPanel
+            contestants={gameState.contestants}
+            answers={gameState.answers || {}}
+            suggestions={gameState.answerSuggestions || {}}
+            judgements={gameState.answerJudgements || {}}
+            question={gameConfig.question || ''}
+            correctAnswer={correctAnswer}
+            revealAnswers={revealAnswers}
+            onQuestionChange={(question) => handleConfigChange('question', question)}
+            onCorrectAnswerChange={handleSetCorrectAnswer}
+            onJudge={handleJudgeAnswer}
+            onReveal={handleRevealAnswers}
+          />
+        )}
+
+        {gameType === 'numeric' && gameState.scoringRules && (
+          <NumericPanel
+            contestants={gameState.contestants}
+            answers={gameState.answers || {}}
+            latencies={gameState.answerLatencies || {}}
+            results={gameState.numericResults || null}
+            rules={gameState.scoringRules}
+            question={gameConfig.question || ''}
+            correctAnswer={correctAnswer}
+            revealAnswers={revealAnswers}
+            onQuestionChange={(question) => handleConfigChange('question', question)}
+            onCorrectAnswerChange={handleSetCorrectAnswer}
+            onRulesChange={handleSetScoringRules}
+            onReveal={handleRevealAnswers}
+          />
+        )}
+
+        {gameType === 'wager' && gameState.wagerRound && (
+          <WagerRoundPanel
+            contestants={gameState.contestants}
+            wagerRound={gameState.wagerRound}
+            answers={gameState.answers || {}}
+            question={gameConfig.question || ''}
+            correctAnswer={correctAnswer}
+            onQuestionChange={(question) => handleConfigChange('question', question)}
+            onCorrectAnswerChange={handleSetCorrectAnswer}
+            onSetPhase={handleSetWagerPhase}
+            onReveal={handleRevealWager}
+          />
+        )}
       </Paper>
 
+      <TeamsPanel
+        teams={gameState.teams || []}
+        contestants={gameState.contestants}
+        scoreMode={gameState.teamScoreMode || 'sum'}
+        buzzLockout={!!gameState.teamBuzzLockout}
+        onAddTeam={handleAddTeam}
+        onRenameTeam={handleRenameTeam}
+        onRemoveTeam={handleRemoveTeam}
+        onUpdateTeamScore={handleUpdateTeamScore}
+        onScoreModeChange={handleSetTeamScoreMode}
+        onBuzzLockoutChange={handleSetTeamBuzzLockout}
+      />
+
       <Paper elevation={3} sx={{ p: 3 }}>
         <Box sx={{ 
           display: 'flex', 
@@ -1113,6 +1672,21 @@ const AdminView: React.FC = () => {
                         <ListItem
                           secondaryAction={
                             <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                              {!!gameState.teams?.length && (
+                                <FormControl size="small" sx={{ minWidth: 140 }}>
+                                  <InputLabel>Team</InputLabel>
+                                  <Select
+                                    value={contestant.teamId ?? ''}
+                                    label="Team"
+                                    onChange={(e) => handleSetContestantTeam(contestant.id, e.target.value || null)}
+                                  >
+                                    <MenuItem value="">No team</MenuItem>
+                                    {gameState.teams.map(team => (
+                                      <MenuItem key={team.id} value={team.id}>{team.name}</MenuItem>
+                                    ))}
+                                  </Select>
+                                </FormControl>
+                              )}
                               <TextField
                                 type="number"
                                 label="Score"
@@ -1124,12 +1698,21 @@ const AdminView: React.FC = () => {
                               <Tooltip title="Copy Contestant URL">
                                 <IconButton
                                   edge="end"
-                                  onClick={() => copyContestantUrl(contestant.id)}
+                                  onClick={() => copyContestantUrl(contestant)}
                                   sx={{ mr: 1 }}
                                 >
                                   <ContentCopyIcon />
                                 </IconButton>
                               </Tooltip>
+                              <Tooltip title="Revoke & Regenerate Link">
+                                <IconButton
+                                  edge="end"
+                                  onClick={() => handleRegenerateLink(contestant.id)}
+                                  sx={{ mr: 1 }}
+                                >
+                                  <LinkOffIcon />
+                                </IconButton>
+                              </Tooltip>
                               <IconButton edge="end" aria-label="delete" onClick={() => handleRemoveContestant(contestant.id)}>
                                 <DeleteIcon />
                               </IconButton>
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Button, Chip, FormControlLabel, Stack, Switch } from '@mui/material';
+
+interface AnswerLockControlsProps {
+  answersLocked: boolean;
+  firstAnswerFinal: boolean;
+  onLockChange: (locked: boolean) => void;
+  onFirstAnswerFinalChange: (enabled: boolean) => void;
+}
+
+// Closing and reopening answers by hand; the server also locks them when the main countdown runs out
+const AnswerLockControls: React.FC<AnswerLockControlsProps> = ({
+  answersLocked,
+  firstAnswerFinal,
+  onLockChange,
+  onFirstAnswerFinalChange,
+}) => (
+  <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2, flexWrap: 'wrap', rowGap: 1 }}>
+    <Button
+      variant={answersLocked ? 'contained' : 'outlined'}
+      color={answersLocked ? 'warning' : 'primary'}
+      onClick={() => onLockChange(!answersLocked)}
+    >
+      {answersLocked ? 'Unlock Answers' : 'Lock Answers'}
+    </Button>
+    {answersLocked && <Chip label="Answers locked" color="warning" size="small" />}
+    <FormControlLabel
+      control={
+        <Switch
+          checked={firstAnswerFinal}
+          onChange={(e) => onFirstAnswerFinalChange(e.target.checked)}
+        />
+      }
+      label="First answer is final"
+    />
+  </Stack>
+);
+
+export default AnswerLockControls;
@@ -0,0 +1,139 @@
+import React from 'react';
+import {
+  Button,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { MAIN_TIMER_ID } from '../utils/timer';
+
+export type AutomationTrigger = 'timer-expired' | 'all-answered' | 'buzz-received' | 'buzz-correct';
+export type AutomationAction = 'lock-answers' | 'reveal' | 'stop-timer' | 'next-question' | 'reset-buzzers' | 'close-buzzers';
+
+export interface AutomationRule {
+  id: string;
+  trigger: AutomationTrigger;
+  action: AutomationAction;
+  delaySeconds: number;
+  timerId?: string; // timer-expired and stop-timer: which timer; the main one otherwise
+}
+
+const TRIGGER_LABELS: Record<AutomationTrigger, string> = {
+  'timer-expired': 'Time runs out',
+  'all-answered': 'Everyone has answered',
+  'buzz-received': 'A buzz comes in',
+  'buzz-correct': 'A buzz is judged correct',
+};
+
+const ACTION_LABELS: Record<AutomationAction, string> = {
+  'lock-answers': 'Lock answers',
+  'reveal': 'Reveal answers',
+  'stop-timer': 'Stop the timer',
+  'next-question': 'Go to the next question',
+  'reset-buzzers': 'Reset buzzers',
+  'close-buzzers': 'Close buzzers',
+};
+
+const usesTimer = (rule: AutomationRule) => rule.trigger === 'timer-expired' || rule.action === 'stop-timer';
+
+interface AutomationRulesPanelProps {
+  rules: AutomationRule[];
+  timers: { id: string; name: string }[];
+  onChange: (rules: AutomationRule[]) => void;
+}
+
+// "When X, do Y" follow-ups the server runs for the host. Every change sends the whole list;
+// the delay commits on blur and re-keys on server updates like the scoring fields
+const AutomationRulesPanel: React.FC<AutomationRulesPanelProps> = ({ rules, timers, onChange }) => {
+  const updateRule = (index: number, update: Partial<AutomationRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...update } : rule)));
+  };
+
+  const handleAdd = () => {
+    onChange([...rules, { id: Math.random().toString(36).slice(2, 10), trigger: 'timer-expired', action: 'lock-answers', delaySeconds: 0 }]);
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+      <Typography variant="h4" gutterBottom>
+        Automation
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Follow-ups the server runs for you. A rundown segment can carry its own set; pending delays are dropped when the question changes.
+      </Typography>
+      <Stack spacing={2}>
+        {rules.map((rule, index) => (
+          <Stack key={rule.id} direction="row" spacing={2} alignItems="center" sx={{ flexWrap: 'wrap', rowGap: 1 }}>
+            <FormControl size="small" sx={{ minWidth: 220 }}>
+              <InputLabel>When</InputLabel>
+              <Select
+                value={rule.trigger}
+                label="When"
+                onChange={(e) => updateRule(index, { trigger: e.target.value as AutomationTrigger })}
+              >
+                {(Object.keys(TRIGGER_LABELS) as AutomationTrigger[]).map(trigger => (
+                  <MenuItem key={trigger} value={trigger}>{TRIGGER_LABELS[trigger]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ minWidth: 220 }}>
+              <InputLabel>Then</InputLabel>
+              <Select
+                value={rule.action}
+                label="Then"
+                onChange={(e) => updateRule(index, { action: e.target.value as AutomationAction })}
+              >
+                {(Object.keys(ACTION_LABELS) as AutomationAction[]).map(action => (
+                  <MenuItem key={action} value={action}>{ACTION_LABELS[action]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            {usesTimer(rule) && timers.length > 1 && (
+              <FormControl size="small" sx={{ minWidth: 160 }}>
+                <InputLabel>Timer</InputLabel>
+                <Select
+                  value={rule.timerId ?? MAIN_TIMER_ID}
+                  label="Timer"
+                  onChange={(e) => updateRule(index, { timerId: e.target.value })}
+                >
+                  {timers.map(timer => (
+                    <MenuItem key={timer.id} value={timer.id}>{timer.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+            <TextField
+              label="After (seconds)"
+              type="number"
+              size="small"
+              key={`delay-${rule.id}-${rule.delaySeconds}`}
+              defaultValue={rule.delaySeconds}
+              onBlur={(e) => {
+                const delaySeconds = Math.max(0, Number(e.target.value) || 0);
+                if (delaySeconds !== rule.delaySeconds) updateRule(index, { delaySeconds });
+              }}
+              sx={{ width: 140 }}
+              inputProps={{ min: 0 }}
+            />
+            <IconButton color="error" onClick={() => onChange(rules.filter((_, i) => i !== index))}>
+              <DeleteIcon />
+            </IconButton>
+          </Stack>
+        ))}
+      </Stack>
+      <Button variant="outlined" startIcon={<AddIcon />} onClick={handleAdd} sx={{ mt: 2 }}>
+        Add Rule
+      </Button>
+    </Paper>
+  );
+};
+
+export default AutomationRulesPanel;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Box, ButtonBase, Typography } from '@mui/material';
+import { Board, BoardCell, BoardPosition } from '../utils/board';
+
+interface BoardGridProps {
+  board: Board;
+  onCellClick?: (position: BoardPosition, cell: BoardCell) => void;
+  size?: 'small' | 'large'; // large fills an OBS scene
+}
+
+// The category board as everyone sees it: used cells go dark, the cell in play is outlined
+const BoardGrid: React.FC<BoardGridProps> = ({ board, onCellClick, size = 'small' }) => {
+  const rows = Math.max(0, ...board.categories.map(category => category.cells.length));
+  const large = size === 'large';
+
+  return (
+    <Box
+      sx={{
+        display: 'grid',
+        gridTemplateColumns: `repeat(${board.categories.length}, minmax(0, 1fr))`,
+        gap: large ? 2 : 1,
+        width: '100%',
+      }}
+    >
+      {board.categories.map((category, categoryIndex) => (
+        <Box
+          key={`category-${categoryIndex}`}
+          sx={{
+            bgcolor: 'secondary.main',
+            borderRadius: 2,
+            p: large ? 2 : 1,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            textAlign: 'center',
+            minHeight: large ? 100 : 56,
+          }}
+        >
+          <Typography variant={large ? 'h4' : 'subtitle2'} sx={{ fontWeight: 700, textTransform: 'uppercase' }}>
+            {category.name}
+          </Typography>
+        </Box>
+      ))}
+      {Array.from({ length: rows }).flatMap((_, row) =>
+        board.categories.map((category, categoryIndex) => {
+          const cell = category.cells[row];
+          if (!cell) return <Box key={`${categoryIndex}-${row}`} />;
+          const active = board.activeCell?.category === categoryIndex && board.activeCell?.row === row;
+          return (
+            <ButtonBase
+              key={`${categoryIndex}-${row}`}
+              disabled={!onCellClick}
+              onClick={() => onCellClick?.({ category: categoryIndex, row }, cell)}
+              sx={{
+                bgcolor: cell.used && !active ? 'action.disabledBackground' : 'secondary.main',
+                border: 3,
+                borderColor: active ? 'primary.main' : 'transparent',
+                borderRadius: 2,
+                minHeight: large ? 110 : 56,
+                opacity: cell.used && !active ? 0.4 : 1,
+                transition: 'opacity 0.3s ease',
+              }}
+            >
+              <Typography variant={large ? 'h2' : 'h6'} sx={{ color: 'primary.main', fontWeight: 700 }}>
+                {cell.used && !active ? '' : cell.value}
+              </Typography>
+            </ButtonBase>
+          );
+        })
+      )}
+    </Box>
+  );
+};
+
+export default BoardGrid;
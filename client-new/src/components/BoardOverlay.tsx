@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { io } from 'socket.io-client';
+import { Box, Typography } from '@mui/material';
+import { config } from '../utils/config';
+import { subscribeToGameState } from '../utils/gameStateSync';
+import { enableClockSync, recordServerTime } from '../utils/serverClock';
+import BoardGrid from './BoardGrid';
+import QuestionMedia from './QuestionMedia';
+import { Board, getBoardCell } from '../utils/board';
+import { MediaPlayback, MediaRef, usePreloadMedia } from '../utils/media';
+
+interface BoardOverlayState {
+  board?: Board;
+  gameConfig?: { question?: string; media?: MediaRef };
+  mediaPlayback?: MediaPlayback;
+  preloadMedia?: MediaRef[];
+  serverTime?: number;
+}
+
+interface BoardOverlayProps {
+  roomId: string;
+}
+
+// Browser source for OBS: the board between picks, the question full screen while a cell is in play
+const BoardOverlay: React.FC<BoardOverlayProps> = ({ roomId }) => {
+  const [state, setState] = useState<BoardOverlayState>({});
+
+  useEffect(() => {
+    const socket = io(config.websocketUrl, {
+      reconnection: true,
+      reconnectionDelay: 1000
+    });
+    socket.on('connect', () => {
+      socket.emit('join', { roomId });
+    });
+    enableClockSync(socket);
+    subscribeToGameState<BoardOverlayState>(socket, (next) => {
+      if (next.serverTime) {
+        recordServerTime(next.serverTime);
+      }
+      setState(next);
+    });
+    return () => {
+      socket.close();
+    };
+  }, [roomId]);
+
+  usePreloadMedia(state.preloadMedia);
+
+  const board = state.board;
+  const activeCell = getBoardCell(board, board?.activeCell);
+
+  return (
+    <Box
+      sx={{
+        width: '100vw',
+        height: '100vh',
+        p: 4,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}
+    >
+      {board && activeCell ? (
+        <Box
+          sx={{
+            width: '100%',
+            height: '100%',
+            bgcolor: 'secondary.main',
+            borderRadius: 4,
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            textAlign: 'center',
+            p: 8,
+          }}
+        >
+          <Typography variant="h4" sx={{ color: 'primary.main', fontWeight: 700, textTransform: 'uppercase', mb: 4 }}>
+            {board.categories[board.activeCell?.category ?? -1]?.name} for {activeCell.value}
+          </Typography>
+          <Typography variant="h1" sx={{ fontWeight: 700, fontSize: '4rem' }}>
+            {state.gameConfig?.question}
+          </Typography>
+          {state.gameConfig?.media && (
+            <QuestionMedia media={state.gameConfig.media} playback={state.mediaPlayback} maxHeight="45vh" />
+          )}
+        </Box>
+      ) : board && board.categories.length > 0 ? (
+        <BoardGrid board={board} size="large" />
+      ) : null}
+    </Box>
+  );
+};
+
+export default BoardOverlay;
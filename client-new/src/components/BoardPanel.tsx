@@ -0,0 +1,97 @@
+import React from 'react';
+import { Box, Button, Paper, Stack, Typography } from '@mui/material';
+import BoardGrid from './BoardGrid';
+import QuestionMedia from './QuestionMedia';
+import { Board, BoardPosition, getBoardCell } from '../utils/board';
+import { MediaRef } from '../utils/media';
+
+interface BoardPanelProps {
+  board?: Board;
+  questionCount: number;
+  onBuild: () => void;
+  onPickCell: (position: BoardPosition) => void;
+  onCloseCell: () => void;
+  onSetCellUsed: (position: BoardPosition, used: boolean) => void;
+  onReset: () => void;
+  renderMediaControls: (media: MediaRef) => React.ReactNode;
+}
+
+// Host side of the category board. Picking a cell puts its question up and arms the buzzers;
+// judging then runs through the usual buzzer controls below, worth the cell's value
+const BoardPanel: React.FC<BoardPanelProps> = ({ board, questionCount, onBuild, onPickCell, onCloseCell, onSetCellUsed, onReset, renderMediaControls }) => {
+  const activeCell = getBoardCell(board, board?.activeCell);
+  const activeCategory = board?.activeCell ? board.categories[board.activeCell.category]?.name : undefined;
+  const hasBoard = !!board && board.categories.length > 0;
+
+  const handleBuild = () => {
+    if (hasBoard && !window.confirm('Rebuild the board from the question bank? Every cell will be back in play.')) return;
+    onBuild();
+  };
+
+  const handleCellClick = (position: BoardPosition, cell: { used: boolean; value: number }) => {
+    if (!cell.used) {
+      onPickCell(position);
+    } else if (
+      (board?.activeCell?.category !== position.category || board?.activeCell?.row !== position.row) &&
+      window.confirm(`Put ${board?.categories[position.category].name} for ${cell.value} back in play?`)
+    ) {
+      onSetCellUsed(position, false);
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <Typography variant="h6" sx={{ fontWeight: 700, flexGrow: 1 }}>
+          Category Board
+        </Typography>
+        <Button variant="outlined" onClick={handleBuild} disabled={questionCount === 0} sx={{ minHeight: 36 }}>
+          Build from {questionCount} questions
+        </Button>
+        <Button variant="outlined" onClick={onReset} disabled={!hasBoard} sx={{ minHeight: 36 }}>
+          Reset Board
+        </Button>
+        <Button variant="contained" onClick={onCloseCell} disabled={!board?.activeCell} sx={{ minHeight: 36 }}>
+          Back to Board
+        </Button>
+      </Stack>
+
+      {hasBoard ? (
+        <BoardGrid board={board} onCellClick={handleCellClick} />
+      ) : (
+        <Typography color="text.secondary">
+          Load questions with a category on each, then build the board. A question's points set its value; otherwise rows count up 100, 200, 300.
+        </Typography>
+      )}
+
+      {activeCell?.question && (
+        <Box sx={{ mt: 3, bgcolor: 'rgba(255, 255, 255, 0.05)', borderRadius: 2, p: 3 }}>
+          <Typography variant="overline" color="text.secondary">
+            {activeCategory} for {activeCell.value}
+          </Typography>
+          <Typography variant="h5" sx={{ fontWeight: 700, mb: 1 }}>
+            {activeCell.question.question}
+          </Typography>
+          {activeCell.question.media && (
+            <>
+              <QuestionMedia media={activeCell.question.media} muted maxHeight={200} />
+              {renderMediaControls(activeCell.question.media)}
+            </>
+          )}
+          {activeCell.question.correctAnswer && (
+            <Typography color="success.main" sx={{ fontWeight: 600 }}>
+              Answer: {activeCell.question.correctAnswer}
+            </Typography>
+          )}
+          {activeCell.question.notes && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1, whiteSpace: 'pre-wrap' }}>
+              Host notes: {activeCell.question.notes}
+            </Typography>
+          )}
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default BoardPanel;
@@ -1,50 +1,92 @@
 import React, { useEffect, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { config } from '../utils/config';
-import { Box, Button, Typography, Paper, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Chip, Stack } from '@mui/material';
+import { Box, Button, Typography, Paper, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Chip, Stack, TextField } from '@mui/material';
 import TimerOnly from './TimerOnly';
+import QuestionCard from './QuestionCard';
+import BoardGrid from './BoardGrid';
+import { formatTimerMs, isTimerExpired, NamedTimer, pickTimer, useTimerDisplayMs } from '../utils/timer';
+import TimerBreakdown from './TimerBreakdown';
+import { enableClockSync, recordServerTime } from '../utils/serverClock';
+import { subscribeToGameState } from '../utils/gameStateSync';
+import { BuzzerState, useIsLockedOut } from '../utils/buzzer';
+import { groupByTeam, Team } from '../utils/teams';
+import { Board, getBoardCell } from '../utils/board';
+import { MediaPlayback, MediaRef, usePreloadMedia } from '../utils/media';
+import QuestionMedia from './QuestionMedia';
 
 interface Contestant {
   id: string;
   name: string;
   score: number;
   buzzed: boolean;
+  lockedOutUntil?: number | null;
+  teamId?: string | null;
 }
 
-type GameType = 'buzzer' | 'multiple-choice' | 'two-option' | 'timer-only';
+type GameType = 'buzzer' | 'multiple-choice' | 'two-option' | 'timer-only' | 'wager' | 'free-text' | 'numeric' | 'board';
 
-interface Question {
-  question: string;
-  options: string[];
-  correctAnswer: string;
+// Public view of a wager round: bets only appear once the host reveals that contestant
+interface WagerRoundView {
+  phase: 'wagering' | 'answering' | 'revealing';
+  submitted: string[];
+  revealed: string[];
+  wagers: Record<string, number>;
+  results: Record<string, boolean>;
 }
 
 interface GameConfig {
   question?: string;
   options?: string[];
-  questions?: Question[];
   currentQuestionIndex?: number;
-  timerDuration?: number;
-  timerRunning?: boolean;
-  timerRemaining?: number;
+  media?: MediaRef;
+  optionMedia?: (MediaRef | null)[];
 }
 
 interface GameState {
   contestants: Contestant[];
+  teams?: Team[];
+  teamBuzzLockout?: boolean;
+  questionCount?: number;
   buzzOrder?: string[];
+  buzzerState?: BuzzerState;
+  incorrectBuzzes?: string[];
+  activeBuzzer?: string | null;
   gameType?: GameType;
   gameConfig?: GameConfig;
+  timers?: NamedTimer[];
+  serverTime?: number;
   answers?: Record<string, string>;
   revealAnswers?: boolean;
+  answersLocked?: boolean;
+  firstAnswerFinal?: boolean;
   correctAnswer?: string;
+  wagerRound?: WagerRoundView;
+  answerJudgements?: Record<string, boolean>;
+  board?: Board;
+  mediaPlayback?: MediaPlayback;
+  preloadMedia?: MediaRef[];
+  numericResults?: { contestantId: string; guess: number | null; distance: number | null; place: number | null; points: number }[] | null;
 }
 
-const ContestantView: React.FC<{ contestantId: string }> = ({ contestantId }) => {
+interface ContestantViewProps {
+  roomId: string;
+  contestantId: string;
+  contestantKey: string;
+  timerId?: string; // which of the room's timers to show, by id or name; the main one otherwise
+}
+
+const ContestantView: React.FC<ContestantViewProps> = ({ roomId, contestantId, contestantKey, timerId }) => {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [gameState, setGameState] = useState<GameState>({ contestants: [] });
   const [contestant, setContestant] = useState<Contestant | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [correctAnswer, setCorrectAnswer] = useState<string | null>(null);
+  const [wagerInput, setWagerInput] = useState('');
+  const [myWager, setMyWager] = useState<number | null>(null);
+  const [wagerError, setWagerError] = useState<string | null>(null);
+  const [answerInput, setAnswerInput] = useState('');
+  const [submittedAnswer, setSubmittedAnswer] = useState<string | null>(null);
 
   useEffect(() => {
     const newSocket = io(config.websocketUrl, {
@@ -53,8 +95,19 @@ const ContestantView: React.FC<{ contestantId: string }> = ({ contestantId }) =>
       reconnectionDelay: 1000
     });
     setSocket(newSocket);
+    enableClockSync(newSocket);
+
+    // Join (and re-join after a reconnect) with the secret from the contestant link
+    let joinRejected = false;
+    newSocket.on('connect', () => {
+      newSocket.emit('join', { roomId, contestantId, key: contestantKey });
+    });
 
-    newSocket.emit('join', contestantId);
+    newSocket.on('joinError', (data: { message: string }) => {
+      joinRejected = true;
+      setError(data.message);
+      setContestant(null);
+    });
 
     // Handle network disconnect
     const handleOffline = () => {
@@ -66,7 +119,11 @@ const ContestantView: React.FC<{ contestantId: string }> = ({ contestantId }) =>
 
     window.addEventListener('offline', handleOffline);
 
-    newSocket.on('gameState', (state: GameState) => {
+    subscribeToGameState<GameState>(newSocket, (state) => {
+      if (joinRejected) return;
+      if (state.serverTime) {
+        recordServerTime(state.serverTime);
+      }
       setGameState(state);
       const currentContestant = state.contestants.find(c => c.id === contestantId);
       if (currentContestant) {
@@ -87,7 +144,7 @@ const ContestantView: React.FC<{ contestantId: string }> = ({ contestantId }) =>
       window.removeEventListener('offline', handleOffline);
       newSocket.close();
     };
-  }, [contestantId]);
+  }, [roomId, contestantId, contestantKey]);
 
   // Helper for buzz order
   const getBuzzOrder = (id: string) => {
@@ -98,29 +155,54 @@ const ContestantView: React.FC<{ contestantId: string }> = ({ contestantId }) =>
 
   // Handle buzzer
   const handleBuzz = () => {
-    if (socket && contestant && !contestant.buzzed) {
+    if (socket && contestant && !contestant.buzzed && !isLockedOut) {
       // Send buzz with client timestamp for accurate timing analysis
       socket.emit('buzz', { 
-        contestantId, 
         clientTimestamp: Date.now() 
       });
     }
   };
 
+  // Chess clock: hand the clock on at the end of our turn
+  const handlePassTurn = () => {
+    if (socket) {
+      socket.emit('passTurn');
+    }
+  };
+
   // Handle answer/choice
   const handleAnswer = (answer: string) => {
-    if (socket && !gameState.revealAnswers) {
-      socket.emit('submitAnswer', { contestantId, answer });
+    if (socket && !gameState.revealAnswers && !gameState.answersLocked && !(gameState.firstAnswerFinal && lockedAnswer)) {
+      socket.emit('submitAnswer', { answer });
     }
   };
 
-  const formatTime = (seconds: number | undefined): string => {
-    if (seconds === undefined) return '00:00';
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  // Wagers are private, so the server confirms ours directly instead of broadcasting it
+  const handleSubmitWager = () => {
+    if (!socket) return;
+    socket.emit('submitWager', { amount: Number(wagerInput) }, (result: { success: boolean; wager?: number; error?: string }) => {
+      if (result.success && result.wager !== undefined) {
+        setMyWager(result.wager);
+        setWagerError(null);
+      } else {
+        setWagerError(result.error || 'Wager rejected');
+      }
+    });
+  };
+
+  const handleSubmitTextAnswer = () => {
+    if (socket && answerInput.trim() && !(gameState.firstAnswerFinal && submittedAnswer)) {
+      socket.emit('submitAnswer', { answer: answerInput.trim() });
+      setSubmittedAnswer(answerInput.trim());
+    }
   };
 
+  // Counts locally from the server's start or end time; the server only sends state changes
+  const timer = pickTimer(gameState.timers, timerId);
+  const timerDisplayMs = useTimerDisplayMs(timer);
+  const isLockedOut = useIsLockedOut(contestant?.lockedOutUntil);
+  usePreloadMedia(gameState.preloadMedia);
+
   // Use gameType from backend as source of truth
   const currentGameType = gameState.gameType;
   const gameTypeLabel =
@@ -128,12 +210,34 @@ const ContestantView: React.FC<{ contestantId: string }> = ({ contestantId }) =>
     : currentGameType === 'multiple-choice' ? 'Multiple Choice'
     : currentGameType === 'two-option' ? 'Two Option'
     : currentGameType === 'timer-only' ? 'Timer Only'
+    : currentGameType === 'wager' ? 'Wager Round'
+    : currentGameType === 'free-text' ? 'Free Text'
+    : currentGameType === 'numeric' ? 'Closest Number'
+    : currentGameType === 'board' ? 'Category Board'
     : '';
 
+  // A new free-text question starts with an empty box
+  const freeTextQuestion = currentGameType === 'free-text' || currentGameType === 'numeric' ? gameState.gameConfig?.question : undefined;
+  useEffect(() => {
+    setSubmittedAnswer(null);
+    setAnswerInput('');
+  }, [freeTextQuestion]);
+
+  // A new wager round starts with nothing locked in
+  const wagerPhase = gameState.wagerRound?.phase;
+  const wagerSubmitted = !!gameState.wagerRound?.submitted.includes(contestantId);
+  useEffect(() => {
+    if (wagerPhase === 'wagering' && !wagerSubmitted) {
+      setMyWager(null);
+      setSubmittedAnswer(null);
+      setAnswerInput('');
+    }
+  }, [wagerPhase, wagerSubmitted]);
+
   // Clear locked answer when switching modes
   useEffect(() => {
     if (socket && gameState.answers && gameState.answers[contestantId]) {
-      socket.emit('submitAnswer', { contestantId, answer: '' });
+      socket.emit('submitAnswer', { answer: '' });
     }
   }, [currentGameType]);
 
@@ -181,15 +285,27 @@ const ContestantView: React.FC<{ contestantId: string }> = ({ contestantId }) =>
 
   // Multiple choice/two-option answers display (when revealed)
   const showAnswers = (currentGameType === 'multiple-choice' || currentGameType === 'two-option') && gameState.revealAnswers;
+  // With team lockout on, a teammate's buzz uses up the team's buzz
+  const teammateBuzzed = !!gameState.teamBuzzLockout && !!contestant.teamId && !!gameState.buzzOrder?.some(id =>
+    id !== contestant.id && gameState.contestants.find(c => c.id === id)?.teamId === contestant.teamId
+  );
+  // A board cell in play runs on the buzzers
+  const activeBoardCell = currentGameType === 'board' ? getBoardCell(gameState.board, gameState.board?.activeCell) : undefined;
+  const activeBoardCategory = activeBoardCell ? gameState.board?.categories[gameState.board.activeCell?.category ?? -1]?.name : undefined;
+  const buzzerMode = currentGameType === 'buzzer' || !!activeBoardCell;
+  const scoreboardColumns = 3 + (buzzerMode ? 1 : 0) + (showAnswers ? 1 : 0);
   const isMC = currentGameType === 'multiple-choice';
+  const myChessTurn = timer?.mode === 'chess-clock' && timer.running && timer.activeContestantId === contestantId;
   const lockedAnswer = gameState.answers ? gameState.answers[contestantId] : null;
+  const myNumericResult = gameState.numericResults?.find(r => r.contestantId === contestantId);
 
   if (currentGameType === 'timer-only') {
     return (
       <TimerOnly
-        timerRemaining={gameState.gameConfig?.timerRemaining}
-        timerRunning={gameState.gameConfig?.timerRunning}
-        timerDuration={gameState.gameConfig?.timerDuration}
+        timer={timer}
+        contestants={gameState.contestants}
+        contestantId={contestantId}
+        onPassTurn={handlePassTurn}
       />
     );
   }
@@ -215,37 +331,34 @@ const ContestantView: React.FC<{ contestantId: string }> = ({ contestantId }) =>
       </Typography>
 
       {/* Timer Display */}
-      {(() => {
-        // Show timerDuration when timer is not running, otherwise show timerRemaining
-        const displayTime = gameState.gameConfig?.timerRunning 
-          ? gameState.gameConfig.timerRemaining 
-          : gameState.gameConfig?.timerDuration;
-        
-        if (displayTime !== undefined) {
-          return (
-            <Typography
-              variant="h2"
-              sx={{
-                mb: 2,
-                color: gameState.gameConfig?.timerRunning 
-                  ? 'primary.main' 
-                  : displayTime === 0 
-                    ? 'error.main' 
-                    : 'text.secondary',
-                transition: 'color 0.3s ease',
-              }}
-            >
-              {formatTime(displayTime)}
-            </Typography>
-          );
-        }
-        return null;
-      })()}
+      {timerDisplayMs !== undefined && (
+        <Typography
+          variant="h2"
+          sx={{
+            mb: 2,
+            fontFamily: 'monospace, monospace',
+            color: timer?.running 
+              ? 'primary.main' 
+              : isTimerExpired(timer) 
+                ? 'error.main' 
+                : 'text.secondary',
+            transition: 'color 0.3s ease',
+          }}
+        >
+          {formatTimerMs(timerDisplayMs, timer?.mode !== 'stopwatch')}
+        </Typography>
+      )}
+      <TimerBreakdown timer={timer} contestants={gameState.contestants} highlightId={contestantId} />
+      {myChessTurn && (
+        <Button variant="contained" size="large" onClick={handlePassTurn} sx={{ mt: 2, mb: 2, minHeight: 48 }}>
+          Done: Pass the Clock
+        </Button>
+      )}
 
       {/* Question Progress */}
-      {currentGameType === 'multiple-choice' && gameState.gameConfig?.questions && (
+      {currentGameType === 'multiple-choice' && !!gameState.questionCount && (
         <Typography variant="h6" sx={{ mb: 2 }}>
-          Question {gameState.gameConfig.currentQuestionIndex! + 1} of {gameState.gameConfig.questions.length}
+          Question {(gameState.gameConfig?.currentQuestionIndex ?? 0) + 1} of {gameState.questionCount}
         </Typography>
       )}
 
@@ -257,67 +370,99 @@ const ContestantView: React.FC<{ contestantId: string }> = ({ contestantId }) =>
               <TableCell align="left"><b>Contestant</b></TableCell>
               <TableCell align="center"><b>Score</b></TableCell>
               <TableCell align="center"><b>Status</b></TableCell>
-              {currentGameType === 'buzzer' && <TableCell align="center" sx={{ minWidth: 120 }}><b>Buzz Order</b></TableCell>}
+              {buzzerMode && <TableCell align="center" sx={{ minWidth: 120 }}><b>Buzz Order</b></TableCell>}
               {showAnswers && <TableCell align="center"><b>Answer</b></TableCell>}
             </TableRow>
           </TableHead>
           <TableBody>
-            {gameState.contestants.map(c => (
-              <TableRow key={c.id} selected={c.id === contestantId}>
-                <TableCell align="left">{c.name}</TableCell>
-                <TableCell align="center">{c.score}</TableCell>
-                <TableCell align="center">
-                  {currentGameType === 'buzzer' ? (
-                    c.buzzed ? 'Buzzed' : 'Ready'
-                  ) : (
-                    gameState.answers && gameState.answers[c.id] ? 'Locked In' : 'Ready'
-                  )}
-                </TableCell>
-                {currentGameType === 'buzzer' && (
-                  <TableCell align="center">
-                    <Box sx={{ minHeight: 32, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
-                      {getBuzzOrder(c.id) ? (
-                        <Chip label={getBuzzOrder(c.id)} color={getBuzzOrder(c.id) === 1 ? 'primary' : 'default'} />
-                      ) : null}
-                    </Box>
-                  </TableCell>
+            {groupByTeam(gameState.contestants, gameState.teams).map(group => (
+              <React.Fragment key={group.team?.id ?? 'no-team'}>
+                {group.team && (
+                  <TableRow>
+                    <TableCell colSpan={scoreboardColumns} sx={{ fontWeight: 700, bgcolor: 'action.hover' }}>
+                      {group.team.name}: {group.team.score}
+                    </TableCell>
+                  </TableRow>
                 )}
-                {showAnswers && (
-                  <TableCell align="center">
-                    {gameState.answers && gameState.answers[c.id] ? (
-                      <Chip
-                        label={gameState.answers[c.id]}
-                        color={
-                          isMC && correctAnswer && gameState.answers[c.id] === correctAnswer
-                            ? 'success'
-                            : isMC && correctAnswer && c.id === contestantId && lockedAnswer && lockedAnswer !== correctAnswer
-                            ? 'error'
-                            : c.id === contestantId
-                            ? 'primary'
-                            : 'default'
-                        }
-                      />
-                    ) : ''}
-                  </TableCell>
-                )}
-              </TableRow>
+                {group.members.map(c => (
+                  <TableRow key={c.id} selected={c.id === contestantId}>
+                    <TableCell align="left">{c.name}</TableCell>
+                    <TableCell align="center">{c.score}</TableCell>
+                    <TableCell align="center">
+                      {buzzerMode ? (
+                        c.buzzed ? 'Buzzed' : 'Ready'
+                      ) : (
+                        gameState.answers && gameState.answers[c.id] ? 'Locked In' : 'Ready'
+                      )}
+                    </TableCell>
+                    {buzzerMode && (
+                      <TableCell align="center">
+                        <Box sx={{ minHeight: 32, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                          {getBuzzOrder(c.id) ? (
+                            <Chip label={getBuzzOrder(c.id)} color={getBuzzOrder(c.id) === 1 ? 'primary' : 'default'} />
+                          ) : null}
+                        </Box>
+                      </TableCell>
+                    )}
+                    {showAnswers && (
+                      <TableCell align="center">
+                        {gameState.answers && gameState.answers[c.id] ? (
+                          <Chip
+                            label={gameState.answers[c.id]}
+                            color={
+                              isMC && correctAnswer && gameState.answers[c.id] === correctAnswer
+                                ? 'success'
+                                : isMC && correctAnswer && c.id === contestantId && lockedAnswer && lockedAnswer !== correctAnswer
+                                ? 'error'
+                                : c.id === contestantId
+                                ? 'primary'
+                                : 'default'
+                            }
+                          />
+                        ) : ''}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </React.Fragment>
             ))}
           </TableBody>
         </Table>
       </TableContainer>
 
       {/* Game type UI */}
-      {currentGameType === 'buzzer' && (
+      {currentGameType === 'board' && !activeBoardCell && gameState.board && (
+        <Paper elevation={3} sx={{ p: 3, width: '100%', maxWidth: 900 }}>
+          <BoardGrid board={gameState.board} />
+        </Paper>
+      )}
+
+      {buzzerMode && (
         <Paper elevation={3} sx={{ p: 4, width: '100%', maxWidth: 600, textAlign: 'center' }}>
           <Typography variant="h2" color="primary" gutterBottom>
             Score: {contestant.score}
           </Typography>
+          {activeBoardCell && (
+            <>
+              <Typography variant="overline" color="text.secondary">
+                {activeBoardCategory} for {activeBoardCell.value}
+              </Typography>
+              {gameState.gameConfig?.question && (
+                <Typography variant="h5" sx={{ fontWeight: 500 }}>
+                  {gameState.gameConfig.question}
+                </Typography>
+              )}
+              {gameState.gameConfig?.media && (
+                <QuestionMedia media={gameState.gameConfig.media} playback={gameState.mediaPlayback} />
+              )}
+            </>
+          )}
           <Button
             variant="contained"
-            color={contestant.buzzed ? "secondary" : "primary"}
+            color={isLockedOut ? "error" : contestant.buzzed ? "secondary" : "primary"}
             size="large"
             onClick={handleBuzz}
-            disabled={contestant.buzzed}
+            disabled={contestant.buzzed || isLockedOut || teammateBuzzed || gameState.buzzerState === 'closed'}
             sx={{
               width: '200px',
               height: '200px',
@@ -327,91 +472,157 @@ const ContestantView: React.FC<{ contestantId: string }> = ({ contestantId }) =>
               mt: 4
             }}
           >
-            {contestant.buzzed ? 'BUZZED!' : 'BUZZ IN'}
+            {isLockedOut ? 'LOCKED' : contestant.buzzed ? 'BUZZED!' : 'BUZZ IN'}
           </Button>
           <Typography variant="body1" sx={{ mt: 2 }}>
-            {contestant.buzzed ? 'You buzzed in!' : 'Ready to buzz in!'}
+            {gameState.incorrectBuzzes?.includes(contestant.id) ? 'Incorrect. You\'re locked out for this question.'
+              : gameState.activeBuzzer === contestant.id ? 'You\'re up! Give your answer.'
+              : contestant.buzzed ? 'You buzzed in!'
+              : teammateBuzzed ? 'A teammate buzzed in for your team.'
+              : isLockedOut ? 'Too early! Wait for the buzzers to open.'
+              : gameState.buzzerState === 'closed' ? 'Buzzers are closed.'
+              : gameState.buzzerState === 'armed' ? 'Wait for the host to open the buzzers...'
+              : 'Ready to buzz in!'}
           </Typography>
         </Paper>
       )}
 
-      {(currentGameType === 'multiple-choice' || currentGameType === 'two-option') && (
+      {currentGameType === 'wager' && gameState.wagerRound && (
         <Paper elevation={3} sx={{ p: 4, width: '100%', maxWidth: 600, textAlign: 'center' }}>
-          {currentGameType === 'multiple-choice' && gameState.gameConfig?.question && (
+          <Typography variant="h2" color="primary" gutterBottom>
+            Score: {contestant.score}
+          </Typography>
+          {gameState.wagerRound.phase === 'wagering' && (
+            <>
+              <Typography variant="h6" gutterBottom>
+                Place your wager (0 to {Math.max(0, contestant.score)})
+              </Typography>
+              <Stack direction="row" spacing={2} justifyContent="center" sx={{ mt: 2 }}>
+                <TextField
+                  type="number"
+                  label="Wager"
+                  value={wagerInput}
+                  onChange={(e) => setWagerInput(e.target.value)}
+                  slotProps={{ htmlInput: { min: 0, max: Math.max(0, contestant.score) } }}
+                />
+                <Button variant="contained" onClick={handleSubmitWager} disabled={wagerInput === ''}>
+                  {myWager !== null ? 'Change Wager' : 'Lock In'}
+                </Button>
+              </Stack>
+              {wagerError && (
+                <Typography color="error" sx={{ mt: 2 }}>{wagerError}</Typography>
+              )}
+            </>
+          )}
+          {myWager !== null && (
+            <Typography variant="body1" sx={{ mt: 2 }}>
+              Your wager: {myWager} (only the host can see it)
+            </Typography>
+          )}
+          {gameState.wagerRound.phase !== 'wagering' && gameState.gameConfig?.question && (
+            <Typography variant="h5" sx={{ mt: 3, mb: 2, fontWeight: 500 }}>
+              {gameState.gameConfig.question}
+            </Typography>
+          )}
+          {gameState.wagerRound.phase === 'answering' && (
+            <Stack direction="row" spacing={2} justifyContent="center" sx={{ mt: 2 }}>
+              <TextField
+                label="Your answer"
+                value={answerInput}
+                onChange={(e) => setAnswerInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    handleSubmitTextAnswer();
+                  }
+                }}
+                fullWidth
+              />
+              <Button variant="contained" onClick={handleSubmitTextAnswer} disabled={!answerInput.trim()}>
+                Submit
+              </Button>
+            </Stack>
+          )}
+          {submittedAnswer && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              Answer locked in: {submittedAnswer}
+            </Typography>
+          )}
+          {gameState.wagerRound.revealed.includes(contestantId) && (
+            <Typography variant="h6" sx={{ mt: 3 }} color={gameState.wagerRound.results[contestantId] ? 'success.main' : 'error.main'}>
+              {gameState.wagerRound.results[contestantId] ? 'Correct! ' : 'Incorrect. '}
+              {gameState.wagerRound.results[contestantId] ? '+' : '-'}{gameState.wagerRound.wagers[contestantId]}
+            </Typography>
+          )}
+        </Paper>
+      )}
+
+      {(currentGameType === 'free-text' || currentGameType === 'numeric') && (
+        <Paper elevation={3} sx={{ p: 4, width: '100%', maxWidth: 600, textAlign: 'center' }}>
+          {gameState.gameConfig?.question && (
             <Typography variant="h5" gutterBottom sx={{ mb: 3, fontWeight: 500 }}>
               {gameState.gameConfig.question}
             </Typography>
           )}
-          <Stack direction="column" spacing={2} sx={{ width: '100%', maxWidth: 500, mx: 'auto' }}>
-            {gameState.gameConfig?.options?.map((opt, idx) => {
-              const isCorrect = currentGameType === 'multiple-choice' && gameState.revealAnswers && opt === gameState.correctAnswer;
-              const isIncorrect = currentGameType === 'multiple-choice' && gameState.revealAnswers && lockedAnswer === opt && opt !== gameState.correctAnswer;
-              const isSelected = lockedAnswer === opt;
-              
-              return (
-                <Button
-                  key={opt}
-                  variant={isSelected ? 'contained' : 'outlined'}
-                  color={
-                    isCorrect ? 'success' :
-                    isIncorrect ? 'error' :
-                    isSelected ? 'primary' : 'inherit'
+          {gameState.answersLocked && !gameState.revealAnswers ? (
+            <Typography variant="h6" color="text.secondary">
+              Answers are locked.
+            </Typography>
+          ) : gameState.firstAnswerFinal && submittedAnswer && !gameState.revealAnswers ? null : !gameState.revealAnswers ? (
+            <Stack direction="row" spacing={2} justifyContent="center">
+              <TextField
+                type={currentGameType === 'numeric' ? 'number' : 'text'}
+                label={currentGameType === 'numeric' ? 'Your guess' : 'Your answer'}
+                value={answerInput}
+                onChange={(e) => setAnswerInput(e.target.value)}
+                helperText={gameState.firstAnswerFinal ? 'Your first answer is final.' : undefined}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    handleSubmitTextAnswer();
                   }
-                  onClick={() => handleAnswer(opt)}
-                  disabled={gameState.revealAnswers}
-                  sx={{
-                    width: '100%',
-                    py: 2,
-                    px: 3,
-                    justifyContent: 'flex-start',
-                    textTransform: 'none',
-                    fontSize: '1.1rem',
-                    fontWeight: 500,
-                    textAlign: 'left',
-                    whiteSpace: 'normal',
-                    height: 'auto',
-                    borderWidth: isCorrect || isIncorrect ? 2 : 1,
-                    '&:hover': {
-                      borderWidth: isCorrect || isIncorrect ? 2 : 1,
-                    }
-                  }}
-                >
-                  <Typography sx={{ fontWeight: 600, mr: 2 }}>
-                    {currentGameType === 'multiple-choice' ? 
-                      `${String.fromCharCode(65 + idx)})` : 
-                      `${idx + 1})`}
-                  </Typography>
-                  {opt}
-                  {isCorrect && (
-                    <Typography sx={{ ml: 2, color: 'success.main', fontWeight: 600 }}>
-                      ✓ Correct
-                    </Typography>
-                  )}
-                  {isIncorrect && (
-                    <Typography sx={{ ml: 2, color: 'error.main', fontWeight: 600 }}>
-                      ✗ Incorrect
-                    </Typography>
-                  )}
-                </Button>
-              );
-            })}
-          </Stack>
-          {showAnswers && (
-            <Typography variant="body2" color="secondary" sx={{ mt: 3 }}>
-              {currentGameType === 'multiple-choice' ? 
-                (lockedAnswer === gameState.correctAnswer ? 
-                  'Correct! Your score has been updated.' : 
-                  'Answers revealed!') :
-                'Answers revealed!'}
+                }}
+                fullWidth
+              />
+              <Button variant="contained" onClick={handleSubmitTextAnswer} disabled={!answerInput.trim()}>
+                Submit
+              </Button>
+            </Stack>
+          ) : currentGameType === 'numeric' ? (
+            <Typography variant="h6">
+              {myNumericResult?.place ? `You placed #${myNumericResult.place} (off by ${myNumericResult.distance}), +${myNumericResult.points}` : 'No placing this time.'}
+              {gameState.correctAnswer && ` The answer was: ${gameState.correctAnswer}`}
+            </Typography>
+          ) : (
+            <Typography variant="h6" color={gameState.answerJudgements?.[contestantId] ? 'success.main' : 'text.secondary'}>
+              {gameState.answerJudgements?.[contestantId] ? 'Correct! Your score has been updated.'
+                : gameState.answers?.[contestantId] ? 'Not accepted this time.'
+                : 'Answers revealed!'}
+              {gameState.correctAnswer && ` The answer was: ${gameState.correctAnswer}`}
             </Typography>
           )}
-          {!gameState.revealAnswers && (
-            <Typography variant="body2" color="text.secondary" sx={{ mt: 3 }}>
-              Choose your answer. You can change it until answers are revealed.
+          {submittedAnswer && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              Answer locked in: {submittedAnswer}
             </Typography>
           )}
         </Paper>
       )}
+
+      {(currentGameType === 'multiple-choice' || currentGameType === 'two-option') && (
+        <QuestionCard
+          gameType={currentGameType}
+          question={gameState.gameConfig?.question}
+          options={gameState.gameConfig?.options || []}
+          correctAnswer={gameState.correctAnswer}
+          revealAnswers={!!gameState.revealAnswers}
+          answersLocked={!!gameState.answersLocked}
+          firstAnswerFinal={!!gameState.firstAnswerFinal}
+          lockedAnswer={lockedAnswer}
+          onAnswer={handleAnswer}
+          media={gameState.gameConfig?.media}
+          optionMedia={gameState.gameConfig?.optionMedia}
+          playback={gameState.mediaPlayback}
+        />
+      )}
     </Box>
   );
 };
@@ -0,0 +1,137 @@
+import React from 'react';
+import {
+  Button,
+  Chip,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+
+interface FreeTextPanelProps {
+  contestants: { id: string; name: string; score: number }[];
+  answers: Record<string, string>;
+  suggestions: Record<string, boolean>;
+  judgements: Record<string, boolean>;
+  question: string;
+  correctAnswer: string | null;
+  revealAnswers: boolean;
+  onQuestionChange: (question: string) => void;
+  onCorrectAnswerChange: (answer: string) => void;
+  onJudge: (contestantId: string, accepted: boolean) => void;
+  onReveal: () => void;
+}
+
+// Host side of a free-text question. The server suggests a match (ignoring case, punctuation and
+// small typos); the host's accept/reject wins, and anything left unjudged uses the suggestion on reveal.
+const FreeTextPanel: React.FC<FreeTextPanelProps> = ({
+  contestants,
+  answers,
+  suggestions,
+  judgements,
+  question,
+  correctAnswer,
+  revealAnswers,
+  onQuestionChange,
+  onCorrectAnswerChange,
+  onJudge,
+  onReveal,
+}) => {
+  return (
+    <Paper elevation={3} sx={{ mb: 3, p: 2, bgcolor: 'background.paper' }}>
+      <Typography variant="h6" sx={{ mb: 2, fontWeight: 700 }}>
+        Free Text
+      </Typography>
+      <TextField
+        label="Question"
+        value={question}
+        onChange={(e) => onQuestionChange(e.target.value)}
+        fullWidth
+        sx={{ mb: 2 }}
+      />
+      <TextField
+        label="Correct Answer (host only)"
+        key={correctAnswer ?? ''}
+        defaultValue={correctAnswer ?? ''}
+        onBlur={(e) => onCorrectAnswerChange(e.target.value)}
+        fullWidth
+        sx={{ mb: 2 }}
+      />
+      <Table size="small" sx={{ mb: 2 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell>Contestant</TableCell>
+            <TableCell align="center">Answer</TableCell>
+            <TableCell align="center">Suggested</TableCell>
+            <TableCell align="center">Decision</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {contestants.map(c => {
+            const answer = answers[c.id];
+            const judgement = judgements[c.id];
+            return (
+              <TableRow key={c.id}>
+                <TableCell>{c.name}</TableCell>
+                <TableCell align="center">
+                  {answer || <Typography variant="body2" color="text.secondary">—</Typography>}
+                </TableCell>
+                <TableCell align="center">
+                  {answer !== undefined && (
+                    <Chip
+                      label={suggestions[c.id] ? 'Match' : 'No match'}
+                      color={suggestions[c.id] ? 'success' : 'default'}
+                      variant="outlined"
+                      size="small"
+                    />
+                  )}
+                </TableCell>
+                <TableCell align="center">
+                  {answer !== undefined && (
+                    <Stack direction="row" spacing={1} justifyContent="center">
+                      <Button
+                        size="small"
+                        variant={judgement === true ? 'contained' : 'outlined'}
+                        color="success"
+                        onClick={() => onJudge(c.id, true)}
+                        disabled={revealAnswers}
+                      >
+                        Accept
+                      </Button>
+                      <Button
+                        size="small"
+                        variant={judgement === false ? 'contained' : 'outlined'}
+                        color="error"
+                        onClick={() => onJudge(c.id, false)}
+                        disabled={revealAnswers}
+                      >
+                        Reject
+                      </Button>
+                    </Stack>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+      <Button
+        variant="contained"
+        color="primary"
+        onClick={onReveal}
+        disabled={revealAnswers}
+        sx={{ fontSize: '1.1rem', fontWeight: 700, minHeight: 48 }}
+        fullWidth
+      >
+        Reveal Answers
+      </Button>
+    </Paper>
+  );
+};
+
+export default FreeTextPanel;
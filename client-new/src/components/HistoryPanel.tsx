@@ -0,0 +1,75 @@
+import React from 'react';
+import { Button, List, ListItem, ListItemText, Paper, Stack, Typography } from '@mui/material';
+import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
+
+export interface HistoryStep {
+  id: number;
+  description: string;
+  timestamp: number;
+}
+
+export interface HistorySummary {
+  undo: HistoryStep[]; // most recent first
+  redo: HistoryStep[]; // next redo first
+}
+
+interface HistoryPanelProps {
+  history: HistorySummary;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// Host actions the server can roll back. Undoing only reverts what that step changed,
+// so buzzes and answers that came in afterwards stay put
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo }) => {
+  const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="h6" sx={{ fontWeight: 700, flexGrow: 1 }}>
+          History
+        </Typography>
+        <Button
+          variant="outlined"
+          startIcon={<UndoIcon />}
+          onClick={onUndo}
+          disabled={history.undo.length === 0}
+          sx={{ minHeight: 36 }}
+        >
+          Undo{history.undo[0] ? `: ${history.undo[0].description}` : ''}
+        </Button>
+        <Button
+          variant="outlined"
+          startIcon={<RedoIcon />}
+          onClick={onRedo}
+          disabled={history.redo.length === 0}
+          sx={{ minHeight: 36 }}
+        >
+          Redo{history.redo[0] ? `: ${history.redo[0].description}` : ''}
+        </Button>
+      </Stack>
+      {history.undo.length === 0 && history.redo.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Nothing to undo yet.
+        </Typography>
+      ) : (
+        <List dense sx={{ maxHeight: 240, overflowY: 'auto', p: 0 }}>
+          {[...history.redo].reverse().map(step => (
+            <ListItem key={step.id} sx={{ opacity: 0.5 }}>
+              <ListItemText primary={step.description} secondary={`Undone · ${formatTime(step.timestamp)}`} />
+            </ListItem>
+          ))}
+          {history.undo.map(step => (
+            <ListItem key={step.id}>
+              <ListItemText primary={step.description} secondary={formatTime(step.timestamp)} />
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Paper>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Stack, Typography } from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import PauseIcon from '@mui/icons-material/Pause';
+import StopIcon from '@mui/icons-material/Stop';
+import { getPlaybackPosition, MediaPlayback, MediaRef } from '../utils/media';
+
+interface MediaControlsProps {
+  media: MediaRef;
+  playback?: MediaPlayback;
+  onPlay: () => void;
+  onPause: () => void;
+  onStop: () => void;
+}
+
+const formatPosition = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+// Host playback for the clip on screen; contestant screens and overlays follow along
+const MediaControls: React.FC<MediaControlsProps> = ({ media, playback, onPlay, onPause, onStop }) => {
+  const active = !!playback && playback.mediaId === media.id;
+  const playing = active && !!playback?.playing;
+  const [position, setPosition] = useState(0);
+
+  useEffect(() => {
+    if (!playback || !active) {
+      setPosition(0);
+      return;
+    }
+    setPosition(getPlaybackPosition(playback));
+    if (!playing) return;
+    const interval = setInterval(() => setPosition(getPlaybackPosition(playback)), 250);
+    return () => clearInterval(interval);
+  }, [playback, active, playing]);
+
+  if (media.kind === 'image') return null;
+
+  return (
+    <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+      <Typography sx={{ fontWeight: 600, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+        {media.name || (media.kind === 'audio' ? 'Audio clip' : 'Video')}
+      </Typography>
+      <Typography sx={{ fontFamily: 'monospace, monospace' }} color={playing ? 'primary' : 'text.secondary'}>
+        {formatPosition(position)}
+      </Typography>
+      {playing ? (
+        <Button variant="contained" startIcon={<PauseIcon />} onClick={onPause} sx={{ minHeight: 36 }}>
+          Pause
+        </Button>
+      ) : (
+        <Button variant="contained" color="success" startIcon={<PlayArrowIcon />} onClick={onPlay} sx={{ minHeight: 36 }}>
+          {active && position > 0 ? 'Resume' : 'Play'}
+        </Button>
+      )}
+      <Button variant="outlined" startIcon={<StopIcon />} onClick={onStop} disabled={!active} sx={{ minHeight: 36 }}>
+        Stop
+      </Button>
+    </Stack>
+  );
+};
+
+export default MediaControls;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Button, FormControl, IconButton, InputLabel, MenuItem, Select, Stack, Tooltip } from '@mui/material';
+import ClearIcon from '@mui/icons-material/Clear';
+import UploadIcon from '@mui/icons-material/Upload';
+import { MediaAsset, MediaKind, MediaRef } from '../utils/media';
+
+interface MediaPickerProps {
+  label: string;
+  value?: MediaRef | null;
+  kinds: MediaKind[];
+  assets: MediaAsset[];
+  onChange: (media: MediaRef | null) => void;
+  onUpload: (file: File) => Promise<MediaAsset | null>;
+  size?: 'small' | 'medium';
+}
+
+const ACCEPT: Record<MediaKind, string> = {
+  image: 'image/png,image/jpeg,image/gif,image/webp',
+  audio: 'audio/mpeg,audio/mp4,audio/aac,audio/ogg,audio/wav',
+  video: 'video/mp4,video/webm,video/ogg',
+};
+
+const toRef = ({ id, kind, name }: MediaAsset): MediaRef => ({ id, kind, name });
+
+// Pick an uploaded file from the library or upload a new one
+const MediaPicker: React.FC<MediaPickerProps> = ({ label, value, kinds, assets, onChange, onUpload, size = 'small' }) => {
+  const choices = assets.filter(asset => kinds.includes(asset.kind));
+  // A file that has since been deleted still shows, so the host can see what to replace
+  const missing = value && !choices.some(asset => asset.id === value.id);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const asset = await onUpload(file);
+    if (asset) onChange(toRef(asset));
+  };
+
+  return (
+    <Stack direction="row" spacing={1} alignItems="center" sx={{ minWidth: 0 }}>
+      <FormControl size={size} sx={{ minWidth: 200, flexGrow: 1 }}>
+        <InputLabel>{label}</InputLabel>
+        <Select
+          value={value?.id ?? ''}
+          label={label}
+          onChange={(e) => {
+            const asset = choices.find(a => a.id === e.target.value);
+            onChange(asset ? toRef(asset) : null);
+          }}
+        >
+          <MenuItem value="">None</MenuItem>
+          {missing && <MenuItem value={value.id}>{value.name || value.id} (missing)</MenuItem>}
+          {choices.map(asset => (
+            <MenuItem key={asset.id} value={asset.id}>
+              {asset.name} ({asset.kind})
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <Tooltip title="Upload a file">
+        <Button component="label" variant="outlined" sx={{ minHeight: 36, minWidth: 0 }}>
+          <UploadIcon fontSize="small" />
+          <input hidden type="file" accept={kinds.map(kind => ACCEPT[kind]).join(',')} onChange={handleFile} />
+        </Button>
+      </Tooltip>
+      <IconButton size="small" onClick={() => onChange(null)} disabled={!value}>
+        <ClearIcon fontSize="small" />
+      </IconButton>
+    </Stack>
+  );
+};
+
+export default MediaPicker;
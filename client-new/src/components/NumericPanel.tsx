@@ -0,0 +1,172 @@
+import React from 'react';
+import {
+  Button,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { ScoringRules } from './ScoringRulesPanel';
+import { formatTimerMs } from '../utils/timer';
+
+export interface NumericResult {
+  contestantId: string;
+  guess: number | null;
+  distance: number | null;
+  over: boolean;
+  place: number | null;
+  points: number;
+}
+
+interface NumericPanelProps {
+  contestants: { id: string; name: string; score: number }[];
+  answers: Record<string, string>;
+  latencies: Record<string, number>; // ms from the question going out to each final answer
+  results: NumericResult[] | null;
+  rules: ScoringRules;
+  question: string;
+  correctAnswer: string | null;
+  revealAnswers: boolean;
+  onQuestionChange: (question: string) => void;
+  onCorrectAnswerChange: (answer: string) => void;
+  onRulesChange: (rules: Partial<ScoringRules>) => void;
+  onReveal: () => void;
+}
+
+// Host side of a closest-number question. Guesses stay hidden from contestants and overlays
+// until the reveal, when the server ranks them and awards the placement points.
+const NumericPanel: React.FC<NumericPanelProps> = ({
+  contestants,
+  answers,
+  latencies,
+  results,
+  rules,
+  question,
+  correctAnswer,
+  revealAnswers,
+  onQuestionChange,
+  onCorrectAnswerChange,
+  onRulesChange,
+  onReveal,
+}) => {
+  const target = correctAnswer !== null && correctAnswer.trim() !== '' ? Number(correctAnswer) : NaN;
+
+  const commitPlacementPoints = (value: string) => {
+    const placementPoints = value
+      .split(',')
+      .map(item => parseInt(item.trim(), 10))
+      .filter(points => !isNaN(points));
+    if (placementPoints.join(',') !== rules.placementPoints.join(',')) {
+      onRulesChange({ placementPoints });
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ mb: 3, p: 2, bgcolor: 'background.paper' }}>
+      <Typography variant="h6" sx={{ mb: 2, fontWeight: 700 }}>
+        Closest Number
+      </Typography>
+      <TextField
+        label="Question"
+        value={question}
+        onChange={(e) => onQuestionChange(e.target.value)}
+        fullWidth
+        sx={{ mb: 2 }}
+      />
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <TextField
+          label="Correct Value (host only)"
+          type="number"
+          key={correctAnswer ?? ''}
+          defaultValue={correctAnswer ?? ''}
+          onBlur={(e) => onCorrectAnswerChange(e.target.value)}
+          sx={{ width: 200 }}
+        />
+        <TextField
+          label="Points by place (1st, 2nd, ...)"
+          size="small"
+          key={`placement-${rules.placementPoints.join(',')}`}
+          defaultValue={rules.placementPoints.join(', ')}
+          onBlur={(e) => commitPlacementPoints(e.target.value)}
+          sx={{ width: 220 }}
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              checked={rules.noGoingOver}
+              onChange={(e) => onRulesChange({ noGoingOver: e.target.checked })}
+            />
+          }
+          label="Closest without going over"
+        />
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Ties</InputLabel>
+          <Select
+            value={rules.tieMode}
+            label="Ties"
+            onChange={(e) => onRulesChange({ tieMode: e.target.value as ScoringRules['tieMode'] })}
+          >
+            <MenuItem value="share">Share the place</MenuItem>
+            <MenuItem value="split">Split the points</MenuItem>
+            <MenuItem value="fastest">Fastest answer wins</MenuItem>
+          </Select>
+        </FormControl>
+      </Stack>
+      <Table size="small" sx={{ mb: 2 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell>Contestant</TableCell>
+            <TableCell align="center">Guess</TableCell>
+            <TableCell align="center">Time</TableCell>
+            <TableCell align="center">Distance</TableCell>
+            <TableCell align="center">Place</TableCell>
+            <TableCell align="center">Points</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {contestants.map(c => {
+            const result = results?.find(r => r.contestantId === c.id);
+            const guess = answers[c.id];
+            const liveDistance = guess !== undefined && !isNaN(target) ? Math.abs(Number(guess.replace(/[,\s]/g, '')) - target) : null;
+            return (
+              <TableRow key={c.id}>
+                <TableCell>{c.name}</TableCell>
+                <TableCell align="center">{guess ?? '—'}</TableCell>
+                <TableCell align="center">{latencies[c.id] !== undefined ? formatTimerMs(latencies[c.id], false) : '—'}</TableCell>
+                <TableCell align="center">
+                  {result ? (result.distance ?? '—') : (liveDistance ?? '—')}
+                  {result?.over && rules.noGoingOver && ' (over)'}
+                </TableCell>
+                <TableCell align="center">{result?.place ?? '—'}</TableCell>
+                <TableCell align="center">{result ? result.points : '—'}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+      <Button
+        variant="contained"
+        color="primary"
+        onClick={onReveal}
+        disabled={revealAnswers || isNaN(target)}
+        sx={{ fontSize: '1.1rem', fontWeight: 700, minHeight: 48 }}
+        fullWidth
+      >
+        Reveal & Score
+      </Button>
+    </Paper>
+  );
+};
+
+export default NumericPanel;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { Box, Button, Paper, Stack, Typography } from '@mui/material';
+import QuestionMedia from './QuestionMedia';
+import { MediaPlayback, MediaRef, mediaUrl } from '../utils/media';
+
+interface QuestionCardProps {
+  gameType: 'multiple-choice' | 'two-option';
+  question?: string;
+  options: string[];
+  correctAnswer?: string;
+  revealAnswers: boolean;
+  answersLocked?: boolean; // closed before the reveal; the choice can't change
+  firstAnswerFinal?: boolean; // the first choice sticks
+  lockedAnswer: string | null;
+  onAnswer?: (answer: string) => void;
+  media?: MediaRef;
+  optionMedia?: (MediaRef | null)[];
+  playback?: MediaPlayback;
+}
+
+// The answer card contestants see; the question editor renders it too as a preview
+const QuestionCard: React.FC<QuestionCardProps> = ({ gameType, question, options, correctAnswer, revealAnswers, answersLocked = false, firstAnswerFinal = false, lockedAnswer, onAnswer, media, optionMedia, playback }) => {
+  const isMC = gameType === 'multiple-choice';
+  const choiceFinal = answersLocked || (firstAnswerFinal && !!lockedAnswer);
+
+  return (
+    <Paper elevation={3} sx={{ p: 4, width: '100%', maxWidth: 600, textAlign: 'center' }}>
+      {isMC && question && (
+        <Typography variant="h5" gutterBottom sx={{ mb: 3, fontWeight: 500 }}>
+          {question}
+        </Typography>
+      )}
+      {media && <QuestionMedia media={media} playback={playback} />}
+      <Stack direction="column" spacing={2} sx={{ width: '100%', maxWidth: 500, mx: 'auto' }}>
+        {options.map((opt, idx) => {
+          const isCorrect = isMC && revealAnswers && opt === correctAnswer;
+          const isIncorrect = isMC && revealAnswers && lockedAnswer === opt && opt !== correctAnswer;
+          const isSelected = lockedAnswer === opt;
+          const image = optionMedia?.[idx];
+
+          return (
+            <Button
+              key={opt}
+              variant={isSelected ? 'contained' : 'outlined'}
+              color={
+                isCorrect ? 'success' :
+                isIncorrect ? 'error' :
+                isSelected ? 'primary' : 'inherit'
+              }
+              onClick={() => onAnswer?.(opt)}
+              disabled={revealAnswers || choiceFinal}
+              sx={{
+                width: '100%',
+                py: 2,
+                px: 3,
+                justifyContent: 'flex-start',
+                textTransform: 'none',
+                fontSize: '1.1rem',
+                fontWeight: 500,
+                textAlign: 'left',
+                whiteSpace: 'normal',
+                height: 'auto',
+                borderWidth: isCorrect || isIncorrect ? 2 : 1,
+                '&:hover': {
+                  borderWidth: isCorrect || isIncorrect ? 2 : 1,
+                }
+              }}
+            >
+              <Typography sx={{ fontWeight: 600, mr: 2 }}>
+                {isMC ?
+                  `${String.fromCharCode(65 + idx)})` :
+                  `${idx + 1})`}
+              </Typography>
+              {image?.kind === 'image' && (
+                <Box component="img" src={mediaUrl(image)} alt="" sx={{ height: 64, maxWidth: 120, objectFit: 'contain', borderRadius: 1, mr: 2 }} />
+              )}
+              {opt}
+              {isCorrect && (
+                <Typography sx={{ ml: 2, color: 'success.main', fontWeight: 600 }}>
+                  ✓ Correct
+                </Typography>
+              )}
+              {isIncorrect && (
+                <Typography sx={{ ml: 2, color: 'error.main', fontWeight: 600 }}>
+                  ✗ Incorrect
+                </Typography>
+              )}
+            </Button>
+          );
+        })}
+      </Stack>
+      {revealAnswers && (
+        <Typography variant="body2" color="secondary" sx={{ mt: 3 }}>
+          {isMC ?
+            (lockedAnswer === correctAnswer ?
+              'Correct! Your score has been updated.' :
+              'Answers revealed!') :
+            'Answers revealed!'}
+        </Typography>
+      )}
+      {!revealAnswers && (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 3 }}>
+          {answersLocked ? 'Answers are locked.'
+            : firstAnswerFinal ? (lockedAnswer ? 'Your answer is final.' : 'Choose carefully: your first answer is final.')
+            : 'Choose your answer. You can change it until answers are revealed.'}
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default QuestionCard;
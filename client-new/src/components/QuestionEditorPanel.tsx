@@ -0,0 +1,363 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  Radio,
+  Stack,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import QuestionCard from './QuestionCard';
+import MediaPicker from './MediaPicker';
+import { Question, QuestionKind, questionProblems } from '../utils/questions';
+import { MediaRef } from '../utils/media';
+import { useMediaLibrary } from '../utils/useMediaLibrary';
+
+// sourceIndex: where the row sits in the server's list, so the live question can be followed through reorders
+interface DraftRow {
+  key: number;
+  sourceIndex: number | null;
+  question: Question;
+}
+
+interface QuestionEditorPanelProps {
+  questions: Question[];
+  kind: QuestionKind; // what the current game plays: board clues or multiple choice
+  currentQuestionIndex: number;
+  onSave: (questions: Question[], currentQuestionIndex: number) => void;
+  onUnauthorized: () => void;
+}
+
+let nextRowKey = 1;
+// Rows keep their keys by position so the selection survives the server echoing a save
+const toRows = (questions: Question[], previous: DraftRow[] = []): DraftRow[] =>
+  questions.map((question, index) => ({ key: previous[index]?.key ?? nextRowKey++, sourceIndex: index, question }));
+
+const blankQuestion = (kind: QuestionKind): Question => ({ question: '', options: kind === 'clue' ? [] : ['', ''], correctAnswer: '' });
+
+// Same cleanup the server applies on import, so the preview and the saved list match.
+// Option images stay with their options when blank ones are dropped
+const cleanQuestion = (question: Question): Question => {
+  const kept = question.options
+    .map((option, index) => ({ option: option.trim(), media: question.optionMedia?.[index] ?? null }))
+    .filter(({ option }) => option !== '');
+  return {
+    ...question,
+    question: question.question.trim(),
+    options: kept.map(({ option }) => option),
+    correctAnswer: question.correctAnswer.trim(),
+    category: question.category?.trim() || undefined,
+    notes: question.notes?.trim() || undefined,
+    media: question.media || undefined,
+    optionMedia: kept.some(({ media }) => media) ? kept.map(({ media }) => media) : undefined,
+  };
+};
+
+// Edits a local draft of the question list; nothing reaches the server until Save.
+// While there are no unsaved edits the draft follows the server's list
+const QuestionEditorPanel: React.FC<QuestionEditorPanelProps> = ({ questions, kind, currentQuestionIndex, onSave, onUnauthorized }) => {
+  const mediaLibrary = useMediaLibrary(onUnauthorized);
+  const [rows, setRows] = useState<DraftRow[]>(() => toRows(questions));
+  const [selectedKey, setSelectedKey] = useState<number | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [previewRevealed, setPreviewRevealed] = useState(false);
+
+  useEffect(() => {
+    if (!dirty) setRows(previous => toRows(questions, previous));
+  }, [questions, dirty]);
+
+  const selectedIndex = rows.findIndex(row => row.key === selectedKey);
+  const selected = selectedIndex === -1 ? undefined : rows[selectedIndex];
+  const rowProblems = rows.map(row => questionProblems(row.question, kind));
+  const problemCount = rowProblems.filter(problems => problems.length > 0).length;
+
+  const updateRows = (next: DraftRow[]) => {
+    setRows(next);
+    setDirty(true);
+  };
+
+  const updateSelected = (changes: Partial<Question>) => {
+    if (!selected) return;
+    updateRows(rows.map(row => (row.key === selected.key ? { ...row, question: { ...row.question, ...changes } } : row)));
+  };
+
+  const handleAdd = () => {
+    const row: DraftRow = { key: nextRowKey++, sourceIndex: null, question: blankQuestion(kind) };
+    updateRows([...rows, row]);
+    setSelectedKey(row.key);
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const next = [...rows];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    updateRows(next);
+  };
+
+  const handleDelete = (index: number) => {
+    updateRows(rows.filter((_, i) => i !== index));
+  };
+
+  const handleOptionChange = (optionIndex: number, value: string) => {
+    if (!selected) return;
+    const { options, correctAnswer } = selected.question;
+    // Renaming the correct option keeps it correct
+    updateSelected({
+      options: options.map((option, i) => (i === optionIndex ? value : option)),
+      correctAnswer: correctAnswer !== '' && options[optionIndex] === correctAnswer ? value : correctAnswer,
+    });
+  };
+
+  const handleRemoveOption = (optionIndex: number) => {
+    if (!selected) return;
+    const { options, correctAnswer, optionMedia } = selected.question;
+    updateSelected({
+      options: options.filter((_, i) => i !== optionIndex),
+      correctAnswer: options[optionIndex] === correctAnswer ? '' : correctAnswer,
+      optionMedia: optionMedia?.filter((_, i) => i !== optionIndex),
+    });
+  };
+
+  const handleOptionMediaChange = (optionIndex: number, media: MediaRef | null) => {
+    if (!selected) return;
+    const optionMedia = selected.question.options.map((_, i) => selected.question.optionMedia?.[i] ?? null);
+    optionMedia[optionIndex] = media;
+    updateSelected({ optionMedia });
+  };
+
+  const handleNumberChange = (field: 'points' | 'timer', value: string) => {
+    updateSelected({ [field]: value === '' ? undefined : Number(value) });
+  };
+
+  const handleSave = () => {
+    if (problemCount > 0) return;
+    // Stay on the question that's live, wherever it moved to
+    const liveIndex = rows.findIndex(row => row.sourceIndex === currentQuestionIndex);
+    onSave(rows.map(row => cleanQuestion(row.question)), liveIndex === -1 ? Math.min(currentQuestionIndex, Math.max(rows.length - 1, 0)) : liveIndex);
+    setDirty(false);
+  };
+
+  const handleDiscard = () => {
+    setRows(toRows(questions, rows));
+    setDirty(false);
+  };
+
+  const preview = selected ? cleanQuestion(selected.question) : undefined;
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <Typography variant="h6" sx={{ fontWeight: 700, flexGrow: 1 }}>
+          Question Editor
+        </Typography>
+        {dirty && <Chip label="Unsaved changes" color="warning" size="small" />}
+        {problemCount > 0 && <Chip label={`${problemCount} with problems`} color="error" size="small" />}
+        <Button variant="outlined" onClick={handleDiscard} disabled={!dirty} sx={{ minHeight: 36 }}>
+          Discard
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={!dirty || problemCount > 0} sx={{ minHeight: 36 }}>
+          Save Questions
+        </Button>
+      </Stack>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Edits to the question on screen show up the next time you move to it.
+      </Typography>
+      <Stack direction="row" spacing={3} alignItems="flex-start">
+        <Box sx={{ width: 320, flexShrink: 0 }}>
+          <List dense sx={{ maxHeight: 480, overflowY: 'auto', p: 0, mb: 1 }}>
+            {rows.map((row, index) => (
+              <ListItemButton
+                key={row.key}
+                selected={row.key === selectedKey}
+                onClick={() => setSelectedKey(row.key)}
+                sx={{ pr: 1 }}
+              >
+                <ListItemText
+                  primary={`${index + 1}. ${row.question.question || '(untitled)'}`}
+                  secondary={rowProblems[index][0] ?? (row.sourceIndex === currentQuestionIndex ? 'Live' : undefined)}
+                  slotProps={{
+                    primary: { noWrap: true },
+                    secondary: { color: rowProblems[index].length > 0 ? 'error' : 'text.secondary' },
+                  }}
+                />
+                <IconButton size="small" disabled={index === 0} onClick={(e) => { e.stopPropagation(); handleMove(index, -1); }}>
+                  <ArrowUpwardIcon fontSize="small" />
+                </IconButton>
+                <IconButton size="small" disabled={index === rows.length - 1} onClick={(e) => { e.stopPropagation(); handleMove(index, 1); }}>
+                  <ArrowDownwardIcon fontSize="small" />
+                </IconButton>
+                <IconButton size="small" color="error" onClick={(e) => { e.stopPropagation(); handleDelete(index); }}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </ListItemButton>
+            ))}
+          </List>
+          <Button variant="outlined" startIcon={<AddIcon />} onClick={handleAdd} fullWidth sx={{ minHeight: 36 }}>
+            Add Question
+          </Button>
+        </Box>
+
+        {selected ? (
+          <Stack spacing={2} sx={{ flexGrow: 1, minWidth: 0 }}>
+            <TextField
+              label="Question"
+              value={selected.question.question}
+              onChange={(e) => updateSelected({ question: e.target.value })}
+              multiline
+              fullWidth
+            />
+            <MediaPicker
+              label="Question media (image, audio or video)"
+              value={selected.question.media}
+              kinds={['image', 'audio', 'video']}
+              assets={mediaLibrary.assets}
+              onChange={(media) => updateSelected({ media: media ?? undefined })}
+              onUpload={mediaLibrary.upload}
+            />
+            {mediaLibrary.error && (
+              <Typography variant="body2" color="error">
+                {mediaLibrary.error}
+              </Typography>
+            )}
+            {kind === 'multiple-choice' && (
+              <>
+                <Typography variant="subtitle2">Options (select the correct one)</Typography>
+                {selected.question.options.map((option, optionIndex) => (
+                  <Stack key={optionIndex} direction="row" spacing={1} alignItems="center">
+                    <Tooltip title="Correct answer">
+                      <Radio
+                        checked={option !== '' && option === selected.question.correctAnswer}
+                        onChange={() => updateSelected({ correctAnswer: option })}
+                        disabled={option.trim() === ''}
+                      />
+                    </Tooltip>
+                    <TextField
+                      label={`Option ${String.fromCharCode(65 + optionIndex)}`}
+                      value={option}
+                      onChange={(e) => handleOptionChange(optionIndex, e.target.value)}
+                      size="small"
+                      fullWidth
+                    />
+                    <MediaPicker
+                      label="Image"
+                      value={selected.question.optionMedia?.[optionIndex]}
+                      kinds={['image']}
+                      assets={mediaLibrary.assets}
+                      onChange={(media) => handleOptionMediaChange(optionIndex, media)}
+                      onUpload={mediaLibrary.upload}
+                    />
+                    <IconButton size="small" color="error" onClick={() => handleRemoveOption(optionIndex)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Stack>
+                ))}
+                <Box>
+                  <Button
+                    startIcon={<AddIcon />}
+                    onClick={() => updateSelected({ options: [...selected.question.options, ''] })}
+                    sx={{ minHeight: 36 }}
+                  >
+                    Add Option
+                  </Button>
+                </Box>
+              </>
+            )}
+            {kind === 'clue' && (
+              <TextField
+                label="Answer (optional)"
+                value={selected.question.correctAnswer}
+                onChange={(e) => updateSelected({ correctAnswer: e.target.value })}
+                helperText="Board clues are answered on the buzz; the answer is shown to the host only"
+                size="small"
+                fullWidth
+              />
+            )}
+            <Stack direction="row" spacing={2}>
+              <TextField
+                label="Category"
+                value={selected.question.category ?? ''}
+                onChange={(e) => updateSelected({ category: e.target.value })}
+                size="small"
+                sx={{ flexGrow: 1 }}
+              />
+              <TextField
+                label="Points"
+                type="number"
+                value={selected.question.points ?? ''}
+                onChange={(e) => handleNumberChange('points', e.target.value)}
+                placeholder="Default"
+                size="small"
+                sx={{ width: 120 }}
+                slotProps={{ htmlInput: { min: 0 } }}
+              />
+              <TextField
+                label="Timer (seconds)"
+                type="number"
+                value={selected.question.timer ?? ''}
+                onChange={(e) => handleNumberChange('timer', e.target.value)}
+                placeholder="None"
+                size="small"
+                sx={{ width: 150 }}
+                slotProps={{ htmlInput: { min: 0 } }}
+              />
+            </Stack>
+            <TextField
+              label="Host notes"
+              value={selected.question.notes ?? ''}
+              onChange={(e) => updateSelected({ notes: e.target.value })}
+              helperText="Only shown in the admin panel"
+              multiline
+              minRows={2}
+              fullWidth
+            />
+            {rowProblems[selectedIndex].length > 0 && (
+              <Typography variant="body2" color="error">
+                {rowProblems[selectedIndex].join('. ')}
+              </Typography>
+            )}
+
+            <Stack direction="row" spacing={2} alignItems="center">
+              <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+                Contestant preview
+              </Typography>
+              <FormControlLabel
+                control={<Switch checked={previewRevealed} onChange={(e) => setPreviewRevealed(e.target.checked)} />}
+                label="Show reveal"
+              />
+            </Stack>
+            <Box sx={{ display: 'flex', justifyContent: 'center', bgcolor: 'background.default', borderRadius: 2, p: 2 }}>
+              <QuestionCard
+                gameType="multiple-choice"
+                question={preview?.question}
+                options={Array.from(new Set(preview?.options))}
+                correctAnswer={preview?.correctAnswer}
+                revealAnswers={previewRevealed}
+                lockedAnswer={previewRevealed ? preview?.correctAnswer ?? null : null}
+                media={preview?.media}
+                optionMedia={preview?.optionMedia}
+              />
+            </Box>
+          </Stack>
+        ) : (
+          <Typography color="text.secondary" sx={{ flexGrow: 1 }}>
+            {rows.length > 0 ? 'Select a question to edit it.' : 'No questions yet. Add one to get started.'}
+          </Typography>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default QuestionEditorPanel;
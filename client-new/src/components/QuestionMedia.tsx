@@ -0,0 +1,76 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Button, Typography } from '@mui/material';
+import MusicNoteIcon from '@mui/icons-material/MusicNote';
+import { getPlaybackPosition, MediaPlayback, MediaRef, mediaUrl } from '../utils/media';
+
+interface QuestionMediaProps {
+  media: MediaRef;
+  playback?: MediaPlayback;
+  muted?: boolean; // the admin panel shows the clip without doubling the sound
+  maxHeight?: number | string;
+}
+
+// Clips more than this far from the shared position get moved back in step
+const MAX_DRIFT_SECONDS = 0.3;
+
+// A question's picture, clip or video. Audio and video follow the host's play/pause
+// instead of their own controls, so every screen plays the same moment
+const QuestionMedia: React.FC<QuestionMediaProps> = ({ media, playback, muted = false, maxHeight = 320 }) => {
+  const elementRef = useRef<HTMLAudioElement & HTMLVideoElement>(null);
+  const [blocked, setBlocked] = useState(false);
+
+  const active = !!playback && playback.mediaId === media.id;
+  const playing = active && !!playback?.playing;
+
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!element || !playback) return;
+    if (playing) {
+      const position = getPlaybackPosition(playback);
+      if (Math.abs(element.currentTime - position) > MAX_DRIFT_SECONDS) {
+        element.currentTime = position;
+      }
+      element.play()
+        .then(() => setBlocked(false))
+        // Browsers hold back sound until the page has been clicked once
+        .catch(() => setBlocked(true));
+    } else {
+      element.pause();
+      element.currentTime = active ? playback.offsetMs / 1000 : 0;
+    }
+  }, [media.id, active, playing, playback]);
+
+  const handleUnblock = () => {
+    const element = elementRef.current;
+    if (!element || !playback) return;
+    element.currentTime = getPlaybackPosition(playback);
+    element.play().then(() => setBlocked(false)).catch(() => setBlocked(true));
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 1, my: 2 }}>
+      {media.kind === 'image' && (
+        <Box component="img" src={mediaUrl(media)} alt={media.name || ''} sx={{ maxWidth: '100%', maxHeight, borderRadius: 2 }} />
+      )}
+      {media.kind === 'video' && (
+        <Box component="video" ref={elementRef} src={mediaUrl(media)} preload="auto" playsInline muted={muted} sx={{ maxWidth: '100%', maxHeight, borderRadius: 2 }} />
+      )}
+      {media.kind === 'audio' && (
+        <>
+          <audio ref={elementRef} src={mediaUrl(media)} preload="auto" muted={muted} />
+          <Typography variant="h6" color={playing ? 'primary' : 'text.secondary'} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <MusicNoteIcon />
+            {playing ? 'Now playing' : 'Audio clip'}
+          </Typography>
+        </>
+      )}
+      {blocked && playing && !muted && (
+        <Button variant="contained" onClick={handleUnblock} sx={{ minHeight: 36 }}>
+          Tap to play sound
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default QuestionMedia;
@@ -0,0 +1,177 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Button,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { config } from '../utils/config';
+import { adminHeaders } from '../utils/adminAuth';
+import { Question, QuestionKind, QuestionPack, QuestionPackSummary } from '../utils/questions';
+
+interface QuestionPackPanelProps {
+  questions: Question[];
+  kind: QuestionKind; // only packs of this kind can load into the current game, and new packs are saved as it
+  currentPackId: string | null;
+  currentQuestionIndex: number;
+  onLoad: (questions: Question[], packId: string) => void;
+  onUnauthorized: () => void;
+}
+
+// Saved question packs on the server. Loading skips questions that already aired by default,
+// so a rerun of the same pack picks up where the last show left off
+const QuestionPackPanel: React.FC<QuestionPackPanelProps> = ({ questions, kind, currentPackId, currentQuestionIndex, onLoad, onUnauthorized }) => {
+  const [packs, setPacks] = useState<QuestionPackSummary[]>([]);
+  const [selectedPackId, setSelectedPackId] = useState('');
+  const [skipAired, setSkipAired] = useState(true);
+  const [newPackName, setNewPackName] = useState('');
+  const [message, setMessage] = useState('');
+
+  const packRequest = useCallback(async (path: string, method: string = 'GET', body?: unknown) => {
+    const response = await fetch(`${config.apiUrl}/api/packs${path}`, {
+      method,
+      headers: adminHeaders(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    if (response.status === 401) {
+      onUnauthorized();
+      return null;
+    }
+    const data = await response.json();
+    if (!response.ok) {
+      setMessage(data.errors?.length ? `${data.error}: ${data.errors[0].message}` : data.error || 'Request failed');
+      return null;
+    }
+    return data;
+  }, [onUnauthorized]);
+
+  const fetchPacks = useCallback(async () => {
+    try {
+      const data = await packRequest('');
+      if (data) setPacks(data.filter((pack: QuestionPackSummary) => pack.kind === kind));
+    } catch (error) {
+      console.error('Error fetching question packs:', error);
+    }
+  }, [packRequest, kind]);
+
+  useEffect(() => {
+    fetchPacks();
+  }, [fetchPacks]);
+
+  // Moving to a question marks it aired; refresh the counts when the loaded pack moves on
+  useEffect(() => {
+    if (currentPackId) fetchPacks();
+  }, [currentPackId, currentQuestionIndex, fetchPacks]);
+
+  const withRefresh = async (action: () => Promise<unknown>) => {
+    setMessage('');
+    try {
+      await action();
+    } catch (error) {
+      console.error('Question pack request failed:', error);
+    }
+    fetchPacks();
+  };
+
+  const handleLoad = () => withRefresh(async () => {
+    const pack: QuestionPack | null = await packRequest(`/${encodeURIComponent(selectedPackId)}`);
+    if (!pack) return;
+    const toLoad = skipAired ? pack.questions.filter(q => !q.id || !pack.aired[q.id]) : pack.questions;
+    if (toLoad.length === 0) {
+      setMessage('Every question in this pack has aired. Turn off "Skip aired" or reset the pack.');
+      return;
+    }
+    onLoad(toLoad, pack.id);
+  });
+
+  const handleSaveAsPack = () => withRefresh(async () => {
+    const pack: QuestionPack | null = await packRequest('', 'POST', { name: newPackName.trim(), kind, questions });
+    if (pack) {
+      setNewPackName('');
+      setSelectedPackId(pack.id);
+      setMessage(`Saved "${pack.name}"`);
+    }
+  });
+
+  const handleDuplicate = () => withRefresh(async () => {
+    const pack: QuestionPack | null = await packRequest(`/${encodeURIComponent(selectedPackId)}/duplicate`, 'POST', {});
+    if (pack) setSelectedPackId(pack.id);
+  });
+
+  const handleResetAired = () => withRefresh(() => packRequest(`/${encodeURIComponent(selectedPackId)}`, 'PUT', { resetAired: true }));
+
+  const handleDelete = () => {
+    const pack = packs.find(p => p.id === selectedPackId);
+    if (!pack || !window.confirm(`Delete the pack "${pack.name}"?`)) return;
+    withRefresh(async () => {
+      if (await packRequest(`/${encodeURIComponent(selectedPackId)}`, 'DELETE')) setSelectedPackId('');
+    });
+  };
+
+  return (
+    <Stack spacing={2} sx={{ mb: 2, width: '100%' }}>
+      <Stack direction="row" spacing={2} alignItems="center">
+        <FormControl size="small" sx={{ minWidth: 260 }}>
+          <InputLabel>Question Pack</InputLabel>
+          <Select
+            value={packs.some(p => p.id === selectedPackId) ? selectedPackId : ''}
+            label="Question Pack"
+            onChange={(e) => setSelectedPackId(e.target.value)}
+          >
+            {packs.map(pack => (
+              <MenuItem key={pack.id} value={pack.id}>
+                {pack.name} ({pack.airedCount}/{pack.questionCount} aired)
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControlLabel
+          control={<Switch checked={skipAired} onChange={(e) => setSkipAired(e.target.checked)} />}
+          label="Skip aired"
+        />
+        <Button variant="contained" onClick={handleLoad} disabled={!selectedPackId} sx={{ minHeight: 36 }}>
+          Load
+        </Button>
+        <Button variant="outlined" onClick={handleDuplicate} disabled={!selectedPackId} sx={{ minHeight: 36 }}>
+          Duplicate
+        </Button>
+        <Button variant="outlined" onClick={handleResetAired} disabled={!selectedPackId} sx={{ minHeight: 36 }}>
+          Reset Aired
+        </Button>
+        <Button variant="outlined" color="error" onClick={handleDelete} disabled={!selectedPackId} sx={{ minHeight: 36 }}>
+          Delete
+        </Button>
+      </Stack>
+      <Stack direction="row" spacing={2} alignItems="center">
+        <TextField
+          label="New pack name"
+          size="small"
+          value={newPackName}
+          onChange={(e) => setNewPackName(e.target.value)}
+          sx={{ minWidth: 260 }}
+        />
+        <Button
+          variant="outlined"
+          onClick={handleSaveAsPack}
+          disabled={!newPackName.trim() || questions.length === 0}
+          sx={{ minHeight: 36 }}
+        >
+          Save Loaded Questions as Pack
+        </Button>
+        {message && (
+          <Typography variant="body2" color="text.secondary">
+            {message}
+          </Typography>
+        )}
+      </Stack>
+    </Stack>
+  );
+};
+
+export default QuestionPackPanel;
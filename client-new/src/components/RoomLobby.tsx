@@ -0,0 +1,173 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { config } from '../utils/config';
+import { adminHeaders } from '../utils/adminAuth';
+import { useAdminAuth } from '../utils/useAdminAuth';
+import AdminLogin from './AdminLogin';
+
+interface RoomSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  contestantCount: number;
+  connectedCount: number;
+  isRecording: boolean;
+}
+
+const RoomLobby: React.FC = () => {
+  const [rooms, setRooms] = useState<RoomSummary[]>([]);
+  const [newRoomName, setNewRoomName] = useState('');
+  const { setAdminToken, authRequired, isReady, needsLogin, logout } = useAdminAuth();
+
+  const fetchRooms = useCallback(async () => {
+    try {
+      const response = await fetch(`${config.apiUrl}/api/rooms`, { headers: adminHeaders() });
+      if (response.status === 401) {
+        logout();
+        return;
+      }
+      if (response.ok) {
+        setRooms(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching rooms:', error);
+    }
+  }, [logout]);
+
+  useEffect(() => {
+    if (!isReady) return;
+    fetchRooms();
+    const interval = setInterval(fetchRooms, 10000);
+    return () => clearInterval(interval);
+  }, [isReady, fetchRooms]);
+
+  const handleCreateRoom = async () => {
+    if (!newRoomName.trim()) return;
+    try {
+      const response = await fetch(`${config.apiUrl}/api/rooms`, {
+        method: 'POST',
+        headers: adminHeaders({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ name: newRoomName }),
+      });
+      if (response.ok) {
+        setNewRoomName('');
+        fetchRooms();
+      } else {
+        console.error('Failed to create room');
+      }
+    } catch (error) {
+      console.error('Error creating room:', error);
+    }
+  };
+
+  const handleDeleteRoom = async (roomId: string) => {
+    if (!window.confirm('Delete this room and all of its contestants and scores?')) return;
+    try {
+      const response = await fetch(`${config.apiUrl}/api/rooms/${encodeURIComponent(roomId)}`, {
+        method: 'DELETE',
+        headers: adminHeaders(),
+      });
+      if (response.ok) {
+        fetchRooms();
+      } else {
+        console.error('Failed to delete room');
+      }
+    } catch (error) {
+      console.error('Error deleting room:', error);
+    }
+  };
+
+  if (needsLogin) {
+    return <AdminLogin onLogin={setAdminToken} />;
+  }
+
+  return (
+    <Box sx={{ p: 3, minHeight: '100vh', backgroundColor: 'background.default' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 4 }}>
+        <Typography variant="h3" sx={{ color: 'primary.main' }}>
+          Game Rooms
+        </Typography>
+        {authRequired && (
+          <Button variant="outlined" onClick={logout} sx={{ minHeight: 36 }}>
+            Log Out
+          </Button>
+        )}
+      </Box>
+
+      <Paper elevation={3} sx={{ p: 3 }}>
+        <Box sx={{ display: 'flex', gap: 2, mb: 3, alignItems: 'center' }}>
+          <TextField
+            label="Room Name"
+            value={newRoomName}
+            onChange={(e) => setNewRoomName(e.target.value)}
+            size="small"
+            sx={{ flexGrow: 1 }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                handleCreateRoom();
+              }
+            }}
+          />
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={handleCreateRoom}
+            size="small"
+            sx={{
+              minHeight: 40,
+              minWidth: 120
+            }}
+          >
+            Create Room
+          </Button>
+        </Box>
+
+        <List sx={{ p: 0 }}>
+          {rooms.map(room => (
+            <Paper key={room.id} elevation={1} sx={{ mb: 1.5, borderRadius: 2 }}>
+              <ListItem
+                secondaryAction={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                    {room.isRecording && <Chip label="Recording" color="error" size="small" />}
+                    <Button variant="contained" component={RouterLink} to={`/admin/${room.id}`} sx={{ minHeight: 36 }}>
+                      Open
+                    </Button>
+                    {room.id !== 'default' && (
+                      <Tooltip title="Delete Room">
+                        <IconButton edge="end" aria-label="delete" onClick={() => handleDeleteRoom(room.id)}>
+                          <DeleteIcon />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </Box>
+                }
+              >
+                <ListItemText
+                  primary={room.name}
+                  secondary={`${room.id} · ${room.connectedCount}/${room.contestantCount} contestants connected`}
+                />
+              </ListItem>
+            </Paper>
+          ))}
+        </List>
+      </Paper>
+    </Box>
+  );
+};
+
+export default RoomLobby;
@@ -0,0 +1,476 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import { config } from '../utils/config';
+import { adminHeaders } from '../utils/adminAuth';
+import { Question } from '../utils/questions';
+import { ScoringRules } from './ScoringRulesPanel';
+import { AutomationRule } from './AutomationRulesPanel';
+
+type GameType = 'buzzer' | 'multiple-choice' | 'two-option' | 'timer-only' | 'wager' | 'free-text' | 'numeric' | 'board';
+
+export interface RundownSegment {
+  id?: string; // set by the server on save
+  title: string;
+  gameType: GameType;
+  questions: Question[];
+  questionText?: string; // free-text, numeric and wager segments
+  correctAnswer?: string;
+  packId: string | null;
+  timerSeconds: number | null;
+  scoringRules: ScoringRules | null; // null keeps whatever rules are in force
+  automationRules: AutomationRule[] | null; // likewise
+  notes?: string;
+}
+
+export interface Rundown {
+  id: string;
+  name: string;
+  segments: RundownSegment[];
+}
+
+interface RundownSummary {
+  id: string;
+  name: string;
+  segmentCount: number;
+}
+
+const GAME_TYPE_LABELS: Record<GameType, string> = {
+  'buzzer': 'Standard Buzzer',
+  'multiple-choice': 'Multiple Choice',
+  'two-option': 'Two Option',
+  'timer-only': 'Timer Only',
+  'wager': 'Wager Round',
+  'free-text': 'Free Text',
+  'numeric': 'Closest Number',
+  'board': 'Category Board',
+};
+
+// Only these segments carry questions; the server drops them from the rest
+const usesQuestionBank = (type: GameType) => type === 'multiple-choice' || type === 'board';
+// These carry a single question and its answer instead
+const usesSingleQuestion = (type: GameType) => type === 'free-text' || type === 'numeric' || type === 'wager';
+
+interface RundownPanelProps {
+  activeRundown: Rundown | null;
+  segmentIndex: number;
+  // The room as it's set up now, for capturing into a segment
+  gameType: GameType;
+  questions: Question[];
+  questionPackId: string | null;
+  question: string;
+  correctAnswer: string | null;
+  timerDurationMs: number | null;
+  scoringRules?: ScoringRules;
+  automationRules: AutomationRule[];
+  onStart: (rundownId: string) => void;
+  onGoToSegment: (index: number) => void;
+  onEnd: () => void;
+  onUnauthorized: () => void;
+}
+
+// Saved show rundowns: an ordered list of segments the host steps through with "Next Segment".
+// Each step switches the game type and loads the segment's questions, timer, scoring and automation in one go
+const RundownPanel: React.FC<RundownPanelProps> = ({
+  activeRundown,
+  segmentIndex,
+  gameType,
+  questions,
+  questionPackId,
+  question,
+  correctAnswer,
+  timerDurationMs,
+  scoringRules,
+  automationRules,
+  onStart,
+  onGoToSegment,
+  onEnd,
+  onUnauthorized,
+}) => {
+  const [rundowns, setRundowns] = useState<RundownSummary[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [draft, setDraft] = useState<{ id: string | null; name: string; segments: RundownSegment[] } | null>(null);
+  const [message, setMessage] = useState('');
+
+  const rundownRequest = useCallback(async (path: string, method: string = 'GET', body?: unknown) => {
+    const response = await fetch(`${config.apiUrl}/api/rundowns${path}`, {
+      method,
+      headers: adminHeaders(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    if (response.status === 401) {
+      onUnauthorized();
+      return null;
+    }
+    const data = await response.json();
+    if (!response.ok) {
+      setMessage(data.errors?.length ? data.errors[0].message : data.error || 'Request failed');
+      return null;
+    }
+    return data;
+  }, [onUnauthorized]);
+
+  const fetchRundowns = useCallback(async () => {
+    try {
+      const data = await rundownRequest('');
+      if (data) setRundowns(data);
+    } catch (error) {
+      console.error('Error fetching rundowns:', error);
+    }
+  }, [rundownRequest]);
+
+  useEffect(() => {
+    fetchRundowns();
+  }, [fetchRundowns]);
+
+  const currentSegment = activeRundown?.segments[segmentIndex];
+  const nextSegment = activeRundown?.segments[segmentIndex + 1];
+
+  const captureSegment = (title: string): RundownSegment => ({
+    title,
+    gameType,
+    questions: usesQuestionBank(gameType) ? questions : [],
+    packId: usesQuestionBank(gameType) ? questionPackId : null,
+    ...(usesSingleQuestion(gameType) && { questionText: question, correctAnswer: correctAnswer ?? '' }),
+    timerSeconds: timerDurationMs ? Math.round(timerDurationMs / 1000) : null,
+    scoringRules: scoringRules ?? null,
+    automationRules,
+  });
+
+  const updateSegment = (index: number, update: Partial<RundownSegment>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      segments: prev.segments.map((segment, i) => (i === index ? { ...segment, ...update } : segment)),
+    });
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const segments = [...prev.segments];
+      [segments[index], segments[index + direction]] = [segments[index + direction], segments[index]];
+      return { ...prev, segments };
+    });
+  };
+
+  const handleRemoveSegment = (index: number) => {
+    setDraft(prev => prev && { ...prev, segments: prev.segments.filter((_, i) => i !== index) });
+  };
+
+  const handleEdit = async () => {
+    setMessage('');
+    try {
+      const rundown: Rundown | null = await rundownRequest(`/${encodeURIComponent(selectedId)}`);
+      if (rundown) setDraft({ id: rundown.id, name: rundown.name, segments: rundown.segments });
+    } catch (error) {
+      console.error('Error loading rundown:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setMessage('');
+    try {
+      const body = { name: draft.name.trim(), segments: draft.segments };
+      const saved: Rundown | null = draft.id
+        ? await rundownRequest(`/${encodeURIComponent(draft.id)}`, 'PUT', body)
+        : await rundownRequest('', 'POST', body);
+      if (saved) {
+        setDraft(null);
+        setSelectedId(saved.id);
+        setMessage(`Saved "${saved.name}"`);
+      }
+    } catch (error) {
+      console.error('Error saving rundown:', error);
+    }
+    fetchRundowns();
+  };
+
+  const handleDelete = async () => {
+    const rundown = rundowns.find(r => r.id === selectedId);
+    if (!rundown || !window.confirm(`Delete the rundown "${rundown.name}"?`)) return;
+    setMessage('');
+    try {
+      if (await rundownRequest(`/${encodeURIComponent(selectedId)}`, 'DELETE')) setSelectedId('');
+    } catch (error) {
+      console.error('Error deleting rundown:', error);
+    }
+    fetchRundowns();
+  };
+
+  const handleStart = () => {
+    if (activeRundown && !window.confirm(`Stop running "${activeRundown.name}" and start over with the selected rundown?`)) return;
+    onStart(selectedId);
+  };
+
+  const handleJump = (index: number) => {
+    if (index === segmentIndex) return;
+    const segment = activeRundown?.segments[index];
+    if (segment && window.confirm(`Jump to segment ${index + 1}, "${segment.title}"?`)) {
+      onGoToSegment(index);
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <Typography variant="h6" sx={{ fontWeight: 700, flexGrow: 1 }}>
+          Show Rundown{activeRundown ? `: ${activeRundown.name}` : ''}
+        </Typography>
+        {activeRundown && (
+          <>
+            <Button
+              variant="contained"
+              onClick={() => onGoToSegment(segmentIndex + 1)}
+              disabled={!nextSegment}
+              sx={{ minHeight: 36 }}
+            >
+              {nextSegment ? `Next Segment: ${nextSegment.title}` : 'Last Segment'}
+            </Button>
+            <Button variant="outlined" onClick={onEnd} sx={{ minHeight: 36 }}>
+              End Rundown
+            </Button>
+          </>
+        )}
+      </Stack>
+
+      {activeRundown && (
+        <Box sx={{ mb: 3 }}>
+          <List dense>
+            {activeRundown.segments.map((segment, index) => (
+              <ListItemButton key={segment.id ?? index} selected={index === segmentIndex} onClick={() => handleJump(index)}>
+                <ListItemText
+                  primary={`${index + 1}. ${segment.title}`}
+                  secondary={[
+                    GAME_TYPE_LABELS[segment.gameType],
+                    segment.questions.length > 0 ? `${segment.questions.length} questions` : '',
+                    segment.timerSeconds ? `${segment.timerSeconds}s timer` : '',
+                  ].filter(Boolean).join(' · ')}
+                />
+                {index === segmentIndex && <Chip label="Live" color="primary" size="small" />}
+              </ListItemButton>
+            ))}
+          </List>
+          {currentSegment?.notes && (
+            <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'pre-wrap' }}>
+              Host notes: {currentSegment.notes}
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      <Stack direction="row" spacing={2} alignItems="center">
+        <FormControl size="small" sx={{ minWidth: 260 }}>
+          <InputLabel>Rundown</InputLabel>
+          <Select
+            value={rundowns.some(r => r.id === selectedId) ? selectedId : ''}
+            label="Rundown"
+            onChange={(e) => setSelectedId(e.target.value)}
+          >
+            {rundowns.map(rundown => (
+              <MenuItem key={rundown.id} value={rundown.id}>
+                {rundown.name} ({rundown.segmentCount} segments)
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Button variant="contained" onClick={handleStart} disabled={!selectedId} sx={{ minHeight: 36 }}>
+          Start
+        </Button>
+        <Button variant="outlined" onClick={handleEdit} disabled={!selectedId || !!draft} sx={{ minHeight: 36 }}>
+          Edit
+        </Button>
+        <Button variant="outlined" color="error" onClick={handleDelete} disabled={!selectedId} sx={{ minHeight: 36 }}>
+          Delete
+        </Button>
+        <Button variant="outlined" onClick={() => setDraft({ id: null, name: '', segments: [] })} disabled={!!draft} sx={{ minHeight: 36 }}>
+          New Rundown
+        </Button>
+        {message && (
+          <Typography variant="body2" color="text.secondary">
+            {message}
+          </Typography>
+        )}
+      </Stack>
+
+      {draft && (
+        <Box sx={{ mt: 3 }}>
+          <TextField
+            label="Rundown name"
+            size="small"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            sx={{ minWidth: 260, mb: 2 }}
+          />
+          <Stack spacing={2}>
+            {draft.segments.map((segment, index) => (
+              <Box key={segment.id ?? index} sx={{ p: 2, borderRadius: 2, bgcolor: 'rgba(255, 255, 255, 0.05)' }}>
+                <Stack direction="row" spacing={2} alignItems="center">
+                  <Typography sx={{ fontWeight: 700 }}>{index + 1}.</Typography>
+                  <TextField
+                    label="Title"
+                    size="small"
+                    value={segment.title}
+                    onChange={(e) => updateSegment(index, { title: e.target.value })}
+                    sx={{ flexGrow: 1 }}
+                  />
+                  <FormControl size="small" sx={{ minWidth: 180 }}>
+                    <InputLabel>Game Type</InputLabel>
+                    <Select
+                      value={segment.gameType}
+                      label="Game Type"
+                      onChange={(e) => updateSegment(index, { gameType: e.target.value as GameType })}
+                    >
+                      {(Object.keys(GAME_TYPE_LABELS) as GameType[]).map(type => (
+                        <MenuItem key={type} value={type}>{GAME_TYPE_LABELS[type]}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <TextField
+                    label="Timer (s)"
+                    size="small"
+                    type="number"
+                    value={segment.timerSeconds ?? ''}
+                    onChange={(e) => updateSegment(index, { timerSeconds: e.target.value === '' ? null : Number(e.target.value) })}
+                    sx={{ width: 110 }}
+                  />
+                  <IconButton size="small" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                    <ArrowUpwardIcon fontSize="small" />
+                  </IconButton>
+                  <IconButton size="small" disabled={index === draft.segments.length - 1} onClick={() => handleMove(index, 1)}>
+                    <ArrowDownwardIcon fontSize="small" />
+                  </IconButton>
+                  <IconButton size="small" color="error" onClick={() => handleRemoveSegment(index)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Stack>
+                {usesSingleQuestion(segment.gameType) && (
+                  <Stack direction="row" spacing={2} alignItems="center" sx={{ mt: 2 }}>
+                    <TextField
+                      label="Question"
+                      size="small"
+                      value={segment.questionText ?? ''}
+                      onChange={(e) => updateSegment(index, { questionText: e.target.value })}
+                      sx={{ flexGrow: 1 }}
+                    />
+                    <TextField
+                      label={segment.gameType === 'numeric' ? 'Correct value' : 'Answer'}
+                      size="small"
+                      type={segment.gameType === 'numeric' ? 'number' : 'text'}
+                      value={segment.correctAnswer ?? ''}
+                      onChange={(e) => updateSegment(index, { correctAnswer: e.target.value })}
+                      sx={{ width: 180 }}
+                    />
+                  </Stack>
+                )}
+                <Stack direction="row" spacing={2} alignItems="center" sx={{ mt: 2 }}>
+                  {usesQuestionBank(segment.gameType) && (
+                    <>
+                      <Typography variant="body2" color="text.secondary">
+                        {segment.questions.length} questions
+                      </Typography>
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        onClick={() => updateSegment(index, { questions, packId: questionPackId })}
+                        disabled={questions.length === 0}
+                      >
+                        Use Loaded Questions
+                      </Button>
+                    </>
+                  )}
+                  <Typography variant="body2" color="text.secondary">
+                    {segment.scoringRules
+                      ? `Scoring: ${segment.scoringRules.pointsCorrect} right / -${segment.scoringRules.penaltyWrong} wrong`
+                      : 'Scoring: unchanged'}
+                  </Typography>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    onClick={() => updateSegment(index, { scoringRules: scoringRules ?? null })}
+                    disabled={!scoringRules}
+                  >
+                    Use Current Scoring
+                  </Button>
+                  {segment.scoringRules && (
+                    <Button size="small" onClick={() => updateSegment(index, { scoringRules: null })}>
+                      Keep Scoring As Is
+                    </Button>
+                  )}
+                </Stack>
+                <Stack direction="row" spacing={2} alignItems="center" sx={{ mt: 2 }}>
+                  <Typography variant="body2" color="text.secondary">
+                    {segment.automationRules
+                      ? `Automation: ${segment.automationRules.length} rule${segment.automationRules.length === 1 ? '' : 's'}`
+                      : 'Automation: unchanged'}
+                  </Typography>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    onClick={() => updateSegment(index, { automationRules })}
+                  >
+                    Use Current Automation
+                  </Button>
+                  {segment.automationRules && (
+                    <Button size="small" onClick={() => updateSegment(index, { automationRules: null })}>
+                      Keep Automation As Is
+                    </Button>
+                  )}
+                </Stack>
+                <TextField
+                  label="Host notes"
+                  size="small"
+                  fullWidth
+                  multiline
+                  value={segment.notes ?? ''}
+                  onChange={(e) => updateSegment(index, { notes: e.target.value })}
+                  sx={{ mt: 2 }}
+                />
+              </Box>
+            ))}
+          </Stack>
+          <Stack direction="row" spacing={2} sx={{ mt: 2 }}>
+            <Button
+              variant="outlined"
+              onClick={() => setDraft({ ...draft, segments: [...draft.segments, captureSegment(`Segment ${draft.segments.length + 1}`)] })}
+              sx={{ minHeight: 36 }}
+            >
+              Add Segment From Current Setup
+            </Button>
+            <Button
+              variant="contained"
+              onClick={handleSave}
+              disabled={!draft.name.trim() || draft.segments.length === 0 || draft.segments.some(s => !s.title.trim())}
+              sx={{ minHeight: 36 }}
+            >
+              Save Rundown
+            </Button>
+            <Button onClick={() => setDraft(null)} sx={{ minHeight: 36 }}>
+              Cancel
+            </Button>
+          </Stack>
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default RundownPanel;
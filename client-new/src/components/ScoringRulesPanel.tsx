@@ -0,0 +1,77 @@
+import React from 'react';
+import { Stack, TextField, Typography } from '@mui/material';
+
+export interface ScoringRules {
+  pointsCorrect: number;
+  penaltyWrong: number;
+  speedBonus: number[];
+  placementPoints: number[];
+  noGoingOver: boolean;
+  tieMode: 'share' | 'split' | 'fastest';
+}
+
+interface ScoringRulesPanelProps {
+  rules: ScoringRules;
+  onChange: (rules: Partial<ScoringRules>) => void;
+}
+
+// Round scoring the server applies on reveal and on buzz judgements.
+// Fields commit on blur and re-key on server updates so they always show the live rules.
+const ScoringRulesPanel: React.FC<ScoringRulesPanelProps> = ({ rules, onChange }) => {
+  const commitNumber = (field: 'pointsCorrect' | 'penaltyWrong', value: string) => {
+    const points = parseInt(value, 10);
+    if (!isNaN(points) && points !== rules[field]) {
+      onChange({ [field]: points });
+    }
+  };
+
+  const commitSpeedBonus = (value: string) => {
+    const speedBonus = value
+      .split(',')
+      .map(item => parseInt(item.trim(), 10))
+      .filter(points => !isNaN(points));
+    if (speedBonus.join(',') !== rules.speedBonus.join(',')) {
+      onChange({ speedBonus });
+    }
+  };
+
+  return (
+    <Stack direction="row" spacing={2} sx={{ mt: 3 }} alignItems="center">
+      <Typography variant="subtitle1" sx={{ fontWeight: 700 }}>
+        Scoring
+      </Typography>
+      <TextField
+        label="Points per correct"
+        type="number"
+        size="small"
+        key={`correct-${rules.pointsCorrect}`}
+        defaultValue={rules.pointsCorrect}
+        onBlur={(e) => commitNumber('pointsCorrect', e.target.value)}
+        sx={{ width: 160 }}
+      />
+      <TextField
+        label="Wrong answer penalty"
+        type="number"
+        size="small"
+        key={`penalty-${rules.penaltyWrong}`}
+        defaultValue={rules.penaltyWrong}
+        onBlur={(e) => commitNumber('penaltyWrong', e.target.value)}
+        sx={{ width: 180 }}
+      />
+      <TextField
+        label="Speed bonus (1st, 2nd, ...)"
+        size="small"
+        placeholder="e.g. 3, 2, 1"
+        key={`bonus-${rules.speedBonus.join(',')}`}
+        defaultValue={rules.speedBonus.join(', ')}
+        onBlur={(e) => commitSpeedBonus(e.target.value)}
+        sx={{ width: 220 }}
+      />
+      <Typography variant="body2" color="text.secondary">
+        A question's own points override the per-correct value
+      </Typography>
+    </Stack>
+  );
+};
+
+export default ScoringRulesPanel;
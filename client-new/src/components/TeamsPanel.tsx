@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { Team, TeamScoreMode } from '../utils/teams';
+
+interface TeamsPanelProps {
+  teams: Team[];
+  contestants: { id: string; teamId?: string | null }[];
+  scoreMode: TeamScoreMode;
+  buzzLockout: boolean;
+  onAddTeam: (name: string) => void;
+  onRenameTeam: (teamId: string, name: string) => void;
+  onRemoveTeam: (teamId: string) => void;
+  onUpdateTeamScore: (teamId: string, score: number) => void;
+  onScoreModeChange: (mode: TeamScoreMode) => void;
+  onBuzzLockoutChange: (enabled: boolean) => void;
+}
+
+// Team setup. Contestants are assigned from their row in the contestant list;
+// names and scores commit on blur and re-key on server updates like the scoring panel
+const TeamsPanel: React.FC<TeamsPanelProps> = ({
+  teams,
+  contestants,
+  scoreMode,
+  buzzLockout,
+  onAddTeam,
+  onRenameTeam,
+  onRemoveTeam,
+  onUpdateTeamScore,
+  onScoreModeChange,
+  onBuzzLockoutChange,
+}) => {
+  const [newTeamName, setNewTeamName] = useState('');
+
+  const handleAdd = () => {
+    if (!newTeamName.trim()) return;
+    onAddTeam(newTeamName.trim());
+    setNewTeamName('');
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: 3, mb: 3 }}>
+      <Typography variant="h4" gutterBottom>
+        Teams
+      </Typography>
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <TextField
+          label="Team Name"
+          value={newTeamName}
+          onChange={(e) => setNewTeamName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              handleAdd();
+            }
+          }}
+          size="small"
+          sx={{ flexGrow: 1 }}
+        />
+        <Button variant="contained" startIcon={<AddIcon />} onClick={handleAdd} size="small" sx={{ minHeight: 40, minWidth: 80 }}>
+          Add
+        </Button>
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel>Team score</InputLabel>
+          <Select
+            value={scoreMode}
+            label="Team score"
+            onChange={(e) => onScoreModeChange(e.target.value as TeamScoreMode)}
+          >
+            <MenuItem value="sum">Sum of members</MenuItem>
+            <MenuItem value="separate">Tracked separately</MenuItem>
+          </Select>
+        </FormControl>
+        <FormControlLabel
+          control={<Switch checked={buzzLockout} onChange={(e) => onBuzzLockoutChange(e.target.checked)} />}
+          label="First buzz locks out teammates"
+        />
+      </Stack>
+      {teams.length > 0 ? (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Team</TableCell>
+              <TableCell align="center">Members</TableCell>
+              <TableCell align="center">Score</TableCell>
+              <TableCell align="right" />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {teams.map(team => (
+              <TableRow key={team.id}>
+                <TableCell>
+                  <TextField
+                    size="small"
+                    key={`name-${team.name}`}
+                    defaultValue={team.name}
+                    onBlur={(e) => {
+                      if (e.target.value.trim() && e.target.value.trim() !== team.name) {
+                        onRenameTeam(team.id, e.target.value.trim());
+                      }
+                    }}
+                  />
+                </TableCell>
+                <TableCell align="center">{contestants.filter(c => c.teamId === team.id).length}</TableCell>
+                <TableCell align="center">
+                  {scoreMode === 'separate' ? (
+                    <TextField
+                      type="number"
+                      size="small"
+                      key={`score-${team.score}`}
+                      defaultValue={team.score}
+                      onBlur={(e) => {
+                        const score = parseInt(e.target.value, 10);
+                        if (!isNaN(score) && score !== team.score) {
+                          onUpdateTeamScore(team.id, score);
+                        }
+                      }}
+                      sx={{ width: 100 }}
+                    />
+                  ) : (
+                    team.score
+                  )}
+                </TableCell>
+                <TableCell align="right">
+                  <IconButton aria-label="delete team" onClick={() => onRemoveTeam(team.id)}>
+                    <DeleteIcon />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <Typography variant="body2" color="text.secondary">
+          No teams yet. Contestants play individually until you add one.
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default TeamsPanel;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { formatTimerMs, getChessBankMs, TimerState } from '../utils/timer';
+
+interface TimerBreakdownProps {
+  timer?: TimerState;
+  contestants: { id: string; name: string }[];
+  highlightId?: string; // the contestant viewing, on their own screen
+  onSelect?: (contestantId: string) => void; // admin: give this contestant the chess clock
+  large?: boolean;
+}
+
+// Per-contestant times under the main clock: stopwatch splits fastest first, or every chess clock bank.
+// Call it from a component that re-renders while the timer runs (useTimerDisplayMs)
+const TimerBreakdown: React.FC<TimerBreakdownProps> = ({ timer, contestants, highlightId, onSelect, large = false }) => {
+  const nameOf = (id: string) => contestants.find(c => c.id === id)?.name ?? 'Unknown';
+  const fontSize = large ? '1.75rem' : '1rem';
+
+  if (timer?.mode === 'stopwatch' && timer.splits.length > 0) {
+    const splits = [...timer.splits].sort((a, b) => a.elapsedMs - b.elapsedMs);
+    return (
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'auto auto', columnGap: 3, rowGap: 0.5, mt: 2 }}>
+        {splits.map(split => (
+          <React.Fragment key={split.contestantId}>
+            <Typography sx={{ fontSize, fontWeight: split.contestantId === highlightId ? 700 : 400 }}>
+              {nameOf(split.contestantId)}
+            </Typography>
+            <Typography sx={{ fontSize, fontFamily: 'monospace, monospace', textAlign: 'right' }}>
+              {formatTimerMs(split.elapsedMs, false)}
+            </Typography>
+          </React.Fragment>
+        ))}
+      </Box>
+    );
+  }
+
+  if (timer?.mode === 'chess-clock') {
+    return (
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1.5, justifyContent: 'center', mt: 2 }}>
+        {contestants.map(contestant => {
+          const onTurn = contestant.id === timer.activeContestantId;
+          const bankMs = getChessBankMs(timer, contestant.id);
+          return (
+            <Box
+              key={contestant.id}
+              onClick={onSelect ? () => onSelect(contestant.id) : undefined}
+              sx={{
+                px: 2,
+                py: 1,
+                borderRadius: 2,
+                border: 2,
+                borderColor: onTurn ? 'primary.main' : 'transparent',
+                bgcolor: contestant.id === highlightId ? 'rgba(250, 191, 71, 0.15)' : 'rgba(255, 255, 255, 0.05)',
+                cursor: onSelect ? 'pointer' : 'default',
+                textAlign: 'center',
+              }}
+            >
+              <Typography sx={{ fontSize, fontWeight: onTurn ? 700 : 400 }}>{contestant.name}</Typography>
+              <Typography sx={{ fontSize, fontFamily: 'monospace, monospace', color: bankMs === 0 ? 'error.main' : 'inherit' }}>
+                {formatTimerMs(bankMs)}
+              </Typography>
+            </Box>
+          );
+        })}
+      </Box>
+    );
+  }
+
+  return null;
+};
+
+export default TimerBreakdown;
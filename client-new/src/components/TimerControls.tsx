@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import TimerBreakdown from './TimerBreakdown';
+import { formatTimerMs, isTimerStarted, MAIN_TIMER_ID, NamedTimer, TimerMode, useTimerDisplayMs } from '../utils/timer';
+
+interface TimerControlsProps {
+  timer: NamedTimer;
+  contestants: { id: string; name: string }[];
+  onStart: (seconds: number) => void;
+  onStop: () => void;
+  onResume: () => void;
+  onReset: () => void;
+  onDurationChange: (seconds: number) => void;
+  onModeChange: (mode: TimerMode) => void;
+  onSetChessTurn: (contestantId: string) => void;
+  onRename: (name: string) => void;
+  onRemove: () => void;
+}
+
+// One of the room's timers: its mode, length, start/stop/resume/reset and the per-contestant breakdown.
+// The length fields are local until changed, like they were when the room had a single timer
+const TimerControls: React.FC<TimerControlsProps> = ({
+  timer,
+  contestants,
+  onStart,
+  onStop,
+  onResume,
+  onReset,
+  onDurationChange,
+  onModeChange,
+  onSetChessTurn,
+  onRename,
+  onRemove,
+}) => {
+  const [timerMinutes, setTimerMinutes] = useState<string>('1');
+  const [timerSeconds, setTimerSeconds] = useState<string>('0');
+  const timerMode = timer.mode;
+  const timerStarted = isTimerStarted(timer);
+  const timerDisplayMs = useTimerDisplayMs(timer);
+
+  const totalSeconds = (minutes: string, seconds: string) => (parseInt(minutes) || 0) * 60 + (parseInt(seconds) || 0);
+
+  const handleMinutesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setTimerMinutes(value);
+    const minutes = parseInt(value);
+    if (!isNaN(minutes) && minutes >= 0) {
+      onDurationChange(totalSeconds(value, timerSeconds));
+    }
+  };
+
+  const handleSecondsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Only allow 0-59
+    if (value !== '' && (!/^[0-9]+$/.test(value) || parseInt(value) > 59)) {
+      return;
+    }
+    setTimerSeconds(value);
+    const seconds = parseInt(value);
+    if (!isNaN(seconds) && seconds >= 0 && seconds <= 59) {
+      onDurationChange(totalSeconds(timerMinutes, value));
+    }
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+      <Stack direction="row" alignItems="center" sx={{ mb: 2, flexWrap: 'wrap', gap: 2 }}>
+        <TextField
+          label="Timer Name"
+          size="small"
+          key={`name-${timer.name}`}
+          defaultValue={timer.name}
+          onBlur={(e) => {
+            if (e.target.value.trim() && e.target.value.trim() !== timer.name) {
+              onRename(e.target.value.trim());
+            }
+          }}
+          sx={{ width: 160 }}
+        />
+        <FormControl sx={{ minWidth: 160 }}>
+          <InputLabel>Timer Mode</InputLabel>
+          <Select value={timerMode} label="Timer Mode" onChange={(e) => onModeChange(e.target.value as TimerMode)}>
+            <MenuItem value="countdown">Countdown</MenuItem>
+            <MenuItem value="stopwatch">Stopwatch</MenuItem>
+            <MenuItem value="chess-clock">Chess Clock</MenuItem>
+          </Select>
+        </FormControl>
+        {timerMode !== 'stopwatch' && (
+          <>
+            <TextField
+              label={timerMode === 'chess-clock' ? 'Minutes each' : 'Minutes'}
+              type="number"
+              value={timerMinutes}
+              onChange={handleMinutesChange}
+              sx={{ width: 120 }}
+              inputProps={{ min: 0 }}
+            />
+            <TextField
+              label="Seconds"
+              type="number"
+              value={timerSeconds}
+              onChange={handleSecondsChange}
+              sx={{ width: 120 }}
+              inputProps={{ min: 0, max: 59 }}
+            />
+          </>
+        )}
+        <Button
+          variant="contained"
+          color="primary"
+          onClick={() => onStart(totalSeconds(timerMinutes, timerSeconds))}
+          sx={{
+            minHeight: 36,
+            minWidth: 120
+          }}
+        >
+          {timerMode === 'stopwatch' ? 'Start Stopwatch' : timerMode === 'chess-clock' ? 'Start Chess Clock' : 'Start Timer'}
+        </Button>
+        {timerStarted && (
+          <Button
+            variant="contained"
+            color={timer.running ? "error" : "success"}
+            onClick={timer.running ? onStop : onResume}
+            sx={{
+              minHeight: 36,
+              minWidth: 120
+            }}
+          >
+            {timer.running ? 'Stop Timer' : (timerMode === 'stopwatch' || (timerDisplayMs || 0) > 0 ? 'Resume Timer' : 'Stop Timer')}
+          </Button>
+        )}
+        {timerStarted && (
+          <Button variant="outlined" onClick={onReset} sx={{ minHeight: 36 }}>
+            Reset
+          </Button>
+        )}
+        {timerDisplayMs !== undefined && (
+          <Typography variant="h4" sx={{ ml: 2, fontFamily: 'monospace, monospace', color: timer.running ? 'text.primary' : 'text.secondary' }}>
+            {formatTimerMs(timerDisplayMs, timerMode !== 'stopwatch')}
+          </Typography>
+        )}
+        {timer.id !== MAIN_TIMER_ID && (
+          <Tooltip title="Remove this timer">
+            <IconButton onClick={onRemove} color="error" sx={{ ml: 'auto' }}>
+              <DeleteIcon />
+            </IconButton>
+          </Tooltip>
+        )}
+      </Stack>
+      {timerMode === 'chess-clock' && (
+        <Typography variant="body2" color="text.secondary">
+          Click a contestant to give them the clock; contestants can also pass it on from their own screen.
+        </Typography>
+      )}
+      <Box>
+        <TimerBreakdown timer={timer} contestants={contestants} onSelect={timerMode === 'chess-clock' ? onSetChessTurn : undefined} />
+      </Box>
+    </Paper>
+  );
+};
+
+export default TimerControls;
@@ -1,22 +1,21 @@
 import React from 'react';
-import { Box, Typography, Card } from '@mui/material';
+import { Box, Button, Typography, Card } from '@mui/material';
+import TimerBreakdown from './TimerBreakdown';
+import { formatTimerMs, isTimerExpired, TimerState, useTimerDisplayMs } from '../utils/timer';
 
 interface TimerOnlyProps {
-  timerRemaining?: number;
-  timerRunning?: boolean;
-  timerDuration?: number;
+  timer?: TimerState;
+  contestants?: { id: string; name: string }[];
+  contestantId?: string; // set on a contestant's own screen
+  onPassTurn?: () => void;
+  title?: string; // e.g. the timer's name when it isn't the main one
 }
 
-const TimerOnly: React.FC<TimerOnlyProps> = ({ timerRemaining, timerRunning, timerDuration }) => {
-  const formatTime = (seconds: number | undefined): string => {
-    if (seconds === undefined) return '00:00';
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-  };
-
-  // Show timerDuration when timer is not running, otherwise show timerRemaining
-  const displayTime = timerRunning ? timerRemaining : timerDuration;
+const TimerOnly: React.FC<TimerOnlyProps> = ({ timer, contestants = [], contestantId, onPassTurn, title }) => {
+  // Counts locally from the server's start or end time; the server only sends state changes
+  const displayTime = useTimerDisplayMs(timer);
+  const timeUp = isTimerExpired(timer);
+  const onTurn = timer?.mode === 'chess-clock' ? contestants.find(c => c.id === timer.activeContestantId) : undefined;
 
   return (
     <Box
@@ -39,24 +38,34 @@ const TimerOnly: React.FC<TimerOnlyProps> = ({ timerRemaining, timerRunning, tim
           minWidth: 320,
           maxWidth: '90vw',
           minHeight: 120,
-          maxHeight: '60vh',
+          maxHeight: '80vh',
           display: 'flex',
           flexDirection: 'column',
           alignItems: 'center',
           justifyContent: 'center',
         }}
       >
+        {title && (
+          <Typography variant="h5" sx={{ color: '#fff8', fontWeight: 'bold', textTransform: 'uppercase', mb: 1 }}>
+            {title}
+          </Typography>
+        )}
+        {onTurn && (
+          <Typography variant="h4" sx={{ color: '#fff', fontWeight: 'bold', mb: 1 }}>
+            {onTurn.name}
+          </Typography>
+        )}
         <Typography
           sx={{
             fontSize: { xs: '2.5rem', sm: '4rem', md: '5rem' },
             fontWeight: 'bold',
-            color: !timerRunning && displayTime === 0 ? '#ff4444' : '#fff',
-            textShadow: !timerRunning && displayTime === 0 ? '0 0 20px #ff4444' : '0 0 20px #fff8',
+            color: timeUp ? '#ff4444' : '#fff',
+            textShadow: timeUp ? '0 0 20px #ff4444' : '0 0 20px #fff8',
             fontFamily: 'monospace, monospace',
             textAlign: 'center',
             userSelect: 'none',
             mb: 2,
-            animation: !timerRunning && displayTime === 0 ? 'pulse 1s infinite' : undefined,
+            animation: timeUp ? 'pulse 1s infinite' : undefined,
             '@keyframes pulse': {
               '0%': { opacity: 1 },
               '50%': { opacity: 0.5 },
@@ -64,9 +73,9 @@ const TimerOnly: React.FC<TimerOnlyProps> = ({ timerRemaining, timerRunning, tim
             },
           }}
         >
-          {formatTime(displayTime)}
+          {formatTimerMs(displayTime, timer?.mode !== 'stopwatch')}
         </Typography>
-        {!timerRunning && displayTime === 0 && (
+        {timeUp && (
           <Typography
             variant="h5"
             sx={{
@@ -82,9 +91,15 @@ const TimerOnly: React.FC<TimerOnlyProps> = ({ timerRemaining, timerRunning, tim
               },
             }}
           >
-            TIME'S UP!
+            {onTurn ? `${onTurn.name.toUpperCase()} IS OUT OF TIME!` : "TIME'S UP!"}
           </Typography>
         )}
+        <TimerBreakdown timer={timer} contestants={contestants} highlightId={contestantId} large />
+        {onTurn && timer?.running && onTurn.id === contestantId && onPassTurn && (
+          <Button variant="contained" size="large" onClick={onPassTurn} sx={{ mt: 3, minHeight: 48 }}>
+            Done: Pass the Clock
+          </Button>
+        )}
       </Card>
     </Box>
   );
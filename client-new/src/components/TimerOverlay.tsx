@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { io } from 'socket.io-client';
+import { config } from '../utils/config';
+import { subscribeToGameState } from '../utils/gameStateSync';
+import { enableClockSync, recordServerTime } from '../utils/serverClock';
+import TimerOnly from './TimerOnly';
+import { MAIN_TIMER_ID, NamedTimer, pickTimer } from '../utils/timer';
+
+interface TimerOverlayState {
+  contestants?: { id: string; name: string }[];
+  timers?: NamedTimer[];
+  serverTime?: number;
+}
+
+interface TimerOverlayProps {
+  roomId: string;
+  timerId?: string; // by id or name; the main timer otherwise
+}
+
+// Browser source for OBS: one of the room's timers full screen, so a shot clock can sit beside the segment clock
+const TimerOverlay: React.FC<TimerOverlayProps> = ({ roomId, timerId }) => {
+  const [state, setState] = useState<TimerOverlayState>({});
+
+  useEffect(() => {
+    const socket = io(config.websocketUrl, {
+      reconnection: true,
+      reconnectionDelay: 1000
+    });
+    socket.on('connect', () => {
+      socket.emit('join', { roomId });
+    });
+    enableClockSync(socket);
+    subscribeToGameState<TimerOverlayState>(socket, (next) => {
+      if (next.serverTime) {
+        recordServerTime(next.serverTime);
+      }
+      setState(next);
+    });
+    return () => {
+      socket.close();
+    };
+  }, [roomId]);
+
+  const timer = pickTimer(state.timers, timerId);
+
+  return (
+    <TimerOnly
+      timer={timer}
+      contestants={state.contestants}
+      title={timer && timer.id !== MAIN_TIMER_ID ? timer.name : undefined}
+    />
+  );
+};
+
+export default TimerOverlay;
@@ -0,0 +1,136 @@
+import React from 'react';
+import {
+  Button,
+  ButtonGroup,
+  Chip,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+
+export type WagerPhase = 'wagering' | 'answering' | 'revealing';
+
+export interface WagerRound {
+  phase: WagerPhase;
+  wagers: Record<string, number>;
+  revealed: string[];
+  results: Record<string, boolean>;
+}
+
+interface WagerRoundPanelProps {
+  contestants: { id: string; name: string; score: number }[];
+  wagerRound: WagerRound;
+  answers: Record<string, string>;
+  question: string;
+  correctAnswer: string | null;
+  onQuestionChange: (question: string) => void;
+  onCorrectAnswerChange: (answer: string) => void;
+  onSetPhase: (phase: WagerPhase) => void;
+  onReveal: (contestantId: string, correct: boolean) => void;
+}
+
+// Host side of the wager round. Bets show here in full; overlays and contestants only
+// learn a bet when the host reveals that contestant.
+const WagerRoundPanel: React.FC<WagerRoundPanelProps> = ({
+  contestants,
+  wagerRound,
+  answers,
+  question,
+  correctAnswer,
+  onQuestionChange,
+  onCorrectAnswerChange,
+  onSetPhase,
+  onReveal,
+}) => {
+  return (
+    <Paper elevation={3} sx={{ mb: 3, p: 2, bgcolor: 'background.paper' }}>
+      <Typography variant="h6" sx={{ mb: 2, fontWeight: 700 }}>
+        Wager Round
+      </Typography>
+      <TextField
+        label="Question"
+        value={question}
+        onChange={(e) => onQuestionChange(e.target.value)}
+        fullWidth
+        sx={{ mb: 2 }}
+      />
+      <TextField
+        label="Correct Answer (host only)"
+        key={correctAnswer ?? ''}
+        defaultValue={correctAnswer ?? ''}
+        onBlur={(e) => onCorrectAnswerChange(e.target.value)}
+        fullWidth
+        sx={{ mb: 2 }}
+      />
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <Typography variant="subtitle1">Phase:</Typography>
+        <ButtonGroup>
+          <Button variant={wagerRound.phase === 'wagering' ? 'contained' : 'outlined'} onClick={() => onSetPhase('wagering')}>
+            1. Wagers
+          </Button>
+          <Button variant={wagerRound.phase === 'answering' ? 'contained' : 'outlined'} onClick={() => onSetPhase('answering')}>
+            2. Answers
+          </Button>
+          <Button variant={wagerRound.phase === 'revealing' ? 'contained' : 'outlined'} onClick={() => onSetPhase('revealing')}>
+            3. Reveal
+          </Button>
+        </ButtonGroup>
+      </Stack>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Contestant</TableCell>
+            <TableCell align="center">Score</TableCell>
+            <TableCell align="center">Wager</TableCell>
+            <TableCell align="center">Answer</TableCell>
+            <TableCell align="center">Reveal</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {contestants.map(c => {
+            const isRevealed = wagerRound.revealed.includes(c.id);
+            const wager = wagerRound.wagers[c.id];
+            return (
+              <TableRow key={c.id}>
+                <TableCell>{c.name}</TableCell>
+                <TableCell align="center">{c.score}</TableCell>
+                <TableCell align="center">
+                  {wager !== undefined ? wager : <Typography variant="body2" color="text.secondary">—</Typography>}
+                </TableCell>
+                <TableCell align="center">
+                  {answers[c.id] || <Typography variant="body2" color="text.secondary">—</Typography>}
+                </TableCell>
+                <TableCell align="center">
+                  {isRevealed ? (
+                    <Chip
+                      label={wagerRound.results[c.id] ? `Correct (+${wager ?? 0})` : `Incorrect (-${wager ?? 0})`}
+                      color={wagerRound.results[c.id] ? 'success' : 'error'}
+                      size="small"
+                    />
+                  ) : (
+                    <Stack direction="row" spacing={1} justifyContent="center">
+                      <Button size="small" variant="contained" color="success" onClick={() => onReveal(c.id, true)} disabled={wagerRound.phase === 'wagering'}>
+                        Correct
+                      </Button>
+                      <Button size="small" variant="contained" color="error" onClick={() => onReveal(c.id, false)} disabled={wagerRound.phase === 'wagering'}>
+                        Incorrect
+                      </Button>
+                    </Stack>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+};
+
+export default WagerRoundPanel;
@@ -0,0 +1,20 @@
+// Admin session token handling for the admin panel. Kept in sessionStorage so it goes away with the tab
+const ADMIN_TOKEN_KEY = 'adminToken';
+
+export const getAdminToken = (): string | null => {
+  return sessionStorage.getItem(ADMIN_TOKEN_KEY);
+};
+
+export const setAdminToken = (token: string) => {
+  sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+};
+
+export const clearAdminToken = () => {
+  sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+};
+
+// Adds the admin credential to a fetch request
+export const adminHeaders = (headers: Record<string, string> = {}): Record<string, string> => {
+  const token = getAdminToken();
+  return token ? { ...headers, Authorization: `Bearer ${token}` } : headers;
+};
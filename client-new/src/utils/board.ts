@@ -0,0 +1,26 @@
+import { Question } from './questions';
+
+export interface BoardPosition {
+  category: number;
+  row: number;
+}
+
+// Contestants and overlays only get the value and whether the cell is gone; the admin panel also gets the question
+export interface BoardCell {
+  value: number;
+  used: boolean;
+  question?: Question;
+}
+
+export interface BoardCategory {
+  name: string;
+  cells: BoardCell[];
+}
+
+export interface Board {
+  categories: BoardCategory[];
+  activeCell: BoardPosition | null;
+}
+
+export const getBoardCell = (board: Board | undefined, position: BoardPosition | null | undefined): BoardCell | undefined =>
+  board && position ? board.categories[position.category]?.cells[position.row] : undefined;
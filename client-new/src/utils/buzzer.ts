@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { serverNow } from './serverClock';
+
+export type BuzzerState = 'closed' | 'armed' | 'open';
+
+// True until the server-clock lockout passes; re-renders once when it does
+export const useIsLockedOut = (lockedOutUntil?: number | null): boolean => {
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    if (!lockedOutUntil) return;
+    const remainingMs = lockedOutUntil - serverNow();
+    if (remainingMs <= 0) return;
+    const timeout = setTimeout(() => setTick(tick => tick + 1), remainingMs);
+    return () => clearTimeout(timeout);
+  }, [lockedOutUntil]);
+
+  return !!lockedOutUntil && lockedOutUntil > serverNow();
+};
@@ -0,0 +1,39 @@
+import { Socket } from 'socket.io-client';
+
+interface StatePatch {
+  baseVersion: number;
+  version: number;
+  serverTime: number;
+  changes: Record<string, any>;
+}
+
+// Keeps a local copy of the room state from the join snapshot plus versioned patches.
+// A patch that doesn't follow the version we hold means one was missed, so ask for a fresh snapshot.
+export const subscribeToGameState = <T extends object>(
+  socket: Socket,
+  onState: (state: T & { version: number; serverTime?: number }) => void
+) => {
+  let current: (T & { version: number; serverTime?: number }) | null = null;
+
+  socket.on('gameState', (snapshot: T & { version: number; serverTime?: number }) => {
+    current = snapshot;
+    onState(snapshot);
+  });
+
+  socket.on('gamePatch', (patch: StatePatch) => {
+    // The join snapshot is still on its way
+    if (!current) return;
+    if (patch.baseVersion !== current.version) {
+      console.warn(`Missed a state patch (have v${current.version}, got v${patch.baseVersion}->v${patch.version}), requesting snapshot`);
+      socket.emit('requestSnapshot');
+      return;
+    }
+    current = { ...current, ...patch.changes, version: patch.version, serverTime: patch.serverTime };
+    onState(current);
+  });
+
+  // Anything held from before a reconnect is stale; the rejoin brings a new snapshot
+  socket.on('disconnect', () => {
+    current = null;
+  });
+};
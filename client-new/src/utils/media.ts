@@ -0,0 +1,57 @@
+import { useEffect } from 'react';
+import { config } from './config';
+import { serverNow } from './serverClock';
+
+export type MediaKind = 'image' | 'audio' | 'video';
+
+export interface MediaRef {
+  id: string;
+  kind: MediaKind;
+  name?: string;
+}
+
+export interface MediaAsset extends MediaRef {
+  name: string;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+}
+
+// Host-controlled playback; while playing, the position runs on from startedAt on the server clock
+export interface MediaPlayback {
+  mediaId: string | null;
+  playing: boolean;
+  startedAt: number | null;
+  offsetMs: number;
+}
+
+export const mediaUrl = (ref: MediaRef) => `${config.apiUrl}/media/${encodeURIComponent(ref.id)}`;
+
+// Seconds into the clip right now
+export const getPlaybackPosition = (playback: MediaPlayback): number => {
+  const elapsed = playback.playing && playback.startedAt !== null ? serverNow() - playback.startedAt : 0;
+  return Math.max(0, playback.offsetMs + elapsed) / 1000;
+};
+
+// One element per file for the life of the page, so the browser fetches each file once, ahead of time
+const preloaded = new Map<string, HTMLImageElement | HTMLMediaElement>();
+
+export const usePreloadMedia = (refs: MediaRef[] | undefined) => {
+  const serialized = JSON.stringify(refs || []);
+  useEffect(() => {
+    (JSON.parse(serialized) as MediaRef[]).forEach(ref => {
+      if (preloaded.has(ref.id)) return;
+      if (ref.kind === 'image') {
+        const image = new Image();
+        image.src = mediaUrl(ref);
+        preloaded.set(ref.id, image);
+      } else {
+        const element = document.createElement(ref.kind);
+        element.preload = 'auto';
+        element.src = mediaUrl(ref);
+        element.load();
+        preloaded.set(ref.id, element);
+      }
+    });
+  }, [serialized]);
+};
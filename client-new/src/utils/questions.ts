@@ -0,0 +1,52 @@
+import { MediaRef } from './media';
+
+export interface Question {
+  id?: string; // set once the question is saved in a pack
+  question: string;
+  options: string[];
+  correctAnswer: string;
+  points?: number;
+  timer?: number; // seconds
+  category?: string;
+  notes?: string; // host only
+  media?: MediaRef; // picture, clip or video shown with the question
+  optionMedia?: (MediaRef | null)[]; // an image per option, in option order
+}
+
+// Board rounds play clues, answered on the buzz; the rest of the question bank is multiple choice
+export type QuestionKind = 'multiple-choice' | 'clue';
+
+export interface QuestionPackSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  kind: QuestionKind;
+  questionCount: number;
+  airedCount: number;
+}
+
+export interface QuestionPack {
+  id: string;
+  name: string;
+  kind: QuestionKind;
+  questions: Question[];
+  aired: Record<string, number>; // questionId -> when it first aired
+}
+
+// Mirrors the server's checks so the editor can flag problems before saving
+export function questionProblems(question: Question, kind: QuestionKind): string[] {
+  const problems: string[] = [];
+  if (!question.question.trim()) problems.push('Question text is missing');
+  const options = question.options.map(option => option.trim()).filter(option => option !== '');
+  if (kind === 'clue') {
+    if (!question.category?.trim()) problems.push('A board clue needs a category');
+  } else {
+    if (options.length < 2) problems.push('Needs at least 2 options');
+    if (new Set(options.map(option => option.toLowerCase())).size !== options.length) problems.push('Options must be unique');
+    if (!options.some(option => option === question.correctAnswer.trim())) problems.push('Pick the correct answer');
+  }
+  if (question.points !== undefined && !(question.points >= 0)) problems.push('Points must be zero or more');
+  if (question.timer !== undefined && !(question.timer >= 0)) problems.push('Timer must be zero or more');
+  return problems;
+}
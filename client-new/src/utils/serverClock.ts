@@ -0,0 +1,33 @@
+import { Socket } from 'socket.io-client';
+
+// Estimates the offset between this browser's clock and the server's so a
+// countdown from the server's endsAt lines up with every other screen.
+const MAX_SAMPLES = 10;
+let offsetSamples: number[] = [];
+let syncedOffsetMs: number | null = null;
+
+// serverTime - receivedAt undershoots the true offset by the one-way network delay,
+// so the largest recent sample is the closest estimate.
+export const recordServerTime = (serverTime: number) => {
+  offsetSamples = [...offsetSamples, serverTime - Date.now()].slice(-MAX_SAMPLES);
+};
+
+// Answers the server's clock pings; its round-trip estimate replaces the rough one above
+export const enableClockSync = (socket: Socket) => {
+  socket.on('clockSync:ping', (_serverTime: number, ack: (clientTime: number) => void) => {
+    ack(Date.now());
+  });
+  socket.on('clockSync:estimate', (estimate: { offsetMs: number; rttMs: number }) => {
+    // The server reports client minus server
+    syncedOffsetMs = -estimate.offsetMs;
+  });
+};
+
+export const getClockOffsetMs = (): number => {
+  if (syncedOffsetMs !== null) return syncedOffsetMs;
+  return offsetSamples.length > 0 ? Math.max(...offsetSamples) : 0;
+};
+
+export const serverNow = (): number => {
+  return Date.now() + getClockOffsetMs();
+};
@@ -0,0 +1,26 @@
+export interface Team {
+  id: string;
+  name: string;
+  score: number; // already totalled by the server in 'sum' mode
+}
+
+export type TeamScoreMode = 'sum' | 'separate';
+
+export interface TeamGroup<T> {
+  team: Team | null; // null for contestants without a team
+  members: T[];
+}
+
+// Scoreboard rows grouped under their team, in team order, with unassigned contestants last.
+// Without any teams this is a single headerless group, so boards look as they did before teams
+export const groupByTeam = <T extends { teamId?: string | null }>(contestants: T[], teams: Team[] = []): TeamGroup<T>[] => {
+  const groups: TeamGroup<T>[] = teams.map(team => ({
+    team,
+    members: contestants.filter(c => c.teamId === team.id),
+  }));
+  const unassigned = contestants.filter(c => !teams.some(team => team.id === c.teamId));
+  if (unassigned.length > 0) {
+    groups.push({ team: null, members: unassigned });
+  }
+  return groups;
+};
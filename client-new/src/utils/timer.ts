@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { serverNow } from './serverClock';
+
+export type TimerMode = 'countdown' | 'stopwatch' | 'chess-clock';
+
+export interface TimerSplit {
+  contestantId: string;
+  elapsedMs: number;
+  source: 'buzz' | 'answer';
+}
+
+export interface TimerState {
+  mode: TimerMode;
+  durationMs: number | null;
+  running: boolean;
+  endsAt: number | null;
+  pausedRemainingMs: number | null;
+  startedAt: number | null;
+  pausedElapsedMs: number | null;
+  splits: TimerSplit[];
+  banks: Record<string, number>;
+  activeContestantId: string | null;
+}
+
+// Rooms run several named timers; views show the main one unless told otherwise
+export const MAIN_TIMER_ID = 'main';
+
+export interface NamedTimer extends TimerState {
+  id: string;
+  name: string;
+}
+
+const timerSlug = (name: string) => name.trim().toLowerCase().replace(/\s+/g, '-');
+
+// The timer a view was pointed at by id or name (?timer=shot-clock finds "Shot Clock"), falling back to the main one
+export const pickTimer = (timers: NamedTimer[] | undefined, idOrName?: string | null): NamedTimer | undefined => {
+  if (!timers || timers.length === 0) return undefined;
+  if (idOrName) {
+    const match = timers.find(t => t.id === idOrName) ?? timers.find(t => timerSlug(t.name) === timerSlug(idOrName));
+    if (match) return match;
+  }
+  return timers.find(t => t.id === MAIN_TIMER_ID) ?? timers[0];
+};
+
+// Whether the timer has been started since it was last reset, running or not
+export const isTimerStarted = (timer?: TimerState): boolean => {
+  if (!timer) return false;
+  if (timer.running) return true;
+  if (timer.mode === 'stopwatch') return timer.pausedElapsedMs !== null;
+  if (timer.mode === 'chess-clock') return Object.keys(timer.banks).length > 0;
+  return timer.pausedRemainingMs !== null;
+};
+
+// Time left on a contestant's chess clock; only the one on turn counts down
+export const getChessBankMs = (timer: TimerState, contestantId: string): number => {
+  if (timer.running && timer.endsAt !== null && timer.activeContestantId === contestantId) {
+    return Math.max(0, timer.endsAt - serverNow());
+  }
+  return timer.banks[contestantId] ?? timer.durationMs ?? 0;
+};
+
+// Time left on the clock, or undefined if no timer has been set up.
+// A stopwatch shows the time so far; a chess clock shows whoever is on turn
+export const getTimerDisplayMs = (timer?: TimerState): number | undefined => {
+  if (!timer) return undefined;
+  if (timer.mode === 'stopwatch') {
+    if (timer.running && timer.startedAt !== null) return Math.max(0, serverNow() - timer.startedAt);
+    return timer.pausedElapsedMs ?? 0;
+  }
+  if (timer.mode === 'chess-clock') {
+    return timer.activeContestantId ? getChessBankMs(timer, timer.activeContestantId) : timer.durationMs ?? undefined;
+  }
+  if (timer.running && timer.endsAt !== null) {
+    return Math.max(0, timer.endsAt - serverNow());
+  }
+  return timer.pausedRemainingMs ?? timer.durationMs ?? undefined;
+};
+
+export const isTimerExpired = (timer?: TimerState): boolean => {
+  if (!timer || timer.running || timer.mode === 'stopwatch') return false;
+  if (timer.mode === 'chess-clock') {
+    return !!timer.activeContestantId && timer.banks[timer.activeContestantId] === 0;
+  }
+  return timer.pausedRemainingMs === 0;
+};
+
+// Re-renders every frame-ish while the timer runs so the local count stays smooth
+export const useTimerDisplayMs = (timer?: TimerState): number | undefined => {
+  const [, setTick] = useState(0);
+  const running = !!timer?.running;
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setTick(tick => tick + 1), 50);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  return getTimerDisplayMs(timer);
+};
+
+// MM:SS.t. Countdowns round up so the display only reads zero once time is actually up;
+// a stopwatch rounds down so it never shows time that hasn't passed
+export const formatTimerMs = (milliseconds: number | undefined, roundUp: boolean = true): string => {
+  if (milliseconds === undefined) return '00:00.0';
+  const totalTenths = roundUp ? Math.ceil(milliseconds / 100) : Math.floor(milliseconds / 100);
+  const mins = Math.floor(totalTenths / 600);
+  const secs = Math.floor(totalTenths / 10) % 60;
+  const tenths = totalTenths % 10;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${tenths}`;
+};
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { config } from './config';
+import { adminHeaders, clearAdminToken, getAdminToken } from './adminAuth';
+
+// Tracks whether the server wants an admin password and whether we have one
+export const useAdminAuth = () => {
+  const [adminToken, setAdminToken] = useState<string | null>(getAdminToken());
+  const [authRequired, setAuthRequired] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    fetch(`${config.apiUrl}/api/admin/status`)
+      .then(response => response.json())
+      .then(data => setAuthRequired(!!data.authRequired))
+      .catch(error => {
+        console.error('Error checking admin auth status:', error);
+        setAuthRequired(true);
+      });
+  }, []);
+
+  // Revokes the session on the server too, so the token stops working even if it was copied
+  const logout = useCallback(() => {
+    if (getAdminToken()) {
+      fetch(`${config.apiUrl}/api/admin/logout`, { method: 'POST', headers: adminHeaders() })
+        .catch(error => console.error('Error logging out:', error));
+    }
+    clearAdminToken();
+    setAdminToken(null);
+  }, []);
+
+  return {
+    adminToken,
+    setAdminToken,
+    authRequired,
+    // Ready once we know the server's auth mode and hold a token if one is needed
+    isReady: authRequired === false || (authRequired === true && !!adminToken),
+    needsLogin: authRequired === true && !adminToken,
+    logout,
+  };
+};
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import { config } from './config';
+import { adminHeaders } from './adminAuth';
+import { MediaAsset } from './media';
+
+// The server's uploaded media, for pickers in the admin panel
+export const useMediaLibrary = (onUnauthorized: () => void) => {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [error, setError] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`${config.apiUrl}/api/media`, { headers: adminHeaders() });
+      if (response.status === 401) {
+        onUnauthorized();
+        return;
+      }
+      if (response.ok) setAssets(await response.json());
+    } catch (err) {
+      console.error('Error fetching media:', err);
+    }
+  }, [onUnauthorized]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // The file goes up as the raw request body
+  const upload = useCallback(async (file: File): Promise<MediaAsset | null> => {
+    setError('');
+    try {
+      const response = await fetch(`${config.apiUrl}/api/media?name=${encodeURIComponent(file.name)}`, {
+        method: 'POST',
+        headers: adminHeaders({ 'Content-Type': file.type || 'application/octet-stream' }),
+        body: file,
+      });
+      if (response.status === 401) {
+        onUnauthorized();
+        return null;
+      }
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Upload failed');
+        return null;
+      }
+      setAssets(current => [data, ...current]);
+      return data;
+    } catch (err) {
+      console.error('Error uploading media:', err);
+      setError('Upload failed');
+      return null;
+    }
+  }, [onUnauthorized]);
+
+  return { assets, upload, error, refresh };
+};
@@ -0,0 +1,55 @@
+import { after, test } from 'node:test';
+import assert from 'assert';
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import {
+  ADMIN_SESSION_TTL_MS,
+  createAdminSession,
+  isValidAdminPassword,
+  isValidAdminToken,
+  revokeAdminSession,
+} from './adminAuth';
+
+// Sessions are saved to a scratch directory instead of ./data
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adminauth-test-'));
+process.env.DATA_DIR = dataDir;
+process.env.ADMIN_PASSWORD = 'correct horse';
+after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+test('checks the admin password', () => {
+  assert.strictEqual(isValidAdminPassword('correct horse'), true);
+  assert.strictEqual(isValidAdminPassword('wrong'), false);
+  assert.strictEqual(isValidAdminPassword(''), false);
+  assert.strictEqual(isValidAdminPassword({ password: 'correct horse' }), false);
+});
+
+test('the password is not accepted as a session token', () => {
+  assert.strictEqual(isValidAdminToken('correct horse'), false);
+  assert.strictEqual(isValidAdminToken(undefined), false);
+});
+
+test('a new session token is valid until it expires', () => {
+  const now = Date.now();
+  const { token, expiresAt } = createAdminSession(now);
+  assert.strictEqual(expiresAt, now + ADMIN_SESSION_TTL_MS);
+  assert.strictEqual(isValidAdminToken(token, now), true);
+  assert.strictEqual(isValidAdminToken(token, expiresAt - 1), true);
+  assert.strictEqual(isValidAdminToken(token, expiresAt), false);
+});
+
+test('each login gets its own token', () => {
+  const first = createAdminSession();
+  const second = createAdminSession();
+  assert.notStrictEqual(first.token, second.token);
+});
+
+test('the raw token is never saved, and a revoked one stops working', () => {
+  const { token } = createAdminSession();
+  const saved = fs.readFileSync(path.join(dataDir, 'admin_sessions.json'), 'utf8');
+  assert.ok(!saved.includes(token));
+
+  assert.strictEqual(revokeAdminSession(token), true);
+  assert.strictEqual(isValidAdminToken(token), false);
+  assert.strictEqual(revokeAdminSession(token), false);
+});
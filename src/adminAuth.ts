@@ -0,0 +1,89 @@
+import crypto = require('crypto');
+import { StateStore } from './stateStore';
+
+// Admin credential comes from .env (ADMIN_PASSWORD). Without one every admin login is
+// rejected, unless ADMIN_AUTH_DISABLED=true opts out for local development.
+export function isAdminAuthDisabled(): boolean {
+  return !process.env.ADMIN_PASSWORD && process.env.ADMIN_AUTH_DISABLED === 'true';
+}
+
+export function isAdminAuthRequired(): boolean {
+  return !isAdminAuthDisabled();
+}
+
+const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+
+export function isValidAdminPassword(password: unknown): boolean {
+  const expected = process.env.ADMIN_PASSWORD;
+  if (!expected || typeof password !== 'string' || password.length === 0) {
+    return false;
+  }
+  // Compare digests so the check takes the same time regardless of where the strings differ
+  return crypto.timingSafeEqual(digest(expected), digest(password));
+}
+
+// A login hands out a random session token instead of the password, so a leaked token
+// expires on its own and can be revoked. Sessions are kept (as token digests) under DATA_DIR
+// so a restart mid-show doesn't log the host out
+export const ADMIN_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+let sessionStore: StateStore<Record<string, number>> | null = null;
+let sessions: Map<string, number> | null = null; // token digest -> expiresAt
+
+function getSessions(): Map<string, number> {
+  if (!sessions) {
+    sessionStore = new StateStore<Record<string, number>>('admin_sessions.json');
+    sessions = new Map(Object.entries(sessionStore.load() || {}));
+  }
+  return sessions;
+}
+
+function saveSessions(now: number = Date.now()) {
+  const current = getSessions();
+  current.forEach((expiresAt, key) => {
+    if (expiresAt <= now) current.delete(key);
+  });
+  sessionStore!.save(Object.fromEntries(current));
+}
+
+export function createAdminSession(now: number = Date.now()): { token: string; expiresAt: number } {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = now + ADMIN_SESSION_TTL_MS;
+  getSessions().set(digest(token).toString('hex'), expiresAt);
+  saveSessions(now);
+  return { token, expiresAt };
+}
+
+export function revokeAdminSession(token: unknown): boolean {
+  if (typeof token !== 'string' || !getSessions().delete(digest(token).toString('hex'))) {
+    return false;
+  }
+  saveSessions();
+  return true;
+}
+
+export function isValidAdminToken(token: unknown, now: number = Date.now()): boolean {
+  if (isAdminAuthDisabled()) {
+    return true;
+  }
+  if (!process.env.ADMIN_PASSWORD || typeof token !== 'string' || token.length === 0) {
+    return false;
+  }
+  const expiresAt = getSessions().get(digest(token).toString('hex'));
+  return expiresAt !== undefined && expiresAt > now;
+}
+
+export function getRequestToken(req: any): string | undefined {
+  const header = req.headers?.authorization;
+  if (typeof header === 'string' && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length);
+  }
+  return undefined;
+}
+
+export function requireAdmin(req: any, res: any, next: () => void) {
+  if (isValidAdminToken(getRequestToken(req))) {
+    return next();
+  }
+  res.status(401).json({ success: false, error: 'Admin authentication required' });
+}
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'assert';
+import { editDistance, normalizeAnswer, suggestMatch } from './answerMatching';
+
+test('normalizeAnswer strips accents, punctuation, case and a leading article', () => {
+  assert.strictEqual(normalizeAnswer('  The Café  Crème! '), 'cafe creme');
+  assert.strictEqual(normalizeAnswer('An Apple'), 'apple');
+  assert.strictEqual(normalizeAnswer('Theatre'), 'theatre');
+});
+
+test('editDistance counts a swapped pair of letters as one typo', () => {
+  assert.strictEqual(editDistance('paris', 'paris'), 0);
+  assert.strictEqual(editDistance('pairs', 'paris'), 1);
+  assert.strictEqual(editDistance('pari', 'paris'), 1);
+  assert.strictEqual(editDistance('', 'abc'), 3);
+});
+
+test('suggestMatch allows one typo per five characters', () => {
+  assert.deepStrictEqual(suggestMatch('paris!', 'Paris'), { match: true, distance: 0 });
+  assert.deepStrictEqual(suggestMatch('Pari', 'Paris'), { match: true, distance: 1 });
+  assert.deepStrictEqual(suggestMatch('Prais', 'Paris'), { match: true, distance: 1 });
+  assert.strictEqual(suggestMatch('Pa', 'Paris')?.match, false);
+  assert.strictEqual(suggestMatch('washingtn dc', 'Washington D.C.')?.match, true);
+  assert.strictEqual(suggestMatch('wshingtn d', 'Washington D.C.')?.match, false);
+});
+
+test('suggestMatch wants an exact match for short answers', () => {
+  assert.strictEqual(suggestMatch('cat', 'cat')?.match, true);
+  assert.strictEqual(suggestMatch('cot', 'cat')?.match, false);
+});
+
+test('suggestMatch has nothing to suggest without an expected answer', () => {
+  assert.strictEqual(suggestMatch('paris', null), null);
+  assert.strictEqual(suggestMatch('paris', ''), null);
+  assert.deepStrictEqual(suggestMatch('  ?! ', 'Paris'), { match: false, distance: 5 });
+});
@@ -0,0 +1,47 @@
+// Suggests whether a typed answer matches the expected one. The host makes the final call;
+// this only saves them reading every "Pari" and "paris!" by hand.
+export function normalizeAnswer(answer: string): string {
+  return answer
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // accents
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '') // punctuation
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '');
+}
+
+// Levenshtein distance that also counts a swapped pair of letters as one typo
+export function editDistance(a: string, b: string): number {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// One typo per five characters, none for very short answers where a typo changes the word
+function allowedTypos(expected: string): number {
+  return expected.length < 4 ? 0 : Math.max(1, Math.floor(expected.length / 5));
+}
+
+export interface AnswerMatch {
+  match: boolean;
+  distance: number;
+}
+
+export function suggestMatch(answer: string, expected: string | null): AnswerMatch | null {
+  if (!expected) return null;
+  const given = normalizeAnswer(answer);
+  const target = normalizeAnswer(expected);
+  if (!given) return { match: false, distance: target.length };
+  const distance = editDistance(given, target);
+  return { match: distance <= allowedTypos(target), distance };
+}
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'assert';
+import { AutomationRule, AutomationScheduler, describeAutomationRule, validateAutomationRules } from './automation';
+import { MAIN_TIMER_ID } from './timer';
+
+const rule = (overrides: Partial<AutomationRule>): AutomationRule => ({
+  id: 'rule',
+  trigger: 'timer-expired',
+  action: 'lock-answers',
+  delaySeconds: 0,
+  ...overrides
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('validateAutomationRules drops unknown triggers and actions and cleans delays', () => {
+  assert.deepStrictEqual(validateAutomationRules([
+    { id: 'keep', trigger: 'all-answered', action: 'reveal', delaySeconds: '3' },
+    { trigger: 'buzz-received', action: 'stop-timer', delaySeconds: -2, timerId: 'shot-clock' },
+    { trigger: 'buzz-received', action: 'self-destruct' },
+    null
+  ]), [
+    { id: 'keep', trigger: 'all-answered', action: 'reveal', delaySeconds: 3 },
+    { id: 'rule-2', trigger: 'buzz-received', action: 'stop-timer', delaySeconds: 0, timerId: 'shot-clock' }
+  ]);
+  assert.deepStrictEqual(validateAutomationRules({ trigger: 'all-answered' }), []);
+});
+
+test('describeAutomationRule reads as a sentence', () => {
+  assert.strictEqual(describeAutomationRule(rule({})), 'When time ran out, lock answers');
+  assert.strictEqual(describeAutomationRule(rule({ trigger: 'buzz-correct', action: 'next-question', delaySeconds: 5 })), 'When buzz judged correct, next question after 5s');
+});
+
+test('AutomationScheduler runs only the rules the trigger matches', () => {
+  const ran: string[] = [];
+  const scheduler = new AutomationScheduler(({ id }) => ran.push(id));
+  const rules = [
+    rule({ id: 'main' }),
+    rule({ id: 'shot', timerId: 'shot-clock' }),
+    rule({ id: 'answered', trigger: 'all-answered', action: 'reveal' })
+  ];
+
+  scheduler.fire(rules, 'timer-expired', MAIN_TIMER_ID);
+  scheduler.fire(rules, 'timer-expired', 'shot-clock');
+  scheduler.fire(rules, 'all-answered');
+  assert.deepStrictEqual(ran, ['main', 'shot', 'answered']);
+});
+
+test('AutomationScheduler holds delayed rules until they are due', async () => {
+  const ran: string[] = [];
+  const scheduler = new AutomationScheduler(({ id }) => ran.push(id));
+  scheduler.fire([rule({ id: 'later', trigger: 'all-answered', delaySeconds: 0.02 })], 'all-answered');
+
+  assert.deepStrictEqual(ran, []);
+  await wait(60);
+  assert.deepStrictEqual(ran, ['later']);
+});
+
+test('AutomationScheduler.cancelAll drops delayed rules that have not run', async () => {
+  const ran: string[] = [];
+  const scheduler = new AutomationScheduler(({ id }) => ran.push(id));
+  scheduler.fire([rule({ id: 'later', trigger: 'all-answered', delaySeconds: 0.02 })], 'all-answered');
+
+  scheduler.cancelAll();
+  await wait(60);
+  assert.deepStrictEqual(ran, []);
+});
@@ -0,0 +1,86 @@
+import { MAIN_TIMER_ID } from './timer';
+
+// Automation rules: "when X happens, do Y, optionally after a delay", for the follow-ups a host
+// would otherwise click every question, like locking answers when the clock runs out.
+export type AutomationTrigger = 'timer-expired' | 'all-answered' | 'buzz-received' | 'buzz-correct';
+export type AutomationAction = 'lock-answers' | 'reveal' | 'stop-timer' | 'next-question' | 'reset-buzzers' | 'close-buzzers';
+
+export interface AutomationRule {
+  id: string;
+  trigger: AutomationTrigger;
+  action: AutomationAction;
+  delaySeconds: number;
+  timerId?: string; // timer-expired and stop-timer: which timer; the main one otherwise
+}
+
+export const AUTOMATION_TRIGGERS: AutomationTrigger[] = ['timer-expired', 'all-answered', 'buzz-received', 'buzz-correct'];
+export const AUTOMATION_ACTIONS: AutomationAction[] = ['lock-answers', 'reveal', 'stop-timer', 'next-question', 'reset-buzzers', 'close-buzzers'];
+
+const TRIGGER_LABELS: Record<AutomationTrigger, string> = {
+  'timer-expired': 'time ran out',
+  'all-answered': 'everyone answered',
+  'buzz-received': 'buzz received',
+  'buzz-correct': 'buzz judged correct'
+};
+
+const ACTION_LABELS: Record<AutomationAction, string> = {
+  'lock-answers': 'lock answers',
+  'reveal': 'reveal answers',
+  'stop-timer': 'stop timer',
+  'next-question': 'next question',
+  'reset-buzzers': 'reset buzzers',
+  'close-buzzers': 'close buzzers'
+};
+
+export function describeAutomationRule(rule: AutomationRule): string {
+  const delay = rule.delaySeconds > 0 ? ` after ${rule.delaySeconds}s` : '';
+  return `When ${TRIGGER_LABELS[rule.trigger]}, ${ACTION_LABELS[rule.action]}${delay}`;
+}
+
+// Cleans a rule list from the admin panel or a rundown, dropping rules that don't make sense
+export function validateAutomationRules(raw: unknown): AutomationRule[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item, index): AutomationRule[] => {
+    if (!item || typeof item !== 'object') return [];
+    if (!AUTOMATION_TRIGGERS.includes(item.trigger) || !AUTOMATION_ACTIONS.includes(item.action)) return [];
+    const delaySeconds = Number(item.delaySeconds);
+    return [{
+      id: typeof item.id === 'string' && item.id ? item.id : `rule-${index + 1}`,
+      trigger: item.trigger,
+      action: item.action,
+      delaySeconds: Number.isFinite(delaySeconds) && delaySeconds > 0 ? delaySeconds : 0,
+      ...(typeof item.timerId === 'string' && item.timerId && { timerId: item.timerId })
+    }];
+  });
+}
+
+// Runs the rules a trigger matches, holding delayed ones until they're due or cancelled.
+// The room cancels whatever is still pending when the question changes, so a late reveal
+// can't land on the next question
+export class AutomationScheduler {
+  private pending = new Set<NodeJS.Timeout>();
+
+  constructor(private run: (rule: AutomationRule) => void) {}
+
+  fire(rules: AutomationRule[], trigger: AutomationTrigger, timerId?: string) {
+    rules
+      .filter(rule => rule.trigger === trigger)
+      .filter(rule => trigger !== 'timer-expired' || (rule.timerId ?? MAIN_TIMER_ID) === timerId)
+      .forEach(rule => {
+        if (rule.delaySeconds <= 0) {
+          this.run(rule);
+          return;
+        }
+        const timeout = setTimeout(() => {
+          this.pending.delete(timeout);
+          this.run(rule);
+        }, rule.delaySeconds * 1000);
+        this.pending.add(timeout);
+      });
+  }
+
+  cancelAll() {
+    this.pending.forEach(timeout => clearTimeout(timeout));
+    this.pending.clear();
+  }
+}
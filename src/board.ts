@@ -0,0 +1,66 @@
+import { Question } from './types';
+
+// Jeopardy-style category board. It keeps its own copy of the questions, so it outlives
+// game-type switches and later edits to the question bank until the host rebuilds it.
+export interface BoardCell {
+  question: Question;
+  value: number;
+  used: boolean;
+}
+
+export interface BoardCategory {
+  name: string;
+  cells: BoardCell[];
+}
+
+export interface BoardPosition {
+  category: number;
+  row: number;
+}
+
+export interface Board {
+  categories: BoardCategory[];
+  activeCell: BoardPosition | null; // the cell being played
+}
+
+const DEFAULT_CATEGORY = 'General';
+const VALUE_STEP = 100; // rows without their own points count up 100, 200, 300...
+
+export function createBoard(): Board {
+  return { categories: [], activeCell: null };
+}
+
+// Columns in the order categories first appear in the bank; a question's points set its value
+export function buildBoard(questions: Question[]): Board {
+  const categories: BoardCategory[] = [];
+  questions.forEach(question => {
+    const name = question.category?.trim() || DEFAULT_CATEGORY;
+    let category = categories.find(c => c.name.toLowerCase() === name.toLowerCase());
+    if (!category) {
+      category = { name, cells: [] };
+      categories.push(category);
+    }
+    category.cells.push({
+      question,
+      value: typeof question.points === 'number' ? question.points : (category.cells.length + 1) * VALUE_STEP,
+      used: false
+    });
+  });
+  return { categories, activeCell: null };
+}
+
+export function getBoardCell(board: Board, position: BoardPosition | null): BoardCell | undefined {
+  if (!position) return undefined;
+  return board.categories[position.category]?.cells[position.row];
+}
+
+// What overlays and contestants see: values and which cells are gone, never the unplayed questions
+export function getPublicBoard(board: Board) {
+  return {
+    categories: board.categories.map(category => ({
+      name: category.name,
+      cells: category.cells.map(({ value, used }) => ({ value, used }))
+    })),
+    activeCell: board.activeCell
+  };
+}
@@ -0,0 +1,91 @@
+import { Socket } from 'socket.io';
+
+// NTP-style clock sync: the server pings each socket, the client acks with its own clock,
+// and the lowest-RTT recent sample gives the best estimate of the offset between the two.
+export interface ClockEstimate {
+  offsetMs: number; // client clock minus server clock
+  rttMs: number;
+  sampledAt: number;
+}
+
+export interface BuzzTiming {
+  correctedPressTime: number; // server clock
+  clockOffsetMs: number | null;
+  rttMs: number | null;
+}
+
+const PING_TIMEOUT_MS = 2000;
+const INITIAL_PINGS = 5;
+const INITIAL_PING_SPACING_MS = 200;
+const PING_INTERVAL_MS = 15000;
+const MAX_SAMPLES = 8;
+
+// How long to hold the first buzz of a race while later-arriving, earlier-pressed buzzes come in
+export function getBuzzArbitrationMs(): number {
+  const configured = parseInt(process.env.BUZZ_ARBITRATION_MS || '', 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : 150;
+}
+
+export class ClockSync {
+  private samples = new Map<string, ClockEstimate[]>(); // socket.id -> recent samples
+  private intervals = new Map<string, NodeJS.Timeout>();
+
+  // A quick burst so the first buzz already has an estimate, then a slow refresh
+  track(socket: Socket) {
+    for (let i = 0; i < INITIAL_PINGS; i++) {
+      setTimeout(() => this.ping(socket), i * INITIAL_PING_SPACING_MS);
+    }
+    this.intervals.set(socket.id, setInterval(() => this.ping(socket), PING_INTERVAL_MS));
+  }
+
+  untrack(socketId: string) {
+    const interval = this.intervals.get(socketId);
+    if (interval) {
+      clearInterval(interval);
+    }
+    this.intervals.delete(socketId);
+    this.samples.delete(socketId);
+  }
+
+  getEstimate(socketId: string): ClockEstimate | undefined {
+    const samples = this.samples.get(socketId);
+    if (!samples || samples.length === 0) return undefined;
+    return samples.reduce((best, sample) => sample.rttMs < best.rttMs ? sample : best);
+  }
+
+  private ping(socket: Socket) {
+    if (!socket.connected) return;
+    const sentAt = Date.now();
+    socket.timeout(PING_TIMEOUT_MS).emit('clockSync:ping', sentAt, (err: Error | null, clientTime: number) => {
+      if (err || typeof clientTime !== 'number' || !this.intervals.has(socket.id)) return;
+      const receivedAt = Date.now();
+      const sample: ClockEstimate = {
+        offsetMs: clientTime - (sentAt + receivedAt) / 2,
+        rttMs: receivedAt - sentAt,
+        sampledAt: receivedAt
+      };
+      this.samples.set(socket.id, [...(this.samples.get(socket.id) || []), sample].slice(-MAX_SAMPLES));
+
+      // Clients use the same estimate to line their countdowns up with the server
+      const estimate = this.getEstimate(socket.id)!;
+      socket.emit('clockSync:estimate', { offsetMs: estimate.offsetMs, rttMs: estimate.rttMs });
+    });
+  }
+}
+
+// Maps a client press timestamp onto the server clock. The press can't have happened after the
+// server received it, or more than one round trip before, which bounds a bad or spoofed timestamp.
+export function correctPressTime(serverReceiveTime: number, clientTimestamp: number | undefined, estimate: ClockEstimate | undefined): BuzzTiming {
+  if (!estimate) {
+    return { correctedPressTime: serverReceiveTime, clockOffsetMs: null, rttMs: null };
+  }
+  const earliest = serverReceiveTime - estimate.rttMs;
+  const pressTime = typeof clientTimestamp === 'number'
+    ? clientTimestamp - estimate.offsetMs
+    : serverReceiveTime - estimate.rttMs / 2;
+  return {
+    correctedPressTime: Math.round(Math.min(serverReceiveTime, Math.max(earliest, pressTime))),
+    clockOffsetMs: Math.round(estimate.offsetMs),
+    rttMs: estimate.rttMs
+  };
+}
@@ -0,0 +1,22 @@
+import crypto = require('crypto');
+
+export function generateContestantId(): string {
+  return crypto.randomBytes(6).toString('hex');
+}
+
+// Per-contestant secret carried in the join link; regenerating it revokes the old link
+export function generateContestantKey(): string {
+  return crypto.randomBytes(16).toString('base64url');
+}
+
+export function isValidContestantKey(expected: string | undefined, provided: unknown): boolean {
+  if (!expected || typeof provided !== 'string') {
+    return false;
+  }
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  if (expectedBuffer.length !== providedBuffer.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+}
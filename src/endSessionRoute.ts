@@ -1,8 +1,10 @@
 import express from 'express';
 import { EventLogger } from './eventLogger';
+import { requireAdmin } from './adminAuth';
 
-export function registerEndSessionRoute(app: any, eventLogger: EventLogger) {
-  app.post('/api/logs/end-session', (req: any, res: any) => {
+export function registerEndSessionRoute(app: any, withRoom: (req: any, res: any, next: () => void) => void) {
+  app.post('/api/rooms/:roomId/logs/end-session', requireAdmin, withRoom, (req: any, res: any) => {
+    const eventLogger: EventLogger = res.locals.room.eventLogger;
     try {
       const { sessionId, fps } = req.body;
       const eventsForSession = eventLogger.getEventsForSession(sessionId);
@@ -19,4 +21,4 @@ export function registerEndSessionRoute(app: any, eventLogger: EventLogger) {
       res.status(500).json({ success: false, error: 'Failed to end session' });
     }
   });
-} 
\ No newline at end of file
+} 
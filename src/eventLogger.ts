@@ -1,5 +1,10 @@
 import fs = require('fs');
 import path = require('path');
+import { BuzzTiming } from './clockSync';
+import { MAIN_TIMER_ID } from './timer';
+import { NamedTimer } from './types';
+
+type TimerRef = Pick<NamedTimer, 'id' | 'name'>;
 
 export interface GameEvent {
   timestamp: number; // Unix timestamp in milliseconds (when event was logged)
@@ -21,13 +26,15 @@ export interface DaVinciResolveMarker {
 export class EventLogger {
   private events: GameEvent[] = [];
   private sessionId: string;
+  private roomId: string;
   private logDir: string;
   private currentLogFile: string | null = null;
   private sessionStartTime: number | null = null;
   private sessionTimeout: NodeJS.Timeout | null = null;
   private readonly SESSION_TIMEOUT_MS = 3 * 60 * 60 * 1000; // 3 hours in milliseconds
 
-  constructor() {
+  constructor(roomId: string = 'default') {
+    this.roomId = roomId;
     this.sessionId = this.generateSessionId();
     this.logDir = path.join(process.cwd(), 'logs');
     
@@ -51,7 +58,7 @@ export class EventLogger {
     this.events = [];
     this.sessionStartTime = Date.now();
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    this.currentLogFile = path.join(this.logDir, `game_session_${timestamp}.json`);
+    this.currentLogFile = path.join(this.logDir, `game_session_${this.roomId}_${timestamp}.json`);
     
     // Set up automatic timeout
     this.sessionTimeout = setTimeout(() => {
@@ -62,6 +69,7 @@ export class EventLogger {
     // Log session start
     this.logEvent('session_start', {
       sessionId: this.sessionId,
+      roomId: this.roomId,
       timestamp: new Date().toISOString(),
       version: '1.0.0',
       autoTimeout: this.SESSION_TIMEOUT_MS
@@ -120,15 +128,46 @@ export class EventLogger {
   }
 
   // Game-specific event logging methods
-  logContestantBuzz(contestantId: string, contestantName: string, buzzOrder: number, serverReceiveTime?: number, clientTimestamp?: number): void {
+  logContestantBuzz(contestantId: string, contestantName: string, buzzOrder: number, serverReceiveTime?: number, clientTimestamp?: number, timing?: BuzzTiming): void {
+    // Raw times go in the event envelope; the clock-corrected press time is what decided the order
     this.logEvent('contestant_buzz', {
       contestantId,
       contestantName,
       buzzOrder,
-      action: 'buzz'
+      action: 'buzz',
+      correctedPressTime: timing?.correctedPressTime,
+      clockOffsetMs: timing?.clockOffsetMs,
+      rttMs: timing?.rttMs
+    }, serverReceiveTime, clientTimestamp);
+  }
+
+  logBuzzerStateChange(buzzerState: string): void {
+    this.logEvent('buzzer_state_change', {
+      buzzerState
+    });
+  }
+
+  logEarlyBuzz(contestantId: string, contestantName: string, lockoutMs: number, serverReceiveTime?: number, clientTimestamp?: number, timing?: BuzzTiming): void {
+    this.logEvent('early_buzz', {
+      contestantId,
+      contestantName,
+      lockoutMs,
+      correctedPressTime: timing?.correctedPressTime,
+      clockOffsetMs: timing?.clockOffsetMs,
+      rttMs: timing?.rttMs
     }, serverReceiveTime, clientTimestamp);
   }
 
+  logBuzzJudged(contestantId: string, contestantName: string, correct: boolean, points: number, nextContestantId: string | null): void {
+    this.logEvent('buzz_judged', {
+      contestantId,
+      contestantName,
+      correct,
+      points,
+      nextContestantId
+    });
+  }
+
   logScoreUpdate(contestantId: string, contestantName: string, oldScore: number, newScore: number, reason?: string): void {
     this.logEvent('score_update', {
       contestantId,
@@ -140,6 +179,17 @@ export class EventLogger {
     });
   }
 
+  logTeamScoreUpdate(teamId: string, teamName: string, oldScore: number, newScore: number, reason?: string): void {
+    this.logEvent('team_score_update', {
+      teamId,
+      teamName,
+      oldScore,
+      newScore,
+      scoreChange: newScore - oldScore,
+      reason: reason || 'manual_update'
+    });
+  }
+
   logGameTypeChange(gameType: string, config?: any): void {
     this.logEvent('game_type_change', {
       gameType,
@@ -155,40 +205,150 @@ export class EventLogger {
     });
   }
 
-  logAnswerSubmission(contestantId: string, contestantName: string, answer: string, isCorrect?: boolean): void {
+  logBoardCellPicked(category: string, value: number, question: string): void {
+    this.logEvent('board_cell_picked', {
+      category,
+      value,
+      question
+    });
+  }
+
+  logSegmentChange(segmentIndex: number, title: string, gameType: string, rundownName: string): void {
+    this.logEvent('segment_change', {
+      segmentIndex,
+      title,
+      gameType,
+      rundownName
+    });
+  }
+
+  // A host follow-up an automation rule ran; whatever it changed is logged after it as usual
+  logAutomation(trigger: string, action: string, delaySeconds: number, description: string): void {
+    this.logEvent('automation', {
+      trigger,
+      action,
+      delaySeconds,
+      description
+    });
+  }
+
+  logMediaPlayback(action: 'play' | 'pause' | 'stop', media: { id: string; kind: string; name?: string }, positionMs: number): void {
+    this.logEvent(`media_${action}`, {
+      mediaId: media.id,
+      kind: media.kind,
+      name: media.name,
+      positionMs: Math.round(positionMs)
+    });
+  }
+
+  // latencyMs: time from the question going up to this answer
+  logAnswerSubmission(contestantId: string, contestantName: string, answer: string, isCorrect?: boolean, latencyMs?: number): void {
     this.logEvent('answer_submission', {
       contestantId,
       contestantName,
       answer,
-      isCorrect
+      isCorrect,
+      latencyMs
     });
   }
 
-  logAnswerReveal(correctAnswer: string, allAnswers: Record<string, string>): void {
+  // Free-text answers are judged after they come in; the submission entry carries the final call
+  markAnswerJudged(contestantId: string, answer: string, isCorrect: boolean, judgedByHost: boolean = true): void {
+    const submission = [...this.events].reverse().find(event =>
+      event.eventType === 'answer_submission' && event.eventData.contestantId === contestantId && event.eventData.answer === answer
+    );
+    if (!submission || !this.currentLogFile) return;
+    submission.eventData = { ...submission.eventData, isCorrect, judgedByHost };
+    fs.writeFileSync(this.currentLogFile, JSON.stringify(this.events, null, 2));
+  }
+
+  // latencies: each contestant's time from the question going up to their final answer
+  logAnswerReveal(correctAnswer: string, allAnswers: Record<string, string>, results?: any[], latencies?: Record<string, number>): void {
     this.logEvent('answer_reveal', {
       correctAnswer,
-      allAnswers
+      allAnswers,
+      results,
+      latencies
+    });
+  }
+
+  logAnswersLocked(locked: boolean, reason: string, answerCount: number): void {
+    this.logEvent(locked ? 'answers_locked' : 'answers_unlocked', {
+      reason,
+      answerCount
     });
   }
 
-  logTimerStart(duration: number): void {
+  // Every timer event carries which of the room's timers it came from
+  logTimerStart(timer: TimerRef, duration: number, mode: string = 'countdown'): void {
     this.logEvent('timer_start', {
+      ...this.timerFields(timer),
+      mode,
       duration,
       startTime: Date.now()
     });
   }
 
-  logTimerStop(remainingTime: number): void {
+  // Stopwatches log the time on the clock; countdowns and chess clocks the time left
+  logTimerStop(timer: TimerRef, clockMs: number, mode: string = 'countdown'): void {
     this.logEvent('timer_stop', {
-      remainingTime,
+      ...this.timerFields(timer),
+      mode,
+      ...this.clockFields(clockMs, mode),
       stopTime: Date.now()
     });
   }
 
-  logTimerTick(remainingTime: number): void {
-    this.logEvent('timer_tick', {
-      remainingTime,
-      timestamp: Date.now()
+  logTimerResume(timer: TimerRef, clockMs: number, mode: string = 'countdown'): void {
+    this.logEvent('timer_resume', {
+      ...this.timerFields(timer),
+      mode,
+      ...this.clockFields(clockMs, mode),
+      resumeTime: Date.now()
+    });
+  }
+
+  private timerFields(timer: TimerRef): Record<string, string> {
+    return { timerId: timer.id, timerName: timer.name };
+  }
+
+  private clockFields(clockMs: number, mode: string): Record<string, number> {
+    const seconds = Math.round(clockMs / 100) / 10;
+    return mode === 'stopwatch'
+      ? { elapsedTime: seconds, elapsedMs: clockMs }
+      : { remainingTime: seconds, remainingMs: clockMs };
+  }
+
+  // On a chess clock, the contestant whose bank ran out
+  logTimerExpired(timer: TimerRef, scheduledEndTime: number, contestant?: { id: string; name: string }): void {
+    const now = Date.now();
+    this.logEvent('timer_expired', {
+      ...this.timerFields(timer),
+      scheduledEndTime,
+      expiredTime: now,
+      lateByMs: now - scheduledEndTime,
+      ...(contestant && { contestantId: contestant.id, contestantName: contestant.name })
+    });
+  }
+
+  logTimerSplit(timer: TimerRef, contestantId: string, contestantName: string, elapsedMs: number, source: 'buzz' | 'answer'): void {
+    this.logEvent('timer_split', {
+      ...this.timerFields(timer),
+      contestantId,
+      contestantName,
+      elapsedMs,
+      elapsedTime: Math.round(elapsedMs / 100) / 10,
+      source
+    });
+  }
+
+  logTimerTurn(timer: TimerRef, contestantId: string, contestantName: string, remainingMs: number): void {
+    this.logEvent('timer_turn', {
+      ...this.timerFields(timer),
+      contestantId,
+      contestantName,
+      remainingMs,
+      remainingTime: Math.round(remainingMs / 100) / 10
     });
   }
 
@@ -259,37 +419,107 @@ export class EventLogger {
       'session_start': 'Blue',
       'session_end': 'Blue',
       'contestant_buzz': 'Red',
+      'early_buzz': 'Sand',
+      'buzzer_state_change': 'Lavender',
+      'buzz_judged': 'Mint',
+      'wager_reveal': 'Fuchsia',
+      'action_undone': 'Cocoa',
+      'action_redone': 'Cocoa',
+      'automation': 'Cocoa',
       'score_update': 'Green',
+      'team_score_update': 'Green',
       'game_type_change': 'Blue',
       'question_change': 'Yellow',
+      'board_cell_picked': 'Yellow',
+      'segment_change': 'Pink',
+      'media_play': 'Sky',
+      'media_pause': 'Sky',
+      'media_stop': 'Sky',
       'answer_submission': 'Purple',
+      'answers_locked': 'Purple',
+      'answers_unlocked': 'Purple',
       'answer_reveal': 'Orange',
       'timer_start': 'Cyan',
       'timer_stop': 'Magenta',
-      'timer_tick': 'White'
+      'timer_resume': 'Cyan',
+      'timer_expired': 'Rose',
+      'timer_split': 'Lemon',
+      'timer_turn': 'Cream'
     };
     
     return colorMap[eventType] || 'White';
   }
 
+  // The main timer reads as its mode; timers the host added go by their name
+  private timerLabel(event: GameEvent, fallback: string): string {
+    const { timerId, timerName } = event.eventData;
+    return timerId && timerId !== MAIN_TIMER_ID && timerName ? timerName : fallback;
+  }
+
   private formatEventNote(event: GameEvent): string {
     switch (event.eventType) {
       case 'contestant_buzz':
         return `${event.eventData.contestantName} buzzed (${event.eventData.buzzOrder}${this.getOrdinalSuffix(event.eventData.buzzOrder)})`;
+      case 'early_buzz':
+        return `${event.eventData.contestantName} buzzed early (locked out ${event.eventData.lockoutMs}ms)`;
+      case 'buzzer_state_change':
+        return `Buzzers ${event.eventData.buzzerState}`;
+      case 'buzz_judged':
+        return `${event.eventData.contestantName}: ${event.eventData.correct ? 'correct' : 'incorrect'} (${event.eventData.points > 0 ? '+' : ''}${event.eventData.points})`;
+      case 'wager_reveal':
+        return `${event.eventData.contestantName} wagered ${event.eventData.wager}: ${event.eventData.correct ? 'correct' : 'incorrect'}`;
+      case 'action_undone':
+        return `Undo: ${event.eventData.description}`;
+      case 'action_redone':
+        return `Redo: ${event.eventData.description}`;
       case 'score_update':
         return `${event.eventData.contestantName}: ${event.eventData.oldScore} → ${event.eventData.newScore} (${event.eventData.scoreChange > 0 ? '+' : ''}${event.eventData.scoreChange})`;
+      case 'team_score_update':
+        return `Team ${event.eventData.teamName}: ${event.eventData.oldScore} → ${event.eventData.newScore} (${event.eventData.scoreChange > 0 ? '+' : ''}${event.eventData.scoreChange})`;
       case 'game_type_change':
         return `Game type: ${event.eventData.gameType}`;
       case 'question_change':
         return `Question ${event.eventData.questionIndex + 1}`;
+      case 'board_cell_picked':
+        return `${event.eventData.category} for ${event.eventData.value}`;
+      case 'segment_change':
+        return `Segment ${event.eventData.segmentIndex + 1}: ${event.eventData.title}`;
+      case 'media_play':
+      case 'media_pause':
+      case 'media_stop':
+        return `Media ${event.eventType.slice('media_'.length)}: ${event.eventData.name || event.eventData.kind} at ${(event.eventData.positionMs / 1000).toFixed(1)}s`;
+      case 'automation':
+        return `Auto: ${event.eventData.description}`;
+      case 'answers_locked':
+        return `Answers locked${event.eventData.reason === 'timer' ? ' (time up)' : ''}: ${event.eventData.answerCount} in`;
+      case 'answers_unlocked':
+        return 'Answers unlocked';
       case 'answer_submission':
-        return `${event.eventData.contestantName}: "${event.eventData.answer}"`;
+        return typeof event.eventData.latencyMs === 'number'
+          ? `${event.eventData.contestantName}: "${event.eventData.answer}" (${(event.eventData.latencyMs / 1000).toFixed(1)}s)`
+          : `${event.eventData.contestantName}: "${event.eventData.answer}"`;
       case 'answer_reveal':
         return `Correct: "${event.eventData.correctAnswer}"`;
       case 'timer_start':
-        return `Timer started (${event.eventData.duration}s)`;
+        if (event.eventData.mode === 'stopwatch') return `${this.timerLabel(event, 'Stopwatch')} started`;
+        if (event.eventData.mode === 'chess-clock') return `${this.timerLabel(event, 'Chess clock')} started (${event.eventData.duration}s each)`;
+        return `${this.timerLabel(event, 'Timer')} started (${event.eventData.duration}s)`;
       case 'timer_stop':
-        return `Timer stopped (${event.eventData.remainingTime}s remaining)`;
+        return event.eventData.mode === 'stopwatch'
+          ? `${this.timerLabel(event, 'Stopwatch')} stopped at ${event.eventData.elapsedTime}s`
+          : `${this.timerLabel(event, 'Timer')} stopped (${event.eventData.remainingTime}s remaining)`;
+      case 'timer_resume':
+        return event.eventData.mode === 'stopwatch'
+          ? `${this.timerLabel(event, 'Stopwatch')} resumed at ${event.eventData.elapsedTime}s`
+          : `${this.timerLabel(event, 'Timer')} resumed (${event.eventData.remainingTime}s remaining)`;
+      case 'timer_expired':
+        return event.eventData.contestantName
+          ? `${this.timerLabel(event, 'Chess clock')}: ${event.eventData.contestantName} is out of time`
+          : `${this.timerLabel(event, 'Timer')}: time's up`;
+      case 'timer_split':
+        return `${this.timerLabel(event, 'Stopwatch')}: ${event.eventData.contestantName} at ${event.eventData.elapsedTime}s (${event.eventData.source})`;
+      case 'timer_turn':
+        return `${this.timerLabel(event, 'Chess clock')}: ${event.eventData.contestantName}'s turn (${event.eventData.remainingTime}s left)`;
       default:
         return JSON.stringify(event.eventData);
     }
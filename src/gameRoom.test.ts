@@ -0,0 +1,276 @@
+import { after, test } from 'node:test';
+import assert from 'assert';
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import { Server, Socket } from 'socket.io';
+import { GameRoom } from './gameRoom';
+
+// Checkpoints go to a scratch directory instead of ./data
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gameroom-test-'));
+process.env.DATA_DIR = dataDir;
+after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+// Just enough of a socket for joining; nothing is listening, so emits go nowhere
+const fakeSocket = (id: string) => ({ id, data: {}, join() {}, leave() {}, emit() {} }) as unknown as Socket;
+
+let roomCount = 0;
+function createRoom(): GameRoom {
+  roomCount++;
+  return new GameRoom(new Server(), `test-${roomCount}`, `Test ${roomCount}`);
+}
+
+// Adds a contestant and joins them; returns the socket id their events come from
+function joinContestant(room: GameRoom, name: string): { id: string; socketId: string } {
+  const contestant = room.addContestant(name);
+  const socketId = `socket-${contestant.id}`;
+  room.joinContestant(fakeSocket(socketId), contestant.id, contestant.key);
+  return { id: contestant.id, socketId };
+}
+
+test('submitAnswer drops answers that are not text', () => {
+  const room = createRoom();
+  const ann = joinContestant(room, 'Ann');
+  room.setGameType('free-text');
+  room.setCorrectAnswer('Paris');
+
+  [1, undefined, null, { toString: () => 'Paris' }, ['Paris'], '   '].forEach(answer => room.submitAnswer(ann.socketId, answer));
+  assert.deepStrictEqual(room.answers, {});
+  assert.doesNotThrow(() => room.buildGameState(true));
+  room.destroy();
+});
+
+test('submitAnswer trims and caps a free-text answer and suggests a match once', () => {
+  const room = createRoom();
+  const ann = joinContestant(room, 'Ann');
+  const bob = joinContestant(room, 'Bob');
+  room.setGameType('free-text');
+  room.setCorrectAnswer('Paris');
+
+  room.submitAnswer(ann.socketId, '  pari  ');
+  room.submitAnswer(bob.socketId, 'x'.repeat(5000));
+  assert.strictEqual(room.answers[ann.id], 'pari');
+  assert.strictEqual(room.answers[bob.id].length, 200);
+  assert.deepStrictEqual(room.answerSuggestions, { [ann.id]: true, [bob.id]: false });
+
+  // A new correct answer rechecks what's already in
+  room.setCorrectAnswer('London');
+  assert.deepStrictEqual(room.answerSuggestions, { [ann.id]: false, [bob.id]: false });
+  room.destroy();
+});
+
+test('a numeric round ignores guesses that are not numbers', () => {
+  const room = createRoom();
+  const ann = joinContestant(room, 'Ann');
+  const bob = joinContestant(room, 'Bob');
+  room.setGameType('numeric');
+  room.setCorrectAnswer('100');
+
+  room.submitAnswer(ann.socketId, 100);
+  room.submitAnswer(ann.socketId, 'about a hundred');
+  room.submitAnswer(bob.socketId, ' 1,05 ');
+  assert.deepStrictEqual(room.answers, { [bob.id]: '1,05' });
+
+  room.reveal();
+  assert.strictEqual(room.contestants.find(c => c.id === bob.id)?.score, 3);
+  room.destroy();
+});
+
+test('a checkpoint restores into a new room, with contestants disconnected until they rejoin', () => {
+  const room = createRoom();
+  const ann = joinContestant(room, 'Ann');
+  room.updateScore(ann.id, 300);
+  room.setGameType('free-text');
+  room.setCorrectAnswer('Paris');
+  room.submitAnswer(ann.socketId, 'Paris');
+  room.startTimer(30);
+  const snapshot = JSON.parse(JSON.stringify(room.toSnapshot()));
+  room.destroy();
+
+  const restored = new GameRoom(new Server(), snapshot.id, snapshot.name, snapshot.createdAt);
+  restored.restore(snapshot);
+  assert.deepStrictEqual(restored.contestants.map(({ name, score, connected }) => ({ name, score, connected })), [
+    { name: 'Ann', score: 300, connected: false }
+  ]);
+  assert.strictEqual(restored.gameType, 'free-text');
+  assert.deepStrictEqual(restored.answers, { [ann.id]: 'Paris' });
+  assert.deepStrictEqual(restored.answerSuggestions, { [ann.id]: true });
+  assert.strictEqual(restored.timers[0].running, true);
+  restored.destroy();
+});
+
+test('restore fills in fields an older checkpoint does not have', () => {
+  const room = createRoom();
+  room.restore({ id: room.id, name: room.name, contestants: [], gameType: 'buzzer' });
+  assert.deepStrictEqual(room.teams, []);
+  assert.deepStrictEqual(room.answerSuggestions, {});
+  assert.strictEqual(room.rundownSegmentIndex, -1);
+  assert.strictEqual(room.timers.length, 1);
+  room.destroy();
+});
+
+test('loadAll moves a checkpoint it cannot restore aside and loads the rest', async () => {
+  const roomsDir = path.join(dataDir, 'rooms');
+  const good = createRoom();
+  good.addContestant('Ann');
+  await good.flushCheckpoint();
+  fs.writeFileSync(path.join(roomsDir, 'truncated.json'), '{"id": "truncated", "contestan');
+  fs.writeFileSync(path.join(roomsDir, 'wrong-shape.json'), JSON.stringify({ id: 'wrong-shape', contestants: 5 }));
+
+  const loaded = GameRoom.loadAll(new Server());
+  const ids = loaded.map(room => room.id);
+  assert.ok(ids.includes(good.id));
+  assert.ok(!ids.includes('truncated') && !ids.includes('wrong-shape'));
+  const files = fs.readdirSync(roomsDir);
+  assert.ok(!files.includes('truncated.json') && !files.includes('wrong-shape.json'));
+  assert.ok(files.some(file => file.startsWith('truncated.json.bad-')));
+  assert.ok(files.some(file => file.startsWith('wrong-shape.json.bad-')));
+  good.destroy();
+  loaded.forEach(room => room.destroy());
+});
+
+test('the question bank is checked against the game it is loaded into', () => {
+  const room = createRoom();
+  const clue = { question: 'This river flows through Cairo', options: [], correctAnswer: 'The Nile', category: 'Geography' };
+  const choice = { question: 'Capital of France?', options: ['Paris', 'Rome'], correctAnswer: 'Paris' };
+
+  room.setGameType('multiple-choice');
+  room.setQuestions([clue]);
+  assert.deepStrictEqual(room.questions, []);
+  room.setQuestions([choice]);
+  assert.deepStrictEqual(room.questions, [choice]);
+
+  room.setGameType('board');
+  room.updateQuestions([clue], 0);
+  assert.deepStrictEqual(room.questions, [clue]);
+  room.destroy();
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('undo drops buzzes still inside the arbitration window', async () => {
+  const room = createRoom();
+  const ann = joinContestant(room, 'Ann');
+  room.recordAction('admin:openBuzzers', [], () => room.openBuzzers());
+  room.buzz(ann.socketId, Date.now());
+  assert.strictEqual(room.contestants[0].buzzed, true);
+
+  room.undo();
+  await wait(250);
+  assert.strictEqual(room.buzzerState, 'armed');
+  assert.deepStrictEqual(room.buzzOrder, []);
+  assert.strictEqual(room.contestants.find(c => c.id === ann.id)?.buzzed, false);
+  room.destroy();
+});
+
+test('undo cancels automation scheduled before it', async () => {
+  const room = createRoom();
+  const ann = joinContestant(room, 'Ann');
+  room.setGameType('multiple-choice');
+  room.setQuestions([{ question: 'Capital of France?', options: ['Paris', 'Rome'], correctAnswer: 'Paris' }]);
+  room.setCorrectAnswer('Paris');
+  room.setAutomationRules([{ trigger: 'all-answered', action: 'reveal', delaySeconds: 0.05 }]);
+  room.recordAction('admin:updateScore', [{ contestantId: ann.id, score: 5 }], () => room.updateScore(ann.id, 5));
+  room.submitAnswer(ann.socketId, 'Paris');
+
+  room.undo();
+  await wait(150);
+  assert.strictEqual(room.revealAnswers, false);
+  assert.strictEqual(room.contestants.find(c => c.id === ann.id)?.score, 0);
+  room.destroy();
+});
+
+test('only the admin panel hears about media on board cells that have not been picked', () => {
+  const room = createRoom();
+  const clue = (question: string, id: string) => ({
+    question, options: [], correctAnswer: 'Answer', category: 'Music', media: { id, kind: 'audio' as const, name: `${question}.mp3` },
+  });
+  room.setGameType('board');
+  room.setQuestions([clue('Name this tune', 'a1b2c3'), clue('And this one', 'd4e5f6')]);
+  room.buildBoard();
+  const preloadIds = (forAdmin: boolean) => room.buildGameState(forAdmin).preloadMedia.map(media => media.id);
+
+  assert.deepStrictEqual(preloadIds(false), []);
+  assert.deepStrictEqual(preloadIds(true), ['a1b2c3', 'd4e5f6']);
+
+  room.pickBoardCell({ category: 0, row: 0 });
+  assert.deepStrictEqual(preloadIds(false), ['a1b2c3']);
+  assert.deepStrictEqual(preloadIds(true), ['a1b2c3', 'd4e5f6']);
+  room.destroy();
+});
+
+test('a wrong buzz passes to the next in line, and a repeated judgement does not reach them', async () => {
+  const room = createRoom();
+  const ann = joinContestant(room, 'Ann');
+  const bob = joinContestant(room, 'Bob');
+  room.setScoringRules({ pointsCorrect: 10, penaltyWrong: 5 });
+  room.openBuzzers();
+  room.buzz(ann.socketId, Date.now());
+  room.buzz(bob.socketId, Date.now() + 1);
+  await wait(250);
+  assert.strictEqual(room.getActiveBuzzer(), ann.id);
+
+  room.judgeBuzz(false, ann.id);
+  assert.strictEqual(room.getActiveBuzzer(), bob.id);
+  // A double click on Ann's wrong button must not judge Bob too
+  room.judgeBuzz(false, ann.id);
+  assert.strictEqual(room.getActiveBuzzer(), bob.id);
+
+  room.judgeBuzz(true, bob.id);
+  assert.strictEqual(room.buzzerState, 'closed');
+  assert.deepStrictEqual(room.contestants.map(c => c.score), [-5, 10]);
+  room.destroy();
+});
+
+test('a wager round shows each bet and answer only as the host reveals it, and scores the bet', () => {
+  const room = createRoom();
+  const ann = joinContestant(room, 'Ann');
+  const bob = joinContestant(room, 'Bob');
+  room.updateScore(ann.id, 100);
+  room.updateScore(bob.id, 50);
+  room.setGameType('wager');
+  room.setWagerPhase('wagering');
+  // A bet can't be more than the contestant has
+  assert.deepStrictEqual(room.submitWager(ann.socketId, 500), { success: true, wager: 100 });
+  assert.deepStrictEqual(room.submitWager(bob.socketId, 20), { success: true, wager: 20 });
+  room.setWagerPhase('answering');
+  room.submitAnswer(ann.socketId, 'Everest');
+  room.submitAnswer(bob.socketId, 'K2');
+
+  const hidden = room.buildGameState(false);
+  assert.deepStrictEqual(hidden.answers, {});
+  assert.deepStrictEqual(hidden.wagerRound.wagers, {});
+
+  room.revealWager(ann.id, true);
+  const annOnly = room.buildGameState(false);
+  assert.deepStrictEqual(annOnly.answers, { [ann.id]: 'Everest' });
+  assert.deepStrictEqual(annOnly.wagerRound.wagers, { [ann.id]: 100 });
+
+  room.revealWager(bob.id, false);
+  // Revealing the same contestant twice doesn't score them twice
+  room.revealWager(ann.id, true);
+  const revealed = room.buildGameState(false);
+  assert.deepStrictEqual(revealed.answers, { [ann.id]: 'Everest', [bob.id]: 'K2' });
+  assert.deepStrictEqual(revealed.wagerRound.wagers, { [ann.id]: 100, [bob.id]: 20 });
+  assert.deepStrictEqual(room.contestants.map(c => c.score), [200, 30]);
+  room.destroy();
+});
+
+test('answers lock when the main countdown runs out, and the host can unlock them again', async () => {
+  const room = createRoom();
+  const ann = joinContestant(room, 'Ann');
+  const bob = joinContestant(room, 'Bob');
+  room.setGameType('free-text');
+  room.startTimer(0.05);
+  room.submitAnswer(ann.socketId, 'Paris');
+  await wait(150);
+  assert.strictEqual(room.answersLocked, true);
+
+  room.submitAnswer(bob.socketId, 'Rome');
+  assert.deepStrictEqual(room.answers, { [ann.id]: 'Paris' });
+
+  room.setAnswersLocked(false);
+  room.submitAnswer(bob.socketId, 'Rome');
+  assert.deepStrictEqual(room.answers, { [ann.id]: 'Paris', [bob.id]: 'Rome' });
+  room.destroy();
+});
@@ -0,0 +1,1522 @@
+import { Server, Socket } from 'socket.io';
+import { EventLogger } from './eventLogger';
+import { StateStore } from './stateStore';
+import { StateSync } from './stateSync';
+import { DEFAULT_SCORING_RULES, mergeScoringRules, NumericResult, parseNumericAnswer, scoreAnswers, scoreBuzz, scoreNumericGuesses, ScoringRules } from './scoring';
+import { clampWager, createWagerRound, getPublicWagerRound, WAGER_PHASES, WagerPhase, WagerRound } from './wagerRound';
+import { suggestMatch } from './answerMatching';
+import { BuzzTiming, ClockEstimate, correctPressTime, getBuzzArbitrationMs } from './clockSync';
+import { generateContestantId, generateContestantKey, isValidContestantKey } from './contestantKeys';
+import { ActionHistory, applyChange, describeAdminAction, diffStates } from './history';
+import { getQuestionKind, validateQuestion } from './questionImport';
+import { Board, BoardPosition, buildBoard, createBoard, getBoardCell, getPublicBoard } from './board';
+import { collectMedia } from './mediaLibrary';
+import { QUESTION_BANK_TYPES, SINGLE_QUESTION_TYPES } from './rundowns';
+import { AutomationRule, AutomationScheduler, AutomationTrigger, describeAutomationRule, validateAutomationRules } from './automation';
+import { createNamedTimer, createTimer, generateTimerId, getBankMs, getElapsedMs, getRemainingMs, isValidTimerSeconds, MAIN_TIMER_ID, pauseTimer, TIMER_MODES } from './timer';
+import { areTeammates, generateTeamId, getTeamStandings, TEAM_SCORE_MODES } from './teams';
+import { BuzzerState, Contestant, GameConfig, GameType, MediaPlayback, MediaRef, NamedTimer, Question, RoomSnapshot, RoomSummary, Rundown, Team, TeamScoreMode, TimerMode, TimerSplit, TimerState } from './types';
+
+// Game types where contestants submit answers for the host to reveal
+const ANSWER_GAME_TYPES: GameType[] = ['multiple-choice', 'two-option', 'free-text', 'numeric'];
+
+// Longest answer a contestant can submit; anything past it is cut off
+const MAX_ANSWER_LENGTH = 200;
+
+// One independent show: its own contestants, game state, timer, checkpoint file and logging session
+export class GameRoom {
+  readonly id: string;
+  name: string;
+  readonly createdAt: number;
+  readonly eventLogger: EventLogger;
+
+  contestants: Contestant[] = [];
+  teams: Team[] = [];
+  teamScoreMode: TeamScoreMode = 'sum';
+  teamBuzzLockout = false; // a team's first buzz locks out its teammates
+  buzzOrder: string[] = [];
+  buzzerState: BuzzerState = 'armed';
+  buzzersOpenedAt: number | null = null;
+  buzzerLockoutMs = 250;
+  scoringRules: ScoringRules = { ...DEFAULT_SCORING_RULES };
+  automationRules: AutomationRule[] = [];
+  incorrectBuzzes: string[] = []; // judged wrong this question; locked out until the buzzers reset
+  gameType: GameType = 'buzzer';
+  gameConfig: GameConfig = {};
+  timers: NamedTimer[] = [createNamedTimer(MAIN_TIMER_ID, 'Timer')]; // main first, then any the host adds
+  answers: Record<string, string> = {}; // contestantId -> answer/choice
+  answerTimes: Record<string, number> = {}; // contestantId -> when the current answer came in
+  questionStartedAt: number | null = null; // when the current question went up, for answer latencies
+  firstAnswerFinal = false; // contestants can't change an answer once it's in
+  answerJudgements: Record<string, boolean> = {}; // free-text: host's accept/reject per contestant
+  answerSuggestions: Record<string, boolean> = {}; // free-text: whether each answer looks right, worked out as it comes in
+  numericResults: NumericResult[] | null = null; // numeric: placings, set on reveal
+  revealAnswers = false;
+  answersLocked = false; // no new or changed answers until the next question
+  correctAnswer: string | null = null;
+  questions: Question[] = [];
+  questionPackId: string | null = null; // pack the questions were loaded from, for aired tracking
+  currentQuestionIndex = 0;
+  wagerRound: WagerRound = createWagerRound();
+  board: Board = createBoard(); // kept across game-type switches so a board can be finished later
+  mediaPlayback: MediaPlayback = { mediaId: null, playing: false, startedAt: null, offsetMs: 0 };
+  rundown: Rundown | null = null;
+  rundownSegmentIndex = -1; // -1 until the first segment goes live
+  onQuestionAired: ((aired: { packId: string; questionId: string }) => void) | null = null; // set by the server, for moves the room makes itself
+
+  private io: Server;
+  private stateStore: StateStore<RoomSnapshot>;
+  private timerTimeouts = new Map<string, NodeJS.Timeout>(); // timer id -> its expiry
+  private socketToContestant = new Map<string, string>(); // socket.id -> contestantId
+  private pendingBuzzes: { contestantId: string; serverReceiveTime: number; clientTimestamp?: number; timing: BuzzTiming }[] = [];
+  private arbitrationTimeout: NodeJS.Timeout | null = null;
+  private history = new ActionHistory();
+  private automation = new AutomationScheduler(rule => this.runAutomationRule(rule));
+  private adminSync = new StateSync();
+  private publicSync = new StateSync();
+
+  constructor(io: Server, id: string, name: string, createdAt: number = Date.now()) {
+    this.io = io;
+    this.id = id;
+    this.name = name;
+    this.createdAt = createdAt;
+    this.eventLogger = new EventLogger(id);
+    this.stateStore = new StateStore<RoomSnapshot>(`rooms/${id}.json`);
+  }
+
+  // Socket.IO rooms: everyone in this game, and the admin subset that may see secrets
+  get channel(): string {
+    return `room:${this.id}`;
+  }
+
+  get adminChannel(): string {
+    return `room:${this.id}:admin`;
+  }
+
+  // A checkpoint that can't be restored is moved aside so one bad file doesn't keep every room from starting
+  static loadAll(io: Server): GameRoom[] {
+    return StateStore.list('rooms').flatMap(id => {
+      const store = new StateStore<Partial<RoomSnapshot>>(`rooms/${id}.json`);
+      const snapshot = store.load();
+      try {
+        if (!snapshot || typeof snapshot !== 'object') throw new Error('the file is not a room checkpoint');
+        const room = new GameRoom(io, id, typeof snapshot.name === 'string' ? snapshot.name : id, snapshot.createdAt);
+        room.restore(snapshot);
+        return [room];
+      } catch (error) {
+        console.error(`Could not restore room ${id}, moved its checkpoint to ${store.moveAside()}:`, error);
+        return [];
+      }
+    });
+  }
+
+  toSnapshot(): RoomSnapshot {
+    return {
+      savedAt: Date.now(),
+      id: this.id,
+      name: this.name,
+      createdAt: this.createdAt,
+      contestants: this.contestants,
+      teams: this.teams,
+      teamScoreMode: this.teamScoreMode,
+      teamBuzzLockout: this.teamBuzzLockout,
+      buzzOrder: this.buzzOrder,
+      buzzerState: this.buzzerState,
+      buzzersOpenedAt: this.buzzersOpenedAt,
+      buzzerLockoutMs: this.buzzerLockoutMs,
+      scoringRules: this.scoringRules,
+      automationRules: this.automationRules,
+      incorrectBuzzes: this.incorrectBuzzes,
+      gameType: this.gameType,
+      gameConfig: this.gameConfig,
+      timers: this.timers,
+      questions: this.questions,
+      questionPackId: this.questionPackId,
+      currentQuestionIndex: this.currentQuestionIndex,
+      answers: this.answers,
+      answerTimes: this.answerTimes,
+      questionStartedAt: this.questionStartedAt,
+      firstAnswerFinal: this.firstAnswerFinal,
+      answerJudgements: this.answerJudgements,
+      answerSuggestions: this.answerSuggestions,
+      numericResults: this.numericResults,
+      revealAnswers: this.revealAnswers,
+      answersLocked: this.answersLocked,
+      correctAnswer: this.correctAnswer,
+      wagerRound: this.wagerRound,
+      board: this.board,
+      mediaPlayback: this.mediaPlayback,
+      rundown: this.rundown,
+      rundownSegmentIndex: this.rundownSegmentIndex,
+    };
+  }
+
+  checkpoint() {
+    this.stateStore.saveSoon(() => this.toSnapshot());
+  }
+
+  flushCheckpoint(): Promise<void> {
+    return this.stateStore.flush();
+  }
+
+  // Fields missing from an older checkpoint keep the new room's defaults
+  restore(checkpoint: Partial<RoomSnapshot>) {
+    const saved: RoomSnapshot = { ...this.toSnapshot(), ...checkpoint };
+    // Nobody is connected yet after a restart; contestants flip back on when they rejoin
+    this.contestants = saved.contestants.map(c => ({ ...c, connected: false }));
+    this.teams = saved.teams;
+    this.teamScoreMode = saved.teamScoreMode;
+    this.teamBuzzLockout = saved.teamBuzzLockout;
+    this.buzzOrder = saved.buzzOrder;
+    this.buzzerState = saved.buzzerState;
+    this.buzzersOpenedAt = saved.buzzersOpenedAt;
+    this.buzzerLockoutMs = saved.buzzerLockoutMs;
+    this.scoringRules = saved.scoringRules;
+    this.automationRules = saved.automationRules;
+    this.incorrectBuzzes = saved.incorrectBuzzes;
+    this.gameType = saved.gameType;
+    this.gameConfig = saved.gameConfig;
+    this.timers = saved.timers;
+    this.questions = saved.questions;
+    this.questionPackId = saved.questionPackId;
+    this.currentQuestionIndex = saved.currentQuestionIndex;
+    this.answers = saved.answers;
+    this.answerTimes = saved.answerTimes;
+    this.questionStartedAt = saved.questionStartedAt;
+    this.firstAnswerFinal = saved.firstAnswerFinal;
+    this.answerJudgements = saved.answerJudgements;
+    this.answerSuggestions = saved.answerSuggestions;
+    this.numericResults = saved.numericResults;
+    this.revealAnswers = saved.revealAnswers;
+    this.answersLocked = saved.answersLocked;
+    this.correctAnswer = saved.correctAnswer;
+    this.wagerRound = saved.wagerRound;
+    this.board = saved.board;
+    // Clients work the position out from the server clock, so playback carries on across a restart
+    this.mediaPlayback = saved.mediaPlayback;
+    this.rundown = saved.rundown;
+    this.rundownSegmentIndex = saved.rundownSegmentIndex;
+
+    console.log(`Restored room ${this.id} from ${this.stateStore.getStateFile()} (${this.contestants.length} contestants, saved ${new Date(saved.savedAt).toISOString()})`);
+
+    // Pick running timers back up from where they stood at the last checkpoint
+    this.timers.filter(timer => timer.running).forEach(timer => {
+      this.setTimerState(timer, pauseTimer(timer, saved.savedAt));
+      this.resumeTimer(timer.id);
+    });
+  }
+
+  // What undo can roll back: everything checkpointed except the timers and media playback, which run on their own
+  private captureHistoryState(): Record<string, unknown> {
+    const { savedAt, id, createdAt, timers, mediaPlayback, ...state } = this.toSnapshot();
+    return JSON.parse(JSON.stringify(state));
+  }
+
+  // Runs a host action and keeps an undo step for whatever it changed
+  recordAction(action: string, args: any[], run: () => void) {
+    const before = this.captureHistoryState();
+    run();
+    const change = diffStates(before, this.captureHistoryState(), ['contestants', 'teams'], ['connected', 'key']);
+    if (!change) return;
+    this.history.record(action, describeAdminAction(action, args, before.contestants as Contestant[]), change);
+    this.emitGameState();
+  }
+
+  undo() {
+    const entry = this.history.undo();
+    if (!entry) return;
+    Object.assign(this, applyChange(this.captureHistoryState(), entry.change, 'undo'));
+    // Buzzes still being ordered and scheduled follow-ups belong to the state that was just replaced
+    this.clearPendingBuzzes();
+    this.automation.cancelAll();
+    this.eventLogger.logEvent('action_undone', { action: entry.action, description: entry.description });
+    this.emitGameState();
+  }
+
+  redo() {
+    const entry = this.history.redo();
+    if (!entry) return;
+    Object.assign(this, applyChange(this.captureHistoryState(), entry.change, 'redo'));
+    this.clearPendingBuzzes();
+    this.automation.cancelAll();
+    this.eventLogger.logEvent('action_redone', { action: entry.action, description: entry.description });
+    this.emitGameState();
+  }
+
+  // Stops everything the room owns and deletes its checkpoint
+  destroy() {
+    this.timers.forEach(timer => this.cancelTimerExpiry(timer.id));
+    this.automation.cancelAll();
+    this.clearPendingBuzzes();
+    if (this.eventLogger.getSessionInfo().isActive) {
+      this.eventLogger.endCurrentSession();
+    }
+    this.io.to(this.channel).emit('roomClosed', { roomId: this.id });
+    this.io.in(this.channel).socketsLeave([this.channel, this.adminChannel]);
+    this.stateStore.remove();
+  }
+
+  getSummary(): RoomSummary {
+    return {
+      id: this.id,
+      name: this.name,
+      createdAt: this.createdAt,
+      contestantCount: this.contestants.length,
+      connectedCount: this.contestants.filter(c => c.connected).length,
+      isRecording: this.eventLogger.getSessionInfo().isActive,
+    };
+  }
+
+  buildGameState(forAdmin: boolean) {
+    let configToSend = this.gameConfig;
+    if (this.gameType === 'multiple-choice') {
+      // Don't override the config for multiple-choice, just ensure options are present
+      configToSend = {
+        ...this.gameConfig,
+        options: this.gameConfig.options || ['A', 'B', 'C', 'D']
+      };
+    } else if (this.gameType === 'two-option') {
+      // Only send options if valid (length 2, not empty, not 'a')
+      const opts = (this.gameConfig.options || []).filter(
+        opt => opt && opt.trim().length > 0 && opt.trim().toLowerCase() !== 'a'
+      );
+      configToSend = { ...this.gameConfig, options: opts };
+    }
+    const state = {
+      roomId: this.id,
+      roomName: this.name,
+      // Join-link secrets stay with the admin panel
+      contestants: forAdmin ? this.contestants : this.contestants.map(({ key, ...rest }) => rest),
+      teams: getTeamStandings(this.teams, this.contestants, this.teamScoreMode),
+      teamScoreMode: this.teamScoreMode,
+      teamBuzzLockout: this.teamBuzzLockout,
+      buzzOrder: this.buzzOrder,
+      buzzerState: this.buzzerState,
+      buzzerLockoutMs: this.buzzerLockoutMs,
+      scoringRules: this.scoringRules,
+      incorrectBuzzes: this.incorrectBuzzes,
+      activeBuzzer: this.getActiveBuzzer(),
+      gameType: this.gameType,
+      gameConfig: configToSend,
+      timers: this.timers,
+      currentQuestionIndex: this.currentQuestionIndex,
+      questionCount: this.questions.length,
+      answers: this.answers,
+      revealAnswers: this.revealAnswers,
+      answersLocked: this.answersLocked,
+      firstAnswerFinal: this.firstAnswerFinal,
+      correctAnswer: this.correctAnswer,
+      numericResults: this.numericResults,
+      mediaPlayback: this.mediaPlayback,
+      preloadMedia: this.getPreloadMedia(forAdmin),
+    };
+    if (forAdmin) {
+      return {
+        ...state,
+        questions: this.questions,
+        questionPackId: this.questionPackId,
+        automationRules: this.automationRules,
+        answerLatencies: this.getAnswerLatencies(),
+        wagerRound: this.wagerRound,
+        answerJudgements: this.answerJudgements,
+        answerSuggestions: this.answerSuggestions,
+        history: this.history.getSummary(),
+        board: this.board,
+        rundown: this.rundown,
+        rundownSegmentIndex: this.rundownSegmentIndex,
+      };
+    }
+    // The question bank and the answer key never leave the admin channel before the reveal,
+    // and wager-round bets and answers stay hidden until the host reveals each contestant
+    const revealedWagers = this.wagerRound.revealed;
+    return {
+      ...state,
+      correctAnswer: this.revealAnswers ? this.correctAnswer : null,
+      answers: this.gameType === 'wager'
+        ? Object.fromEntries(Object.entries(this.answers).filter(([id]) => revealedWagers.includes(id)))
+        : (this.gameType === 'free-text' || this.gameType === 'numeric') && !this.revealAnswers ? {} : this.answers,
+      answerJudgements: this.revealAnswers ? this.answerJudgements : {},
+      wagerRound: getPublicWagerRound(this.wagerRound),
+      board: getPublicBoard(this.board),
+    };
+  }
+
+  // Only the keys that changed go out, tagged with a version so clients can spot a missed patch
+  emitGameState() {
+    const adminPatch = this.adminSync.diff(this.buildGameState(true));
+    if (adminPatch) {
+      this.io.to(this.adminChannel).emit('gamePatch', adminPatch);
+    }
+    const publicPatch = this.publicSync.diff(this.buildGameState(false));
+    if (publicPatch) {
+      this.io.to(this.channel).except(this.adminChannel).emit('gamePatch', publicPatch);
+    }
+    this.checkpoint();
+  }
+
+  // Full state for a socket that just joined, reconnected or fell behind on patches
+  sendSnapshot(socket: Socket) {
+    const forAdmin = !!socket.data.isAdmin;
+    const sync = forAdmin ? this.adminSync : this.publicSync;
+    socket.emit('gameState', {
+      ...sync.snapshot(this.buildGameState(forAdmin)),
+      // Lets clients estimate their clock offset for the local countdown
+      serverTime: Date.now(),
+    });
+  }
+
+  private findContestant(contestantId: string | undefined): Contestant | undefined {
+    return this.contestants.find(c => c.id === contestantId);
+  }
+
+  // Admin panels and overlays; admins also get the secrets channel
+  joinViewer(socket: Socket) {
+    socket.join(this.channel);
+    if (socket.data.isAdmin) {
+      socket.join(this.adminChannel);
+    }
+    this.sendSnapshot(socket);
+  }
+
+  joinContestant(socket: Socket, contestantId: string, key: unknown): boolean {
+    console.log('Contestant joining:', contestantId);
+    const contestant = this.findContestant(contestantId);
+    if (!contestant || !isValidContestantKey(contestant.key, key)) {
+      console.warn(`Rejected join for ${contestantId} in room ${this.id}: unknown contestant or invalid link key`);
+      socket.emit('joinError', { message: 'This contestant link is invalid or has been revoked.' });
+      return false;
+    }
+    socket.join([this.channel, `${this.channel}:contestant:${contestantId}`]);
+    contestant.connected = true;
+    this.socketToContestant.set(socket.id, contestantId);
+    this.emitGameState();
+    this.sendSnapshot(socket);
+    return true;
+  }
+
+  leave(socket: Socket) {
+    socket.leave(this.channel);
+    socket.leave(this.adminChannel);
+    const contestantId = this.socketToContestant.get(socket.id);
+    if (!contestantId) return;
+    this.socketToContestant.delete(socket.id);
+    socket.leave(`${this.channel}:contestant:${contestantId}`);
+    const contestant = this.findContestant(contestantId);
+    if (contestant) {
+      console.log(`Setting contestant ${contestant.name} (${contestant.id}) to disconnected`);
+      contestant.connected = false;
+      // Force immediate state update
+      this.emitGameState();
+    }
+  }
+
+  buzz(socketId: string, serverReceiveTime: number, clientTimestamp?: number, clockEstimate?: ClockEstimate) {
+    // Identity comes from the socket that joined, never from the payload
+    const contestantId = this.socketToContestant.get(socketId);
+    if (!contestantId) return;
+
+    const timing = correctPressTime(serverReceiveTime, clientTimestamp, clockEstimate);
+    console.log('Buzz received from:', contestantId, `(server: ${serverReceiveTime}, corrected: ${timing.correctedPressTime}, rtt: ${timing.rttMs ?? 'unknown'}ms)`);
+
+    // The board only takes buzzes while a cell is in play
+    if (this.gameType !== 'buzzer' && !(this.gameType === 'board' && this.board.activeCell)) return;
+
+    const contestant = this.findContestant(contestantId);
+    if (!contestant) return;
+
+    // Atomic check and update - prevent race conditions
+    if (contestant.buzzed) {
+      console.log(`Duplicate buzz ignored from ${contestant.name}`);
+      return;
+    }
+
+    if (this.buzzerState === 'closed') {
+      console.log(`Buzz from ${contestant.name} ignored: buzzers closed`);
+      return;
+    }
+
+    // Pressed before the host opened the buzzers, even if the packet arrived after.
+    // Every early press restarts the lockout, so hammering the button doesn't pay off
+    if (this.buzzerState === 'armed' || (this.buzzersOpenedAt !== null && timing.correctedPressTime < this.buzzersOpenedAt)) {
+      contestant.lockedOutUntil = serverReceiveTime + this.buzzerLockoutMs;
+      this.eventLogger.logEarlyBuzz(contestantId, contestant.name, this.buzzerLockoutMs, serverReceiveTime, clientTimestamp, timing);
+      this.emitGameState();
+      return;
+    }
+
+    if (contestant.lockedOutUntil !== null && serverReceiveTime < contestant.lockedOutUntil) {
+      console.log(`Buzz from ${contestant.name} ignored: locked out`);
+      return;
+    }
+
+    if (this.hasTeammateInBuzzOrder(contestant)) {
+      console.log(`Buzz from ${contestant.name} ignored: a teammate already buzzed`);
+      return;
+    }
+
+    // Set buzzed flag immediately
+    contestant.buzzed = true;
+
+    // Hold the buzz until the arbitration window closes, then order the batch by press time
+    this.pendingBuzzes.push({ contestantId, serverReceiveTime, clientTimestamp, timing });
+    if (!this.arbitrationTimeout) {
+      this.arbitrationTimeout = setTimeout(() => this.settlePendingBuzzes(), getBuzzArbitrationMs());
+    }
+  }
+
+  private settlePendingBuzzes() {
+    this.arbitrationTimeout = null;
+    const buzzCount = this.buzzOrder.length;
+    const settled = this.pendingBuzzes.sort((a, b) => a.timing.correctedPressTime - b.timing.correctedPressTime);
+    this.pendingBuzzes = [];
+
+    settled.forEach(({ contestantId, serverReceiveTime, clientTimestamp, timing }) => {
+      const contestant = this.findContestant(contestantId);
+      // Removed or reset while the window was open
+      if (!contestant || !contestant.buzzed || this.buzzOrder.includes(contestantId)) return;
+      // Teammates pressing in the same window: only the earliest press counts for the team
+      if (this.hasTeammateInBuzzOrder(contestant)) {
+        contestant.buzzed = false;
+        console.log(`Buzz from ${contestant.name} dropped: a teammate pressed first`);
+        return;
+      }
+      this.buzzOrder.push(contestantId);
+      this.recordSplit(contestantId, timing.correctedPressTime, 'buzz');
+
+      // Log contestant buzz with raw and corrected timing
+      this.eventLogger.logContestantBuzz(contestantId, contestant.name, this.buzzOrder.length, serverReceiveTime, clientTimestamp, timing);
+    });
+
+    this.emitGameState();
+    if (this.buzzOrder.length > buzzCount) this.triggerAutomation('buzz-received');
+  }
+
+  private hasTeammateInBuzzOrder(contestant: Contestant): boolean {
+    if (!this.teamBuzzLockout) return false;
+    return this.buzzOrder.some(id => {
+      const other = this.findContestant(id);
+      return !!other && areTeammates(contestant, other);
+    });
+  }
+
+  // Drops buzzes still inside the arbitration window; those contestants can buzz again
+  private clearPendingBuzzes() {
+    if (this.arbitrationTimeout) {
+      clearTimeout(this.arbitrationTimeout);
+      this.arbitrationTimeout = null;
+    }
+    this.pendingBuzzes.forEach(({ contestantId }) => {
+      const contestant = this.findContestant(contestantId);
+      if (contestant) contestant.buzzed = false;
+    });
+    this.pendingBuzzes = [];
+  }
+
+  submitAnswer(socketId: string, submitted: unknown) {
+    const contestantId = this.socketToContestant.get(socketId);
+    if (!contestantId || typeof submitted !== 'string') return;
+    const answer = submitted.trim().slice(0, MAX_ANSWER_LENGTH);
+    if (!answer) return;
+    const acceptingAnswers = this.gameType === 'wager'
+      ? this.wagerRound.phase === 'answering'
+      : ANSWER_GAME_TYPES.includes(this.gameType) && !this.revealAnswers && !this.answersLocked;
+    const firstAnswer = this.answers[contestantId] === undefined;
+    // Numeric guesses must parse; anything else never reaches the ranking
+    if (acceptingAnswers && this.gameType === 'numeric' && parseNumericAnswer(answer) === null) return;
+    if (acceptingAnswers && !firstAnswer && this.firstAnswerFinal && this.gameType !== 'wager') return;
+    if (acceptingAnswers) {
+      this.answers[contestantId] = answer;
+      this.answerTimes[contestantId] = Date.now();
+      this.recordSplit(contestantId, this.answerTimes[contestantId], 'answer');
+      // A changed answer needs judging again
+      delete this.answerJudgements[contestantId];
+      if (this.gameType === 'free-text') {
+        this.answerSuggestions[contestantId] = this.suggestAnswer(answer);
+      }
+
+      // Log answer submission
+      const contestant = this.findContestant(contestantId);
+      if (contestant) {
+        // Free-text answers wait for the host's judgement; numeric ones are placed on reveal
+        const isCorrect = this.correctAnswer && this.gameType !== 'free-text' && this.gameType !== 'numeric' ? answer === this.correctAnswer : undefined;
+        this.eventLogger.logAnswerSubmission(contestantId, contestant.name, answer, isCorrect, this.getAnswerLatencies()[contestantId]);
+      }
+
+      this.emitGameState();
+      if (firstAnswer && this.contestants.every(c => this.answers[c.id] !== undefined)) {
+        this.triggerAutomation('all-answered');
+      }
+    }
+  }
+
+  setGameType(type: GameType) {
+    this.resetForGameType(type);
+
+    // Log game type change
+    this.eventLogger.logGameTypeChange(type, this.gameConfig);
+
+    this.emitGameState();
+  }
+
+  // Everything a game type switch clears, without emitting, so a rundown segment can apply in one go
+  private resetForGameType(type: GameType) {
+    this.gameType = type;
+    // Reset round state
+    this.clearPendingBuzzes();
+    this.buzzOrder = [];
+    this.incorrectBuzzes = [];
+    this.buzzerState = 'armed';
+    this.buzzersOpenedAt = null;
+    this.answers = {};
+    this.answerTimes = {};
+    this.questionStartedAt = Date.now();
+    this.answerJudgements = {};
+    this.answerSuggestions = {};
+    this.numericResults = null;
+    this.revealAnswers = false;
+    this.answersLocked = false;
+    this.correctAnswer = null;
+    this.wagerRound = createWagerRound();
+    this.automation.cancelAll();
+    this.stopMedia(false);
+    // Clear game config when switching modes
+    this.gameConfig = {};
+    // The board keeps its used cells, but nothing stays in play
+    this.board.activeCell = null;
+    // Multiple choice and the board both play from the question bank
+    if (type !== 'multiple-choice' && type !== 'board') {
+      this.questions = [];
+      this.questionPackId = null;
+      this.currentQuestionIndex = 0;
+    }
+    // Stop the main timer when switching game types; the host's other clocks keep going
+    this.pauseNamedTimer(this.timers[0]);
+  }
+
+  // Runs the show from a saved rundown, starting with its first segment
+  startRundown(rundown: Rundown) {
+    if (rundown.segments.length === 0) return;
+    this.rundown = JSON.parse(JSON.stringify(rundown));
+    this.rundownSegmentIndex = -1;
+    this.goToSegment(0);
+  }
+
+  // Applies a whole segment at once: game type, questions, timer and scoring go out in one update.
+  // Multiple choice segments open on their first question; board segments build their board
+  goToSegment(index: number) {
+    const rundown = this.rundown;
+    const segment = rundown?.segments[index];
+    if (!rundown || !segment) return;
+    this.resetForGameType(segment.gameType);
+    this.rundownSegmentIndex = index;
+    if (QUESTION_BANK_TYPES.includes(segment.gameType)) {
+      this.questions = segment.questions.map(question => ({ ...question }));
+      this.questionPackId = segment.packId;
+      this.currentQuestionIndex = 0;
+    }
+    if (segment.gameType === 'multiple-choice' && this.questions.length > 0) {
+      const first = this.questions[0];
+      this.gameConfig = {
+        question: first.question,
+        options: first.options,
+        currentQuestionIndex: 0,
+        ...(first.media && { media: first.media }),
+        ...(first.optionMedia && { optionMedia: first.optionMedia })
+      };
+      this.correctAnswer = first.correctAnswer;
+    }
+    if (SINGLE_QUESTION_TYPES.includes(segment.gameType)) {
+      this.gameConfig = segment.questionText ? { question: segment.questionText } : {};
+      this.correctAnswer = segment.correctAnswer ?? null;
+    }
+    if (segment.gameType === 'board') {
+      this.board = buildBoard(this.questions);
+    }
+    if (segment.timerSeconds) {
+      this.setTimerState(this.timers[0], createTimer(this.timers[0].mode, segment.timerSeconds * 1000));
+    }
+    if (segment.scoringRules) {
+      this.scoringRules = mergeScoringRules(DEFAULT_SCORING_RULES, segment.scoringRules);
+    }
+    if (segment.automationRules) {
+      this.automationRules = validateAutomationRules(segment.automationRules);
+    }
+    this.eventLogger.logSegmentChange(index, segment.title, segment.gameType, rundown.name);
+    this.emitGameState();
+  }
+
+  // Leaves the room as the last segment set it up
+  endRundown() {
+    this.rundown = null;
+    this.rundownSegmentIndex = -1;
+    this.emitGameState();
+  }
+
+  // Checks a question list against the game it's for: clues on the board, multiple choice otherwise.
+  // One bad question rejects the lot
+  private validateQuestionBank(newQuestions: unknown): Question[] | null {
+    if (!Array.isArray(newQuestions)) return null;
+    const kind = getQuestionKind(this.gameType);
+    const validated = newQuestions.map(raw => ({ raw, ...validateQuestion(raw && typeof raw === 'object' ? raw : {}, kind) }));
+    const invalid = validated.filter(({ question }) => !question).length;
+    if (invalid > 0) {
+      console.warn(`Rejected questions in room ${this.id}: ${invalid} invalid ${kind} question(s)`);
+      return null;
+    }
+    return validated.map(({ raw, question }) => (typeof raw.id === 'string' ? { ...question!, id: raw.id } : question!));
+  }
+
+  setQuestions(newQuestions: unknown, packId: string | null = null) {
+    const questions = this.validateQuestionBank(newQuestions);
+    if (!questions) return;
+    this.questions = questions;
+    this.questionPackId = packId;
+    this.currentQuestionIndex = 0;
+    this.emitGameState();
+  }
+
+  // Saves from the question editor. The list changes but the show stays on the live question,
+  // which the editor may have moved; the on-screen config is left alone until the host navigates
+  updateQuestions(newQuestions: unknown, currentIndex: number) {
+    const questions = this.validateQuestionBank(newQuestions);
+    if (!questions) return;
+    this.questions = questions;
+    const index = Number.isInteger(currentIndex) ? currentIndex : this.currentQuestionIndex;
+    this.currentQuestionIndex = Math.max(0, Math.min(index, this.questions.length - 1));
+    if (this.gameConfig.currentQuestionIndex !== undefined) {
+      this.gameConfig = { ...this.gameConfig, currentQuestionIndex: this.currentQuestionIndex };
+    }
+    this.emitGameState();
+  }
+
+  // Lays out the board from the current question bank; every cell starts unused
+  buildBoard() {
+    this.board = buildBoard(this.questions);
+    this.emitGameState();
+  }
+
+  // The host picks a cell: its question goes up, the buzzers arm for the read and the cell is used up
+  pickBoardCell(position: BoardPosition) {
+    const cell = getBoardCell(this.board, position);
+    if (this.gameType !== 'board' || !cell || cell.used) return;
+    this.resetBuzzers();
+    this.board.activeCell = { category: position.category, row: position.row };
+    cell.used = true;
+    this.stopMedia(false);
+    this.gameConfig = { question: cell.question.question, ...(cell.question.media && { media: cell.question.media }) };
+    this.correctAnswer = cell.question.correctAnswer;
+    if (cell.question.timer) {
+      this.setTimerState(this.timers[0], { ...this.timers[0], durationMs: cell.question.timer * 1000 });
+    }
+    this.eventLogger.logBoardCellPicked(this.board.categories[position.category].name, cell.value, cell.question.question);
+    this.emitGameState();
+  }
+
+  // Back to the board; the cell stays used
+  closeBoardCell() {
+    if (!this.board.activeCell) return;
+    this.stopMedia(false);
+    this.board.activeCell = null;
+    this.gameConfig = {};
+    this.correctAnswer = null;
+    this.emitGameState();
+  }
+
+  // For fixing a mis-click: put a cell back in play, or take one off the board
+  setBoardCellUsed(position: BoardPosition, used: boolean) {
+    const cell = getBoardCell(this.board, position);
+    if (!cell) return;
+    cell.used = used;
+    this.emitGameState();
+  }
+
+  resetBoard() {
+    this.board.categories.forEach(category => category.cells.forEach(cell => { cell.used = false; }));
+    this.board.activeCell = null;
+    this.emitGameState();
+  }
+
+  setGameConfig(config: GameConfig) {
+    if (config.media?.id !== this.gameConfig.media?.id) {
+      this.stopMedia(false);
+    }
+    this.gameConfig = config;
+    // Reset round state
+    this.buzzOrder = [];
+    this.incorrectBuzzes = [];
+    this.answers = {};
+    this.answerTimes = {};
+    this.questionStartedAt = Date.now();
+    this.answerJudgements = {};
+    this.answerSuggestions = {};
+    this.numericResults = null;
+    this.revealAnswers = false;
+    this.answersLocked = false;
+    this.correctAnswer = null;
+    // Follow-ups still waiting on the last question don't carry over
+    this.automation.cancelAll();
+
+    // Log question change if present
+    if (config.currentQuestionIndex !== undefined) {
+      this.currentQuestionIndex = config.currentQuestionIndex;
+      const currentQuestion = this.questions[config.currentQuestionIndex];
+      this.eventLogger.logQuestionChange(
+        config.currentQuestionIndex,
+        currentQuestion?.question,
+        currentQuestion?.options
+      );
+    }
+
+    this.emitGameState();
+  }
+
+  setCorrectAnswer(answer: string) {
+    this.correctAnswer = answer;
+    if (this.gameType === 'free-text') {
+      this.answerSuggestions = Object.fromEntries(Object.entries(this.answers).map(([id, given]) => [id, this.suggestAnswer(given)]));
+    }
+    this.emitGameState();
+  }
+
+  reveal() {
+    if (this.revealAnswers) return;
+    this.revealAnswers = true;
+    if (this.gameType === 'free-text') {
+      // Answers the host didn't rule on fall back to the suggested match
+      Object.keys(this.answers).forEach(id => {
+        if (this.answerJudgements[id] === undefined) {
+          this.answerJudgements[id] = this.answerSuggestions[id] ?? false;
+          this.eventLogger.markAnswerJudged(id, this.answers[id], this.answerJudgements[id], false);
+        }
+      });
+      const changes = scoreAnswers(this.scoringRules, this.answers, this.answerTimes, id => this.answerJudgements[id], this.getCurrentQuestion()?.points);
+      changes.forEach(({ contestantId, points, reason }) => this.applyPoints(contestantId, points, reason));
+    } else if (this.gameType === 'numeric') {
+      const target = parseNumericAnswer(this.correctAnswer || '');
+      if (target !== null) {
+        this.numericResults = scoreNumericGuesses(this.scoringRules, this.answers, target, this.getAnswerLatencies());
+        this.numericResults.forEach(({ contestantId, points, place }) => this.applyPoints(contestantId, points, `numeric_place_${place}`));
+      }
+    } else if ((this.gameType === 'multiple-choice' || this.gameType === 'two-option') && this.correctAnswer) {
+      const correctAnswer = this.correctAnswer;
+      const changes = scoreAnswers(this.scoringRules, this.answers, this.answerTimes, (_, answer) => answer === correctAnswer, this.getCurrentQuestion()?.points);
+      changes.forEach(({ contestantId, points, reason }) => this.applyPoints(contestantId, points, reason));
+    }
+
+    // Log answer reveal
+    this.eventLogger.logAnswerReveal(this.correctAnswer || '', this.answers, this.numericResults || undefined, this.getAnswerLatencies());
+
+    this.emitGameState();
+  }
+
+  // Free-text: whether an answer looks like the correct one. Worked out once per answer (and again if the
+  // host changes the correct answer), not on every state update
+  private suggestAnswer(answer: string): boolean {
+    return !!suggestMatch(answer, this.correctAnswer)?.match;
+  }
+
+  // Host's accept/reject on a free-text answer, before the reveal scores it
+  judgeAnswer(contestantId: string, accepted: boolean) {
+    const answer = this.answers[contestantId];
+    if (this.gameType !== 'free-text' || this.revealAnswers || answer === undefined) return;
+    this.answerJudgements[contestantId] = accepted;
+    this.eventLogger.markAnswerJudged(contestantId, answer, accepted);
+    this.emitGameState();
+  }
+
+  // The pack question on screen, so the library can mark it as aired
+  getCurrentPackQuestion(): { packId: string; questionId: string } | null {
+    const questionId = this.getCurrentQuestion()?.id;
+    return this.questionPackId && questionId ? { packId: this.questionPackId, questionId } : null;
+  }
+
+  // Files screens should have ready before they're needed. Everyone gets what's on screen now; only the admin
+  // panel also hears where the host can go next (on the board, every cell still in play), since even a file
+  // name can give a clue away before it's picked
+  private getPreloadMedia(forAdmin: boolean): MediaRef[] {
+    const onScreen = { question: '', options: [], correctAnswer: '', media: this.gameConfig.media, optionMedia: this.gameConfig.optionMedia };
+    if (!forAdmin) {
+      return collectMedia([onScreen]);
+    }
+    if (this.gameType === 'multiple-choice') {
+      const index = this.gameConfig.currentQuestionIndex ?? this.currentQuestionIndex;
+      return collectMedia([onScreen, ...this.questions.slice(index, index + 2)]);
+    }
+    if (this.gameType === 'board') {
+      const unplayed = this.board.categories.flatMap(category => category.cells.filter(cell => !cell.used).map(cell => cell.question));
+      return collectMedia([onScreen, ...unplayed]);
+    }
+    return collectMedia([onScreen]);
+  }
+
+  // Plays (or resumes) the clip attached to the question on screen
+  playMedia() {
+    const media = this.gameConfig.media;
+    if (!media || media.kind === 'image' || (this.mediaPlayback.mediaId === media.id && this.mediaPlayback.playing)) return;
+    const offsetMs = this.mediaPlayback.mediaId === media.id ? this.mediaPlayback.offsetMs : 0;
+    this.mediaPlayback = { mediaId: media.id, playing: true, startedAt: Date.now(), offsetMs };
+    this.eventLogger.logMediaPlayback('play', media, offsetMs);
+    this.emitGameState();
+  }
+
+  pauseMedia() {
+    const media = this.gameConfig.media;
+    if (!media || !this.mediaPlayback.playing || this.mediaPlayback.mediaId !== media.id) return;
+    const offsetMs = this.getMediaPositionMs();
+    this.mediaPlayback = { mediaId: media.id, playing: false, startedAt: null, offsetMs };
+    this.eventLogger.logMediaPlayback('pause', media, offsetMs);
+    this.emitGameState();
+  }
+
+  // Back to the start. Moving off a question stops its clip too, without a separate emit
+  stopMedia(emit: boolean = true) {
+    if (this.mediaPlayback.mediaId === null) return;
+    const media = this.gameConfig.media;
+    if (media && media.id === this.mediaPlayback.mediaId) {
+      this.eventLogger.logMediaPlayback('stop', media, this.getMediaPositionMs());
+    }
+    this.mediaPlayback = { mediaId: null, playing: false, startedAt: null, offsetMs: 0 };
+    if (emit) this.emitGameState();
+  }
+
+  private getMediaPositionMs(): number {
+    const { playing, startedAt, offsetMs } = this.mediaPlayback;
+    return playing && startedAt !== null ? offsetMs + (Date.now() - startedAt) : offsetMs;
+  }
+
+  private getCurrentQuestion(): Question | undefined {
+    if (this.gameType === 'board') return getBoardCell(this.board, this.board.activeCell)?.question;
+    return this.questions[this.gameConfig.currentQuestionIndex ?? this.currentQuestionIndex];
+  }
+
+  // Every automatic score change goes through here so the log says why it happened
+  // `logZero`: still log a score_update for a zero change, for outcomes that must always leave one (wager reveals)
+  private applyPoints(contestantId: string, points: number, reason: string, logZero: boolean = false) {
+    const contestant = this.findContestant(contestantId);
+    if (!contestant || (points === 0 && !logZero)) return;
+    const oldScore = contestant.score;
+    contestant.score += points;
+    this.eventLogger.logScoreUpdate(contestant.id, contestant.name, oldScore, contestant.score, reason);
+
+    // Teams keeping their own score still earn what their members win
+    const team = this.teams.find(t => t.id === contestant.teamId);
+    if (team && this.teamScoreMode === 'separate') {
+      const oldTeamScore = team.score;
+      team.score += points;
+      this.eventLogger.logTeamScoreUpdate(team.id, team.name, oldTeamScore, team.score, reason);
+    }
+  }
+
+  submitWager(socketId: string, amount: unknown): { success: boolean; wager?: number; error?: string } {
+    const contestantId = this.socketToContestant.get(socketId);
+    const contestant = this.findContestant(contestantId);
+    if (!contestantId || !contestant) return { success: false, error: 'Not joined as a contestant' };
+    if (this.gameType !== 'wager' || this.wagerRound.phase !== 'wagering') {
+      return { success: false, error: 'Wagers are closed' };
+    }
+    const wager = clampWager(amount, contestant.score);
+    if (wager === null) return { success: false, error: 'Enter a whole number of points' };
+
+    this.wagerRound.wagers[contestantId] = wager;
+    // The amount stays off the log until the reveal; only that a bet was placed
+    this.eventLogger.logEvent('wager_submitted', {
+      contestantId,
+      contestantName: contestant.name,
+      timestamp: Date.now()
+    });
+    this.emitGameState();
+    return { success: true, wager };
+  }
+
+  setWagerPhase(phase: WagerPhase) {
+    if (this.gameType !== 'wager' || !WAGER_PHASES.includes(phase)) return;
+    this.wagerRound.phase = phase;
+    this.eventLogger.logEvent('wager_phase_change', { phase });
+    this.emitGameState();
+  }
+
+  // Reveals one contestant's answer and bet; the bet is won or lost on the host's call
+  revealWager(contestantId: string, correct: boolean) {
+    const contestant = this.findContestant(contestantId);
+    if (this.gameType !== 'wager' || !contestant || this.wagerRound.revealed.includes(contestantId)) return;
+
+    const wager = this.wagerRound.wagers[contestantId] ?? 0;
+    this.wagerRound.phase = 'revealing';
+    this.wagerRound.revealed.push(contestantId);
+    this.wagerRound.results[contestantId] = correct;
+
+    this.eventLogger.logEvent('wager_reveal', {
+      contestantId,
+      contestantName: contestant.name,
+      answer: this.answers[contestantId] ?? null,
+      wager,
+      correct
+    });
+    this.applyPoints(contestantId, correct ? wager : -wager, correct ? 'wager_won' : 'wager_lost', true);
+    this.emitGameState();
+  }
+
+  resetBuzzers() {
+    console.log('Resetting buzzers');
+    this.clearPendingBuzzes();
+    this.contestants.forEach(c => {
+      c.buzzed = false;
+      c.lockedOutUntil = null;
+    });
+    this.buzzOrder = [];
+    this.incorrectBuzzes = [];
+    this.answers = {};
+    this.answerTimes = {};
+    this.questionStartedAt = Date.now();
+    this.answerJudgements = {};
+    this.answerSuggestions = {};
+    this.numericResults = null;
+    this.revealAnswers = false;
+    this.answersLocked = false;
+    this.correctAnswer = null;
+    this.wagerRound = createWagerRound();
+    this.automation.cancelAll();
+    // The next question is about to be read
+    this.setBuzzerState('armed');
+  }
+
+  // First contestant in the buzz order who hasn't already been judged wrong
+  getActiveBuzzer(): string | null {
+    return this.buzzOrder.find(id => !this.incorrectBuzzes.includes(id)) ?? null;
+  }
+
+  // Judges whoever holds the buzz; a wrong answer passes it to the next in line.
+  // expectedContestantId guards against a double click judging the next contestant too
+  judgeBuzz(correct: boolean, expectedContestantId?: string) {
+    const contestantId = this.getActiveBuzzer();
+    const contestant = this.findContestant(contestantId ?? undefined);
+    if (!contestantId || !contestant) return;
+    if (expectedContestantId && expectedContestantId !== contestantId) {
+      console.log(`Ignoring judgement for ${expectedContestantId}: ${contestant.name} holds the buzz`);
+      return;
+    }
+
+    const questionPoints = this.gameType === 'board'
+      ? getBoardCell(this.board, this.board.activeCell)?.value
+      : this.getCurrentQuestion()?.points;
+    const points = scoreBuzz(this.scoringRules, correct, questionPoints);
+    this.applyPoints(contestantId, points, correct ? 'buzz_correct' : 'buzz_incorrect');
+
+    let nextContestantId: string | null = null;
+    if (correct) {
+      // Question's over; the host resets to arm the buzzers for the next one
+      this.buzzerState = 'closed';
+      this.buzzersOpenedAt = null;
+    } else {
+      this.incorrectBuzzes.push(contestantId);
+      nextContestantId = this.getActiveBuzzer();
+    }
+
+    this.eventLogger.logBuzzJudged(contestantId, contestant.name, correct, points, nextContestantId);
+
+    this.emitGameState();
+    if (correct) this.triggerAutomation('buzz-correct');
+  }
+
+  setAutomationRules(rules: unknown) {
+    this.automationRules = validateAutomationRules(rules);
+    this.emitGameState();
+  }
+
+  // Stops answers coming in or changing before the reveal. The main timer running out locks them too
+  setAnswersLocked(locked: boolean, reason: 'host' | 'timer' | 'automation' = 'host') {
+    if (this.answersLocked === locked) return;
+    this.answersLocked = locked;
+    this.eventLogger.logAnswersLocked(locked, reason, Object.keys(this.answers).length);
+    this.emitGameState();
+  }
+
+  setFirstAnswerFinal(enabled: boolean) {
+    this.firstAnswerFinal = enabled;
+    this.emitGameState();
+  }
+
+  // contestantId -> ms from the question going up to their final answer
+  getAnswerLatencies(): Record<string, number> {
+    const startedAt = this.questionStartedAt;
+    if (startedAt === null) return {};
+    return Object.fromEntries(Object.entries(this.answerTimes).map(([id, time]) => [id, Math.max(0, time - startedAt)]));
+  }
+
+  // Moves a multiple choice round on to the next question in the bank, like the host's Next button
+  nextQuestion() {
+    if (this.gameType !== 'multiple-choice') return;
+    const index = (this.gameConfig.currentQuestionIndex ?? this.currentQuestionIndex) + 1;
+    const question = this.questions[index];
+    if (!question) return;
+    this.setGameConfig({
+      question: question.question,
+      options: question.options,
+      currentQuestionIndex: index,
+      ...(question.media && { media: question.media }),
+      ...(question.optionMedia && { optionMedia: question.optionMedia })
+    });
+    this.correctAnswer = question.correctAnswer;
+    if (question.timer) {
+      this.setTimerState(this.timers[0], { ...this.timers[0], durationMs: question.timer * 1000 });
+    }
+    const aired = this.getCurrentPackQuestion();
+    if (aired) this.onQuestionAired?.(aired);
+    this.emitGameState();
+  }
+
+  private triggerAutomation(trigger: AutomationTrigger, timerId?: string) {
+    this.automation.fire(this.automationRules, trigger, timerId);
+  }
+
+  // Automated actions are logged as such before they run, so the marker sits ahead of whatever they change
+  private runAutomationRule(rule: AutomationRule) {
+    this.eventLogger.logAutomation(rule.trigger, rule.action, rule.delaySeconds, describeAutomationRule(rule));
+    switch (rule.action) {
+      case 'lock-answers':
+        this.setAnswersLocked(true, 'automation');
+        break;
+      case 'reveal':
+        if (ANSWER_GAME_TYPES.includes(this.gameType)) this.reveal();
+        break;
+      case 'stop-timer':
+        this.stopTimer(rule.timerId);
+        break;
+      case 'next-question':
+        this.nextQuestion();
+        break;
+      case 'reset-buzzers':
+        this.resetBuzzers();
+        break;
+      case 'close-buzzers':
+        this.closeBuzzers();
+        break;
+    }
+  }
+
+  setScoringRules(update: Partial<ScoringRules>) {
+    this.scoringRules = mergeScoringRules(this.scoringRules, update || {});
+    this.eventLogger.logEvent('scoring_rules_change', { ...this.scoringRules });
+    this.emitGameState();
+  }
+
+  openBuzzers() {
+    this.buzzersOpenedAt = Date.now();
+    this.setBuzzerState('open');
+  }
+
+  closeBuzzers() {
+    this.setBuzzerState('closed');
+  }
+
+  armBuzzers() {
+    this.setBuzzerState('armed');
+  }
+
+  setBuzzerLockout(lockoutMs: number) {
+    if (!Number.isFinite(lockoutMs) || lockoutMs < 0) return;
+    this.buzzerLockoutMs = Math.round(lockoutMs);
+    this.emitGameState();
+  }
+
+  private setBuzzerState(buzzerState: BuzzerState) {
+    if (buzzerState !== 'open') {
+      this.buzzersOpenedAt = null;
+    }
+    if (this.buzzerState !== buzzerState) {
+      this.buzzerState = buzzerState;
+      this.eventLogger.logBuzzerStateChange(buzzerState);
+    }
+    this.emitGameState();
+  }
+
+  resetScores() {
+    console.log('Resetting all scores to 0');
+    this.contestants.forEach(contestant => {
+      const oldScore = contestant.score;
+      contestant.score = 0;
+
+      // Log score reset
+      this.eventLogger.logScoreUpdate(contestant.id, contestant.name, oldScore, 0, 'reset');
+    });
+    this.teams.forEach(team => {
+      const oldScore = team.score;
+      team.score = 0;
+      this.eventLogger.logTeamScoreUpdate(team.id, team.name, oldScore, 0, 'reset');
+    });
+    this.emitGameState();
+  }
+
+  updateScore(contestantId: string, score: number) {
+    console.log('Score update:', { contestantId, score });
+    const contestant = this.findContestant(contestantId);
+    if (contestant) {
+      const oldScore = contestant.score;
+      contestant.score = score;
+
+      // Log score update
+      this.eventLogger.logScoreUpdate(contestant.id, contestant.name, oldScore, score);
+      this.emitGameState();
+    }
+  }
+
+  addContestant(name: string): Contestant {
+    const contestant: Contestant = {
+      id: generateContestantId(),
+      key: generateContestantKey(),
+      name,
+      score: 0,
+      buzzed: false,
+      connected: false,
+      lockedOutUntil: null,
+      teamId: null
+    };
+    this.contestants.push(contestant);
+
+    // Log contestant addition
+    this.eventLogger.logEvent('contestant_added', {
+      contestantId: contestant.id,
+      contestantName: contestant.name,
+      timestamp: Date.now()
+    });
+
+    this.emitGameState();
+    return contestant;
+  }
+
+  removeContestant(contestantId: string) {
+    console.log('Removing contestant:', contestantId);
+    const idx = this.contestants.findIndex(c => c.id === contestantId);
+    if (idx !== -1) {
+      const contestant = this.contestants[idx];
+      this.contestants.splice(idx, 1);
+      this.buzzOrder = this.buzzOrder.filter(id => id !== contestantId);
+      this.incorrectBuzzes = this.incorrectBuzzes.filter(id => id !== contestantId);
+      delete this.answers[contestantId];
+      delete this.answerTimes[contestantId];
+      delete this.answerJudgements[contestantId];
+      delete this.answerSuggestions[contestantId];
+
+      // Log contestant removal
+      this.eventLogger.logEvent('contestant_removed', {
+        contestantId,
+        contestantName: contestant.name,
+        timestamp: Date.now()
+      });
+
+      this.emitGameState();
+    }
+  }
+
+  regenerateContestantKey(contestantId: string) {
+    const contestant = this.findContestant(contestantId);
+    if (!contestant) return;
+    console.log(`Regenerating join link for ${contestant.name} (${contestant.id})`);
+    contestant.key = generateContestantKey();
+
+    // Kick every socket still using the old link
+    const contestantChannel = `${this.channel}:contestant:${contestantId}`;
+    this.socketToContestant.forEach((boundId, socketId) => {
+      if (boundId === contestantId) {
+        this.socketToContestant.delete(socketId);
+      }
+    });
+    this.io.to(contestantChannel).emit('joinError', { message: 'This contestant link has been revoked.' });
+    this.io.in(contestantChannel).socketsLeave([this.channel, contestantChannel]);
+    contestant.connected = false;
+
+    this.eventLogger.logEvent('contestant_link_regenerated', {
+      contestantId,
+      contestantName: contestant.name,
+      timestamp: Date.now()
+    });
+
+    this.emitGameState();
+  }
+
+  addTeam(name: string): Team | null {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) return null;
+    const team: Team = { id: generateTeamId(), name: trimmed, score: 0 };
+    this.teams.push(team);
+    this.eventLogger.logEvent('team_added', { teamId: team.id, teamName: team.name });
+    this.emitGameState();
+    return team;
+  }
+
+  renameTeam(teamId: string, name: string) {
+    const team = this.teams.find(t => t.id === teamId);
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!team || !trimmed) return;
+    team.name = trimmed;
+    this.emitGameState();
+  }
+
+  // Members stay in the game, just without a team
+  removeTeam(teamId: string) {
+    const team = this.teams.find(t => t.id === teamId);
+    if (!team) return;
+    this.teams = this.teams.filter(t => t.id !== teamId);
+    this.contestants.forEach(c => {
+      if (c.teamId === teamId) c.teamId = null;
+    });
+    this.eventLogger.logEvent('team_removed', { teamId, teamName: team.name });
+    this.emitGameState();
+  }
+
+  setContestantTeam(contestantId: string, teamId: string | null) {
+    const contestant = this.findContestant(contestantId);
+    if (!contestant || (teamId !== null && !this.teams.some(t => t.id === teamId))) return;
+    contestant.teamId = teamId;
+    this.eventLogger.logEvent('contestant_team_change', { contestantId, contestantName: contestant.name, teamId });
+    this.emitGameState();
+  }
+
+  // Manual edit of a team's own score; in 'sum' mode edit the members instead
+  updateTeamScore(teamId: string, score: number) {
+    const team = this.teams.find(t => t.id === teamId);
+    if (!team || !Number.isFinite(score)) return;
+    const oldScore = team.score;
+    team.score = score;
+    this.eventLogger.logTeamScoreUpdate(team.id, team.name, oldScore, score);
+    this.emitGameState();
+  }
+
+  setTeamScoreMode(mode: TeamScoreMode) {
+    if (!TEAM_SCORE_MODES.includes(mode)) return;
+    this.teamScoreMode = mode;
+    this.emitGameState();
+  }
+
+  setTeamBuzzLockout(enabled: boolean) {
+    this.teamBuzzLockout = enabled;
+    this.emitGameState();
+  }
+
+  reorderContestants(newOrder: string[]) {
+    console.log('Reordering contestants:', newOrder);
+    // Reorder contestants array to match newOrder
+    const idToContestant = Object.fromEntries(this.contestants.map(c => [c.id, c]));
+    const reordered = newOrder.map(id => idToContestant[id]).filter(Boolean);
+    if (reordered.length === this.contestants.length) {
+      this.contestants.splice(0, this.contestants.length, ...reordered);
+      this.emitGameState();
+    }
+  }
+
+  private findTimer(timerId: string = MAIN_TIMER_ID): NamedTimer | undefined {
+    return this.timers.find(timer => timer.id === timerId);
+  }
+
+  // Swaps in a timer's new state under the same id and name
+  private setTimerState(timer: NamedTimer, state: TimerState): NamedTimer {
+    const next = { ...state, id: timer.id, name: timer.name };
+    this.timers = this.timers.map(t => (t.id === timer.id ? next : t));
+    return next;
+  }
+
+  addTimer(name: string) {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) return;
+    this.timers = [...this.timers, createNamedTimer(generateTimerId(), trimmed)];
+    this.emitGameState();
+  }
+
+  renameTimer(timerId: string, name: string) {
+    const timer = this.findTimer(timerId);
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!timer || !trimmed) return;
+    this.timers = this.timers.map(t => (t.id === timer.id ? { ...t, name: trimmed } : t));
+    this.emitGameState();
+  }
+
+  // The main timer can't be removed; questions and rundown segments set its length
+  removeTimer(timerId: string) {
+    const timer = this.findTimer(timerId);
+    if (!timer || timer.id === MAIN_TIMER_ID) return;
+    this.cancelTimerExpiry(timer.id);
+    this.timers = this.timers.filter(t => t.id !== timer.id);
+    this.emitGameState();
+  }
+
+  // Switching modes starts the new clock from scratch but keeps the set length
+  setTimerMode(mode: TimerMode, timerId: string = MAIN_TIMER_ID) {
+    const timer = this.findTimer(timerId);
+    if (!timer || !TIMER_MODES.includes(mode) || mode === timer.mode) return;
+    this.cancelTimerExpiry(timer.id);
+    this.setTimerState(timer, createTimer(mode, timer.durationMs));
+    this.emitGameState();
+  }
+
+  // Countdowns run from `duration` seconds, a stopwatch from zero, and a chess clock gives
+  // every contestant `duration` seconds and starts on whoever has the turn
+  startTimer(duration: number, timerId: string = MAIN_TIMER_ID) {
+    const timer = this.findTimer(timerId);
+    if (!timer) return;
+    const mode = timer.mode;
+    // A stopwatch counts up from zero; the other modes need a length to count down from
+    if (mode !== 'stopwatch' && !isValidTimerSeconds(duration)) return;
+    const durationMs = duration * 1000;
+    const now = Date.now();
+    let next: TimerState;
+    if (mode === 'stopwatch') {
+      next = { ...createTimer(mode, timer.durationMs), running: true, startedAt: now };
+    } else if (mode === 'chess-clock') {
+      const first = this.findContestant(timer.activeContestantId ?? undefined) ?? this.contestants[0];
+      if (!first) return;
+      next = {
+        ...createTimer(mode, durationMs),
+        running: true,
+        endsAt: now + durationMs,
+        banks: Object.fromEntries(this.contestants.map(c => [c.id, durationMs])),
+        activeContestantId: first.id
+      };
+    } else {
+      next = { ...createTimer(mode, durationMs), running: true, endsAt: now + durationMs };
+    }
+    this.scheduleTimerExpiry(this.setTimerState(timer, next));
+    this.emitGameState();
+
+    // Log timer start
+    this.eventLogger.logTimerStart(timer, duration, mode);
+  }
+
+  stopTimer(timerId: string = MAIN_TIMER_ID) {
+    const timer = this.findTimer(timerId);
+    if (!timer?.running) return;
+    const stopped = this.pauseNamedTimer(timer);
+    this.emitGameState();
+
+    // Log timer stop
+    this.eventLogger.logTimerStop(stopped, stopped.mode === 'stopwatch' ? getElapsedMs(stopped) : getRemainingMs(stopped), stopped.mode);
+  }
+
+  resumeTimer(timerId: string = MAIN_TIMER_ID) {
+    const timer = this.findTimer(timerId);
+    if (!timer || timer.running) return;
+    const now = Date.now();
+    const mode = timer.mode;
+    const resumeFromMs = mode === 'stopwatch' ? timer.pausedElapsedMs : getRemainingMs(timer, now);
+    if (resumeFromMs === null) return;
+
+    let next: TimerState;
+    if (mode === 'stopwatch') {
+      next = { ...timer, running: true, startedAt: now - resumeFromMs, pausedElapsedMs: null };
+    } else {
+      // A chess clock only resumes once it has been started, and not on a contestant who's out of time
+      if (resumeFromMs <= 0 || (mode === 'chess-clock' && Object.keys(timer.banks).length === 0)) return;
+      next = { ...timer, running: true, endsAt: now + resumeFromMs, pausedRemainingMs: null };
+    }
+    this.scheduleTimerExpiry(this.setTimerState(timer, next));
+    this.emitGameState();
+
+    this.eventLogger.logTimerResume(timer, resumeFromMs, mode);
+  }
+
+  // Back to not started, keeping the mode and set length
+  resetTimer(timerId: string = MAIN_TIMER_ID) {
+    const timer = this.findTimer(timerId);
+    if (!timer) return;
+    this.cancelTimerExpiry(timer.id);
+    this.setTimerState(timer, createTimer(timer.mode, timer.durationMs));
+    this.emitGameState();
+  }
+
+  setTimerDuration(duration: number, timerId: string = MAIN_TIMER_ID) {
+    const timer = this.findTimer(timerId);
+    if (!timer || !isValidTimerSeconds(duration, true)) return;
+    this.setTimerState(timer, { ...timer, durationMs: duration * 1000 });
+    this.emitGameState();
+  }
+
+  // Hands the chess clock to another contestant; their bank picks up where it left off.
+  // Before the clock starts this just picks who goes first
+  setChessTurn(contestantId: string, timerId: string = MAIN_TIMER_ID) {
+    const contestant = this.findContestant(contestantId);
+    const timer = this.findTimer(timerId);
+    if (!timer || timer.mode !== 'chess-clock' || !contestant || contestant.id === timer.activeContestantId) return;
+    const started = Object.keys(timer.banks).length > 0;
+    const wasRunning = timer.running;
+    const now = Date.now();
+    const paused = this.pauseNamedTimer(timer, now);
+    const remainingMs = getBankMs(paused, contestant.id, now);
+    let next: TimerState = {
+      ...paused,
+      activeContestantId: contestant.id,
+      banks: started ? { ...paused.banks, [contestant.id]: remainingMs } : paused.banks
+    };
+    // The clock keeps running for the new contestant, unless they're already out of time
+    if (wasRunning && remainingMs > 0) {
+      next = { ...next, running: true, endsAt: now + remainingMs };
+    }
+    this.scheduleTimerExpiry(this.setTimerState(timer, next));
+    if (started) {
+      this.eventLogger.logTimerTurn(timer, contestant.id, contestant.name, remainingMs);
+    }
+    this.emitGameState();
+  }
+
+  // The contestant on turn hits the clock, passing every chess clock they're on to the next contestant with time left
+  passChessTurn(socketId: string) {
+    const contestantId = this.socketToContestant.get(socketId);
+    if (!contestantId) return;
+    const index = this.contestants.findIndex(c => c.id === contestantId);
+    const order = [...this.contestants.slice(index + 1), ...this.contestants.slice(0, index)];
+    this.timers
+      .filter(timer => timer.mode === 'chess-clock' && timer.running && timer.activeContestantId === contestantId)
+      .forEach(timer => {
+        const next = order.find(c => getBankMs(timer, c.id) > 0);
+        if (next) this.setChessTurn(next.id, timer.id);
+      });
+  }
+
+  // Running stopwatches note when each contestant first buzzed or answered
+  private recordSplit(contestantId: string, at: number, source: TimerSplit['source']) {
+    this.timers.forEach(timer => {
+      const { mode, running, startedAt, splits } = timer;
+      if (mode !== 'stopwatch' || !running || startedAt === null || splits.some(split => split.contestantId === contestantId)) return;
+      const elapsedMs = Math.max(0, at - startedAt);
+      this.setTimerState(timer, { ...timer, splits: [...splits, { contestantId, elapsedMs, source }] });
+      this.eventLogger.logTimerSplit(timer, contestantId, this.findContestant(contestantId)?.name ?? contestantId, elapsedMs, source);
+    });
+  }
+
+  // One timeout per run instead of a per-second tick, so expiry lands on the exact millisecond.
+  // A stopwatch never expires
+  private scheduleTimerExpiry(timer: NamedTimer) {
+    this.cancelTimerExpiry(timer.id);
+    const endsAt = timer.endsAt;
+    if (endsAt === null || !timer.running) return;
+
+    this.timerTimeouts.set(timer.id, setTimeout(() => {
+      this.timerTimeouts.delete(timer.id);
+      const current = this.findTimer(timer.id);
+      if (!current) return;
+      if (current.mode === 'chess-clock') {
+        const contestant = this.findContestant(current.activeContestantId ?? undefined);
+        this.setTimerState(current, pauseTimer(current, endsAt));
+        this.eventLogger.logTimerExpired(current, endsAt, contestant);
+      } else {
+        this.setTimerState(current, { ...current, running: false, endsAt: null, pausedRemainingMs: 0 });
+        this.eventLogger.logTimerExpired(current, endsAt);
+        if (current.id === MAIN_TIMER_ID && ANSWER_GAME_TYPES.includes(this.gameType) && !this.revealAnswers) {
+          this.setAnswersLocked(true, 'timer');
+        }
+      }
+      this.emitGameState();
+      this.triggerAutomation('timer-expired', current.id);
+    }, Math.max(0, endsAt - Date.now())));
+  }
+
+  private cancelTimerExpiry(timerId: string) {
+    const timeout = this.timerTimeouts.get(timerId);
+    if (timeout) clearTimeout(timeout);
+    this.timerTimeouts.delete(timerId);
+  }
+
+  // Pauses a timer without logging or emitting, e.g. the main timer when the game type changes
+  private pauseNamedTimer(timer: NamedTimer, now: number = Date.now()): NamedTimer {
+    this.cancelTimerExpiry(timer.id);
+    return this.setTimerState(timer, pauseTimer(timer, now));
+  }
+}
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'assert';
+import { ActionHistory, applyChange, describeAdminAction, diffStates } from './history';
+
+const contestants = [
+  { id: 'a', name: 'Ann', score: 0, connected: true },
+  { id: 'b', name: 'Bob', score: 0, connected: true }
+];
+
+test('diffStates returns null when nothing changed', () => {
+  const state = { gameType: 'buzzer', contestants };
+  assert.strictEqual(diffStates(state, { ...state }, ['contestants']), null);
+});
+
+test('undo reverts only the fields the action changed', () => {
+  const before = { gameType: 'buzzer', contestants };
+  const after = { gameType: 'buzzer', contestants: [{ ...contestants[0], score: 10 }, contestants[1]] };
+  const change = diffStates(before, after, ['contestants'])!;
+
+  // Bob scores and Ann disconnects after the action; undo keeps both
+  const later = { gameType: 'buzzer', contestants: [{ ...after.contestants[0], connected: false }, { ...contestants[1], score: 5 }] };
+  const undone = applyChange(later, change, 'undo');
+  assert.deepStrictEqual(undone.contestants, [
+    { id: 'a', name: 'Ann', score: 0, connected: false },
+    { id: 'b', name: 'Bob', score: 5, connected: true }
+  ]);
+  assert.deepStrictEqual(applyChange(undone, change, 'redo').contestants, later.contestants);
+});
+
+test('ignored fields are never part of a change', () => {
+  const before = { contestants };
+  const after = { contestants: [{ ...contestants[0], connected: false }, contestants[1]] };
+  assert.strictEqual(diffStates(before, after, ['contestants'], ['connected']), null);
+});
+
+test('undo puts a removed entity back in its place and redo removes it again', () => {
+  const carl = { id: 'c', name: 'Carl', score: 3, connected: true };
+  const before = { contestants: [contestants[0], carl, contestants[1]] };
+  const after = { contestants };
+  const change = diffStates(before, after, ['contestants'])!;
+
+  const undone = applyChange(after, change, 'undo');
+  assert.deepStrictEqual((undone.contestants as typeof contestants).map(c => c.id), ['a', 'c', 'b']);
+  assert.deepStrictEqual(applyChange(undone, change, 'redo').contestants, contestants);
+});
+
+test('undo removes an added entity', () => {
+  const before = { contestants };
+  const after = { contestants: [...contestants, { id: 'c', name: 'Carl', score: 0, connected: true }] };
+  const change = diffStates(before, after, ['contestants'])!;
+  assert.deepStrictEqual(applyChange(after, change, 'undo').contestants, contestants);
+});
+
+test('undo restores the order and keeps later additions at the end', () => {
+  const before = { contestants };
+  const after = { contestants: [contestants[1], contestants[0]] };
+  const change = diffStates(before, after, ['contestants'])!;
+
+  const later = { contestants: [...after.contestants, { id: 'c', name: 'Carl', score: 0, connected: true }] };
+  const undone = applyChange(later, change, 'undo');
+  assert.deepStrictEqual((undone.contestants as typeof contestants).map(c => c.id), ['a', 'b', 'c']);
+});
+
+test('ActionHistory clears the redo stack on a new action', () => {
+  const history = new ActionHistory();
+  const change = { fields: { gameType: { before: 'buzzer', after: 'wager' } }, collections: {} };
+  history.record('admin:setGameType', 'Switch to wager', change);
+  history.record('admin:setGameType', 'Switch to buzzer', change);
+
+  assert.strictEqual(history.undo()?.description, 'Switch to buzzer');
+  assert.deepStrictEqual(history.getSummary().redo.map(entry => entry.description), ['Switch to buzzer']);
+
+  history.record('admin:setGameType', 'Switch to numeric', change);
+  const summary = history.getSummary();
+  assert.deepStrictEqual(summary.undo.map(entry => entry.description), ['Switch to numeric', 'Switch to wager']);
+  assert.deepStrictEqual(summary.redo, []);
+  assert.strictEqual(history.redo(), undefined);
+});
+
+test('ActionHistory keeps the last 50 steps', () => {
+  const history = new ActionHistory();
+  const change = { fields: { round: { before: 0, after: 1 } }, collections: {} };
+  for (let step = 1; step <= 60; step++) {
+    history.record('admin:nextRound', `Step ${step}`, change);
+  }
+  const { undo } = history.getSummary();
+  assert.strictEqual(undo.length, 50);
+  assert.strictEqual(undo[0].description, 'Step 60');
+  assert.strictEqual(undo[49].description, 'Step 11');
+});
+
+test('describeAdminAction names the contestant and falls back to the action name', () => {
+  assert.strictEqual(describeAdminAction('admin:updateScore', [{ contestantId: 'b', score: 7 }], contestants), "Set Bob's score to 7");
+  assert.strictEqual(describeAdminAction('admin:removeContestant', ['x'], contestants), 'Remove contestant');
+  assert.strictEqual(describeAdminAction('admin:goToSegment', [2], contestants), 'Go to segment 3');
+  assert.strictEqual(describeAdminAction('admin:setScoringRules', [{}], contestants), 'Set scoring rules');
+});
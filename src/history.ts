@@ -0,0 +1,206 @@
+// Undo/redo for host actions. Each entry stores only what the action changed, so undoing a
+// score edit doesn't also roll back buzzes or answers that came in after it.
+type State = Record<string, unknown>;
+type Entity = { id: string; [field: string]: unknown };
+
+interface EntityChange {
+  id: string;
+  index: number;
+  before: Entity | null; // null: the action added it; otherwise the changed fields (or the whole entity if removed)
+  after: Entity | null; // null: the action removed it
+}
+
+interface CollectionChange {
+  entities: EntityChange[];
+  order?: { before: string[]; after: string[] };
+}
+
+export interface StateChange {
+  fields: Record<string, { before: unknown; after: unknown }>;
+  collections: Record<string, CollectionChange>;
+}
+
+export interface HistoryEntry {
+  id: number;
+  action: string;
+  description: string;
+  timestamp: number;
+  change: StateChange;
+}
+
+export interface HistorySummary {
+  undo: { id: number; description: string; timestamp: number }[]; // most recent first
+  redo: { id: number; description: string; timestamp: number }[]; // next redo first
+}
+
+const MAX_HISTORY = 50;
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// collections: keys holding arrays of { id } diffed per entity and field;
+// ignoredFields: live per-entity state (connections, link secrets) that undo must never touch
+export function diffStates(before: State, after: State, collections: string[], ignoredFields: string[] = []): StateChange | null {
+  const change: StateChange = { fields: {}, collections: {} };
+
+  Object.keys({ ...before, ...after }).forEach(key => {
+    if (collections.includes(key)) return;
+    if (!same(before[key], after[key])) {
+      change.fields[key] = { before: clone(before[key]), after: clone(after[key]) };
+    }
+  });
+
+  collections.forEach(key => {
+    const beforeList = (before[key] as Entity[]) || [];
+    const afterList = (after[key] as Entity[]) || [];
+    const entities: EntityChange[] = [];
+
+    beforeList.forEach((entity, index) => {
+      const updated = afterList.find(e => e.id === entity.id);
+      if (!updated) {
+        entities.push({ id: entity.id, index, before: clone(entity), after: null });
+        return;
+      }
+      const changedFields = Object.keys({ ...entity, ...updated })
+        .filter(field => !ignoredFields.includes(field) && !same(entity[field], updated[field]));
+      if (changedFields.length > 0) {
+        entities.push({
+          id: entity.id,
+          index,
+          before: Object.fromEntries([['id', entity.id], ...changedFields.map(f => [f, clone(entity[f])])]),
+          after: Object.fromEntries([['id', entity.id], ...changedFields.map(f => [f, clone(updated[f])])])
+        });
+      }
+    });
+    afterList.forEach((entity, index) => {
+      if (!beforeList.some(e => e.id === entity.id)) {
+        entities.push({ id: entity.id, index, before: null, after: clone(entity) });
+      }
+    });
+
+    const beforeOrder = beforeList.map(e => e.id).filter(id => afterList.some(e => e.id === id));
+    const afterOrder = afterList.map(e => e.id).filter(id => beforeList.some(e => e.id === id));
+    const reordered = !same(beforeOrder, afterOrder);
+
+    if (entities.length > 0 || reordered) {
+      change.collections[key] = {
+        entities,
+        order: reordered ? { before: beforeOrder, after: afterOrder } : undefined
+      };
+    }
+  });
+
+  const changed = Object.keys(change.fields).length > 0 || Object.keys(change.collections).length > 0;
+  return changed ? change : null;
+}
+
+// Returns a copy of state with the change rolled back ('undo') or reapplied ('redo')
+export function applyChange(state: State, change: StateChange, direction: 'undo' | 'redo'): State {
+  const from = direction === 'undo' ? 'after' : 'before';
+  const to = direction === 'undo' ? 'before' : 'after';
+  const next: State = { ...state };
+
+  Object.entries(change.fields).forEach(([key, values]) => {
+    next[key] = clone(values[to]);
+  });
+
+  Object.entries(change.collections).forEach(([key, { entities, order }]) => {
+    let list = clone((state[key] as Entity[]) || []);
+    entities.forEach(entityChange => {
+      const target = entityChange[to];
+      if (target === null) {
+        list = list.filter(e => e.id !== entityChange.id);
+      } else if (entityChange[from] === null) {
+        if (!list.some(e => e.id === entityChange.id)) {
+          list.splice(Math.min(entityChange.index, list.length), 0, clone(target));
+        }
+      } else {
+        const existing = list.find(e => e.id === entityChange.id);
+        if (existing) Object.assign(existing, clone(target));
+      }
+    });
+    if (order) {
+      // Anything added since keeps its place at the end
+      const rank = (id: string) => {
+        const index = order[to].indexOf(id);
+        return index === -1 ? order[to].length : index;
+      };
+      list = list
+        .map((entity, index) => ({ entity, index }))
+        .sort((a, b) => rank(a.entity.id) - rank(b.entity.id) || a.index - b.index)
+        .map(({ entity }) => entity);
+    }
+    next[key] = list;
+  });
+
+  return next;
+}
+
+// Bounded undo/redo stacks; a new action clears the redo stack
+export class ActionHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private nextId = 1;
+
+  record(action: string, description: string, change: StateChange) {
+    this.undoStack.push({ id: this.nextId++, action, description, timestamp: Date.now(), change });
+    if (this.undoStack.length > MAX_HISTORY) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  undo(): HistoryEntry | undefined {
+    const entry = this.undoStack.pop();
+    if (entry) this.redoStack.push(entry);
+    return entry;
+  }
+
+  redo(): HistoryEntry | undefined {
+    const entry = this.redoStack.pop();
+    if (entry) this.undoStack.push(entry);
+    return entry;
+  }
+
+  getSummary(): HistorySummary {
+    const summarize = ({ id, description, timestamp }: HistoryEntry) => ({ id, description, timestamp });
+    return {
+      undo: [...this.undoStack].reverse().map(summarize),
+      redo: [...this.redoStack].reverse().map(summarize)
+    };
+  }
+}
+
+// "admin:setGameType" -> "Set game type"
+const humanize = (action: string) => {
+  const words = action.replace(/^admin:/, '').replace(/([A-Z])/g, ' $1').toLowerCase().trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// What the history panel shows for each step
+export function describeAdminAction(action: string, args: any[], contestants: { id: string; name: string }[]): string {
+  const [data] = args;
+  const nameOf = (id: unknown) => contestants.find(c => c.id === id)?.name ?? 'contestant';
+  switch (action) {
+    case 'admin:updateScore':
+      return `Set ${nameOf(data?.contestantId)}'s score to ${data?.score}`;
+    case 'admin:removeContestant':
+      return `Remove ${nameOf(data)}`;
+    case 'admin:judgeBuzz':
+      return `Judge buzz ${data?.correct ? 'correct' : 'incorrect'}`;
+    case 'admin:judgeAnswer':
+      return `${data?.accepted ? 'Accept' : 'Reject'} ${nameOf(data?.contestantId)}'s answer`;
+    case 'admin:revealAnswers':
+      return 'Reveal answers';
+    case 'admin:revealWager':
+      return `Reveal ${nameOf(data?.contestantId)}'s wager (${data?.correct ? 'correct' : 'incorrect'})`;
+    case 'admin:setGameType':
+      return `Switch to ${data}`;
+    case 'admin:goToSegment':
+      return `Go to segment ${Number(data) + 1}`;
+    case 'admin:setContestantTeam':
+      return `Change ${nameOf(data?.contestantId)}'s team`;
+    default:
+      return humanize(action);
+  }
+}
@@ -0,0 +1,105 @@
+import crypto = require('crypto');
+import fs = require('fs');
+import path = require('path');
+import { getDataDir, StateStore } from './stateStore';
+import { MediaAsset, MediaKind, MediaRef, Question } from './types';
+
+export const MEDIA_KINDS: MediaKind[] = ['image', 'audio', 'video'];
+export const MAX_MEDIA_SIZE = '50mb';
+
+// Formats every major browser (and OBS) can show; anything else is turned away on upload.
+// SVG is left out because it can carry scripts and the files are served from our own origin
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/ogg': 'ogv'
+};
+
+export function getMediaKind(mimeType: string): MediaKind | null {
+  if (!MEDIA_EXTENSIONS[mimeType]) return null;
+  return MEDIA_KINDS.find(kind => mimeType.startsWith(`${kind}/`)) ?? null;
+}
+
+// Question files and editor saves may carry media refs; keep only well-formed ones
+export function parseMediaRef(value: unknown): MediaRef | null {
+  const ref = value as Partial<MediaRef> | null;
+  if (!ref || typeof ref !== 'object' || typeof ref.id !== 'string' || !/^[a-f0-9]{6,32}$/.test(ref.id)) return null;
+  if (!MEDIA_KINDS.includes(ref.kind as MediaKind)) return null;
+  return { id: ref.id, kind: ref.kind as MediaKind, ...(typeof ref.name === 'string' && ref.name && { name: ref.name }) };
+}
+
+// Every file the given questions show, once each, so screens can fetch them ahead of time
+export function collectMedia(questions: (Question | undefined)[]): MediaRef[] {
+  const refs = new Map<string, MediaRef>();
+  questions.forEach(question => {
+    [question?.media, ...(question?.optionMedia || [])].forEach(ref => {
+      if (ref && !refs.has(ref.id)) refs.set(ref.id, ref);
+    });
+  });
+  return Array.from(refs.values());
+}
+
+// Uploaded pictures, clips and videos, stored as files under DATA_DIR/media with a JSON index
+export class MediaLibrary {
+  private assets = new Map<string, MediaAsset>();
+  private index = new StateStore<MediaAsset[]>('media/index.json');
+
+  constructor() {
+    (this.index.load() || []).forEach(asset => this.assets.set(asset.id, asset));
+  }
+
+  list(): MediaAsset[] {
+    return Array.from(this.assets.values()).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  get(id: string): MediaAsset | undefined {
+    return this.assets.get(id);
+  }
+
+  getFilePath(asset: MediaAsset): string {
+    return path.join(getDataDir(), 'media', `${asset.id}.${MEDIA_EXTENSIONS[asset.mimeType]}`);
+  }
+
+  add(data: Buffer, mimeType: string, name: string): MediaAsset | null {
+    const kind = getMediaKind(mimeType);
+    if (!kind || data.length === 0) return null;
+    const asset: MediaAsset = {
+      id: crypto.randomBytes(8).toString('hex'),
+      kind,
+      name: name.trim() || `Untitled ${kind}`,
+      mimeType,
+      size: data.length,
+      createdAt: Date.now()
+    };
+    fs.writeFileSync(this.getFilePath(asset), data);
+    this.assets.set(asset.id, asset);
+    this.save();
+    return asset;
+  }
+
+  remove(id: string): boolean {
+    const asset = this.assets.get(id);
+    if (!asset) return false;
+    this.assets.delete(id);
+    const file = this.getFilePath(asset);
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+    this.save();
+    return true;
+  }
+
+  private save() {
+    this.index.save(this.list());
+  }
+}
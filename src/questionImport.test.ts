@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'assert';
+import { detectFormat, importQuestions, parseCsv, validateQuestion } from './questionImport';
+
+test('parseCsv handles quoted commas, doubled quotes and line breaks', () => {
+  const rows = parseCsv('\uFEFFquestion,option1\r\n"Say ""hi"", then\nwave",b\n\n,\nlast,row');
+  assert.deepStrictEqual(rows, [
+    { line: 1, cells: ['question', 'option1'] },
+    { line: 2, cells: ['Say "hi", then\nwave', 'b'] },
+    { line: 6, cells: ['last', 'row'] }
+  ]);
+});
+
+test('importQuestions reads a CSV file and reports problems by line', () => {
+  const csv = [
+    'Question,Option1,Option2,Option3,Correct,Points,Extra',
+    'Capital of France?,Paris,Rome,,paris,200,',
+    '"Multi',
+    'line?",Yes,No,,Maybe,,',
+    'Largest planet?,Jupiter,Jupiter,,Jupiter,-1,'
+  ].join('\n');
+  const { questions, errors } = importQuestions(csv, 'csv', 'multiple-choice');
+
+  assert.deepStrictEqual(questions, [
+    { question: 'Capital of France?', options: ['Paris', 'Rome'], correctAnswer: 'Paris', points: 200 }
+  ]);
+  assert.deepStrictEqual(errors, [
+    { line: 1, message: 'Unknown column "extra" was ignored' },
+    { line: 3, message: 'correct answer "Maybe" doesn\'t match any option' },
+    { line: 5, message: 'options must be unique' },
+    { line: 5, message: 'points must be a number of zero or more' }
+  ]);
+});
+
+test('importQuestions needs a header row', () => {
+  const { questions, errors } = importQuestions('Capital of France?,Paris,Rome,Paris', 'csv', 'multiple-choice');
+  assert.deepStrictEqual(questions, []);
+  assert.strictEqual(errors.length, 1);
+  assert.match(errors[0].message, /Missing header row/);
+});
+
+test('importQuestions reads a JSON list or an object with a questions list', () => {
+  const question = { question: 'Pick one', options: ['A', 'B'], correctAnswer: 'B', timer: 30 };
+  const expected = [{ question: 'Pick one', options: ['A', 'B'], correctAnswer: 'B', timer: 30 }];
+  assert.deepStrictEqual(importQuestions(JSON.stringify([question]), 'json', 'multiple-choice'), { questions: expected, errors: [] });
+  assert.deepStrictEqual(importQuestions(JSON.stringify({ questions: [question] }), 'json', 'multiple-choice'), { questions: expected, errors: [] });
+});
+
+test('importQuestions reports broken or empty JSON', () => {
+  assert.match(importQuestions('{ nope', 'json', 'multiple-choice').errors[0].message, /^Invalid JSON/);
+  assert.match(importQuestions('{"name": "pack"}', 'json', 'multiple-choice').errors[0].message, /"questions" list/);
+  assert.deepStrictEqual(importQuestions('[]', 'json', 'multiple-choice').errors, [{ line: 1, message: 'No questions found' }]);
+  assert.deepStrictEqual(importQuestions('[null]', 'json', 'multiple-choice').errors.map(error => error.line), [1, 1, 1]);
+});
+
+test('validateQuestion accepts a board clue with a category and a free answer', () => {
+  assert.deepStrictEqual(validateQuestion({ question: 'This river flows through Cairo', category: 'Geography', points: '400', correctAnswer: 'What is the Nile?' }, 'clue'), {
+    problems: [],
+    question: { question: 'This river flows through Cairo', options: [], correctAnswer: 'What is the Nile?', points: 400, category: 'Geography' }
+  });
+  assert.strictEqual(validateQuestion({ question: 'No answer yet', category: 'Misc' }, 'clue').question?.correctAnswer, '');
+});
+
+test('validateQuestion rejects a clue without a category', () => {
+  assert.deepStrictEqual(validateQuestion({ question: 'Orphan clue', correctAnswer: 'x' }, 'clue').problems, [
+    'a board clue needs a category'
+  ]);
+});
+
+test('importQuestions checks rows without options as multiple choice unless they are for the board', () => {
+  const csv = 'question,category,answer\nThis river flows through Cairo,Geography,The Nile';
+  assert.deepStrictEqual(importQuestions(csv, 'csv', 'multiple-choice'), {
+    questions: [],
+    errors: [
+      { line: 2, message: 'needs at least 2 options, found 0' },
+      { line: 2, message: 'correct answer "The Nile" doesn\'t match any option' }
+    ]
+  });
+  assert.deepStrictEqual(importQuestions(csv, 'csv', 'clue'), {
+    questions: [{ question: 'This river flows through Cairo', options: [], correctAnswer: 'The Nile', category: 'Geography' }],
+    errors: []
+  });
+});
+
+test('detectFormat prefers the hint, then sniffs for JSON', () => {
+  assert.strictEqual(detectFormat('[]', 'csv'), 'csv');
+  assert.strictEqual(detectFormat('  {"questions": []}'), 'json');
+  assert.strictEqual(detectFormat('question,option1'), 'csv');
+});
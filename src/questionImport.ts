@@ -0,0 +1,237 @@
+import { GameType, Question } from './types';
+import { parseMediaRef } from './mediaLibrary';
+
+export type ImportFormat = 'csv' | 'json';
+
+export interface ImportError {
+  line: number; // CSV: line in the file; JSON: 1-based position in the question list
+  message: string;
+}
+
+export interface ImportResult {
+  questions: Question[];
+  errors: ImportError[];
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks.
+// Each row remembers the line it started on so errors point at the right place
+export function parseCsv(text: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+interface RawQuestion {
+  question?: unknown;
+  options?: unknown;
+  correctAnswer?: unknown;
+  category?: unknown;
+  points?: unknown;
+  timer?: unknown;
+  notes?: unknown;
+  media?: unknown;
+  optionMedia?: unknown;
+}
+
+// A multiple-choice question has options and an answer among them. A board clue is read aloud and
+// judged on the buzz, so it needs a category instead of options and its answer is free text.
+// The game the questions are meant for decides which one a question is checked as
+export type QuestionKind = 'multiple-choice' | 'clue';
+
+export const QUESTION_KINDS: QuestionKind[] = ['multiple-choice', 'clue'];
+
+// Board rounds play clues; everything else that uses the question bank plays multiple choice
+export function getQuestionKind(gameType: GameType): QuestionKind {
+  return gameType === 'board' ? 'clue' : 'multiple-choice';
+}
+
+// Shared checks for both formats and saved packs; returns the cleaned question or the reasons it was rejected
+export function validateQuestion(raw: RawQuestion, kind: QuestionKind): { question?: Question; problems: string[] } {
+  const problems: string[] = [];
+  const text = typeof raw.question === 'string' ? raw.question.trim() : '';
+  if (!text) problems.push('question text is missing');
+
+  const optionalText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  const category = optionalText(raw.category);
+  const answer = raw.correctAnswer === undefined || raw.correctAnswer === null ? '' : String(raw.correctAnswer).trim();
+
+  // Option images stay lined up with their options when blank options are dropped
+  const rawOptionMedia = Array.isArray(raw.optionMedia) ? raw.optionMedia : [];
+  const kept = (Array.isArray(raw.options) ? raw.options : [])
+    .map((option, index) => ({ option: String(option ?? '').trim(), media: parseMediaRef(rawOptionMedia[index]) }))
+    .filter(({ option }) => option !== '');
+  const options = kept.map(({ option }) => option);
+
+  let correctAnswer = answer;
+  if (kind === 'clue') {
+    if (!category) problems.push('a board clue needs a category');
+  } else {
+    if (options.length < 2) problems.push(`needs at least 2 options, found ${options.length}`);
+    if (new Set(options.map(option => option.toLowerCase())).size !== options.length) problems.push('options must be unique');
+
+    // The answer must name one of the options; match case-insensitively but keep the option's spelling
+    const match = options.find(option => option.toLowerCase() === answer.toLowerCase());
+    if (!answer) {
+      problems.push('correct answer is missing');
+    } else if (!match) {
+      problems.push(`correct answer "${answer}" doesn't match any option`);
+    }
+    correctAnswer = match ?? '';
+  }
+
+  const optionalNumber = (value: unknown, field: string): number | undefined => {
+    if (value === undefined || value === null || value === '') return undefined;
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) {
+      problems.push(`${field} must be a number of zero or more`);
+      return undefined;
+    }
+    return number;
+  };
+  const points = optionalNumber(raw.points, 'points');
+  const timer = optionalNumber(raw.timer, 'timer');
+
+  if (problems.length > 0) return { problems };
+
+  const media = parseMediaRef(raw.media);
+  return {
+    problems,
+    question: {
+      question: text,
+      options: kind === 'clue' ? [] : options,
+      correctAnswer,
+      ...(points !== undefined && { points }),
+      ...(timer !== undefined && { timer }),
+      ...(category && { category }),
+      ...(optionalText(raw.notes) && { notes: optionalText(raw.notes) }),
+      ...(media && { media }),
+      ...(kind !== 'clue' && kept.some(({ media }) => media) && { optionMedia: kept.map(({ media }) => media) })
+    }
+  };
+}
+
+const HEADER_ALIASES: Record<string, keyof RawQuestion> = {
+  question: 'question',
+  correct: 'correctAnswer',
+  correctanswer: 'correctAnswer',
+  answer: 'correctAnswer',
+  category: 'category',
+  points: 'points',
+  timer: 'timer',
+  notes: 'notes'
+};
+
+function importCsv(text: string, kind: QuestionKind): ImportResult {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return { questions: [], errors: [{ line: 1, message: 'The file is empty' }] };
+
+  const headers = rows[0].cells.map(header => header.trim().toLowerCase().replace(/[\s_]/g, ''));
+  if (!headers.includes('question')) {
+    return {
+      questions: [],
+      errors: [{ line: rows[0].line, message: 'Missing header row; the first line must name the columns, e.g. question,option1,option2,correct' }]
+    };
+  }
+  const optionColumns = headers
+    .map((header, index) => ({ match: /^option(\d+)$/.exec(header), index }))
+    .filter(({ match }) => match)
+    .sort((a, b) => Number(a.match![1]) - Number(b.match![1]))
+    .map(({ index }) => index);
+  const unknown = headers.filter(header => header && !HEADER_ALIASES[header] && !/^option\d+$/.test(header));
+
+  const errors: ImportError[] = unknown.map(header => ({ line: rows[0].line, message: `Unknown column "${header}" was ignored` }));
+  const questions: Question[] = [];
+
+  rows.slice(1).forEach(({ line, cells }) => {
+    const raw: RawQuestion = { options: optionColumns.map(index => cells[index] ?? '') };
+    headers.forEach((header, index) => {
+      const field = HEADER_ALIASES[header];
+      if (field) raw[field] = cells[index];
+    });
+    const { question, problems } = validateQuestion(raw, kind);
+    if (question) questions.push(question);
+    problems.forEach(message => errors.push({ line, message }));
+  });
+
+  return { questions, errors };
+}
+
+function importJson(text: string, kind: QuestionKind): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { questions: [], errors: [{ line: 1, message: `Invalid JSON: ${(error as Error).message}` }] };
+  }
+  // Either a bare list or { "questions": [...] }
+  const list = Array.isArray(data) ? data : (data as { questions?: unknown })?.questions;
+  if (!Array.isArray(list)) {
+    return { questions: [], errors: [{ line: 1, message: 'Expected a list of questions or an object with a "questions" list' }] };
+  }
+
+  const questions: Question[] = [];
+  const errors: ImportError[] = [];
+  list.forEach((item, index) => {
+    const { question, problems } = validateQuestion(item && typeof item === 'object' ? item : {}, kind);
+    if (question) questions.push(question);
+    problems.forEach(message => errors.push({ line: index + 1, message }));
+  });
+  return { questions, errors };
+}
+
+export function detectFormat(text: string, hint?: unknown): ImportFormat {
+  if (hint === 'csv' || hint === 'json') return hint;
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+}
+
+export function importQuestions(text: string, format: ImportFormat, kind: QuestionKind): ImportResult {
+  const result = format === 'json' ? importJson(text, kind) : importCsv(text, kind);
+  if (result.questions.length === 0 && result.errors.length === 0) {
+    result.errors.push({ line: 1, message: 'No questions found' });
+  }
+  return result;
+}
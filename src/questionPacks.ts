@@ -0,0 +1,133 @@
+import crypto = require('crypto');
+import { StateStore } from './stateStore';
+import { Question, QuestionPack, QuestionPackSummary } from './types';
+import { ImportError, QuestionKind, validateQuestion } from './questionImport';
+
+export function generatePackId(): string {
+  return crypto.randomBytes(6).toString('hex');
+}
+
+function generateQuestionId(): string {
+  return crypto.randomBytes(4).toString('hex');
+}
+
+// Named question sets kept under DATA_DIR/packs, one file per pack, so they outlive
+// game-type switches and restarts. Each pack remembers which of its questions have aired
+export class QuestionPackLibrary {
+  private packs = new Map<string, QuestionPack>();
+
+  constructor() {
+    StateStore.list('packs').forEach(id => {
+      const pack = this.store(id).load();
+      if (pack) this.packs.set(pack.id, pack);
+    });
+  }
+
+  private store(id: string): StateStore<QuestionPack> {
+    return new StateStore<QuestionPack>(`packs/${id}.json`);
+  }
+
+  private save(pack: QuestionPack) {
+    pack.updatedAt = Date.now();
+    this.store(pack.id).save(pack);
+  }
+
+  list(): QuestionPackSummary[] {
+    return Array.from(this.packs.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(pack => ({
+        id: pack.id,
+        name: pack.name,
+        createdAt: pack.createdAt,
+        updatedAt: pack.updatedAt,
+        kind: pack.kind,
+        questionCount: pack.questions.length,
+        airedCount: pack.questions.filter(q => q.id && pack.aired[q.id]).length
+      }));
+  }
+
+  get(id: string): QuestionPack | undefined {
+    return this.packs.get(id);
+  }
+
+  // Questions keep their ids across edits so aired history follows them
+  private prepareQuestions(questions: unknown, kind: QuestionKind): { questions: Question[]; errors: ImportError[] } {
+    if (!Array.isArray(questions)) {
+      return { questions: [], errors: [{ line: 1, message: 'questions must be a list' }] };
+    }
+    const errors: ImportError[] = [];
+    const prepared: Question[] = [];
+    questions.forEach((raw, index) => {
+      const { question, problems } = validateQuestion(raw && typeof raw === 'object' ? raw : {}, kind);
+      problems.forEach(message => errors.push({ line: index + 1, message }));
+      if (question) {
+        const id = typeof raw.id === 'string' && raw.id ? raw.id : generateQuestionId();
+        prepared.push({ ...question, id });
+      }
+    });
+    return { questions: prepared, errors };
+  }
+
+  create(name: string, kind: QuestionKind, questions: unknown = []): { pack?: QuestionPack; errors: ImportError[] } {
+    const prepared = this.prepareQuestions(questions, kind);
+    if (prepared.errors.length > 0) return { errors: prepared.errors };
+    const now = Date.now();
+    const pack: QuestionPack = { id: generatePackId(), name, createdAt: now, updatedAt: now, kind, questions: prepared.questions, aired: {} };
+    this.packs.set(pack.id, pack);
+    this.save(pack);
+    return { pack, errors: [] };
+  }
+
+  update(id: string, update: { name?: string; questions?: unknown; resetAired?: boolean }): { pack?: QuestionPack; errors: ImportError[] } {
+    const pack = this.packs.get(id);
+    if (!pack) return { errors: [{ line: 0, message: 'Pack not found' }] };
+    if (update.questions !== undefined) {
+      const prepared = this.prepareQuestions(update.questions, pack.kind);
+      if (prepared.errors.length > 0) return { errors: prepared.errors };
+      pack.questions = prepared.questions;
+      // Forget aired marks for questions that are gone
+      const ids = new Set(pack.questions.map(q => q.id));
+      pack.aired = Object.fromEntries(Object.entries(pack.aired).filter(([questionId]) => ids.has(questionId)));
+    }
+    if (typeof update.name === 'string' && update.name.trim()) {
+      pack.name = update.name.trim();
+    }
+    if (update.resetAired) {
+      pack.aired = {};
+    }
+    this.save(pack);
+    return { pack, errors: [] };
+  }
+
+  remove(id: string): boolean {
+    if (!this.packs.delete(id)) return false;
+    this.store(id).remove();
+    return true;
+  }
+
+  // A copy with fresh question ids and no aired history, for running the same set again
+  duplicate(id: string, name?: string): QuestionPack | undefined {
+    const source = this.packs.get(id);
+    if (!source) return undefined;
+    const now = Date.now();
+    const pack: QuestionPack = {
+      id: generatePackId(),
+      name: name?.trim() || `${source.name} (copy)`,
+      createdAt: now,
+      updatedAt: now,
+      kind: source.kind,
+      questions: source.questions.map(q => ({ ...q, id: generateQuestionId() })),
+      aired: {}
+    };
+    this.packs.set(pack.id, pack);
+    this.save(pack);
+    return pack;
+  }
+
+  markAired(packId: string, questionId: string) {
+    const pack = this.packs.get(packId);
+    if (!pack || pack.aired[questionId] || !pack.questions.some(q => q.id === questionId)) return;
+    pack.aired[questionId] = Date.now();
+    this.save(pack);
+  }
+}
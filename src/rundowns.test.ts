@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'assert';
+import { validateSegments } from './rundowns';
+
+test('validateSegments fills in defaults for a minimal segment', () => {
+  const { segments, errors } = validateSegments([{ id: 'intro', title: ' Intro ', gameType: 'timer-only', notes: '  ' }]);
+  assert.deepStrictEqual(errors, []);
+  assert.deepStrictEqual(segments, [{
+    id: 'intro',
+    title: 'Intro',
+    gameType: 'timer-only',
+    questions: [],
+    packId: null,
+    timerSeconds: null,
+    scoringRules: null,
+    automationRules: null
+  }]);
+});
+
+test('validateSegments numbers problems by segment position', () => {
+  const { segments, errors } = validateSegments([
+    { title: 'Fine', gameType: 'buzzer' },
+    { title: '', gameType: 'charades', timerSeconds: -5 },
+    'not a segment'
+  ]);
+  assert.strictEqual(segments.length, 1);
+  assert.deepStrictEqual(errors, [
+    { line: 2, message: 'Segment 2: a title is required' },
+    { line: 2, message: 'Segment 2: unknown game type "charades"' },
+    { line: 2, message: 'Segment 2: timer must be a positive number of seconds' },
+    { line: 3, message: 'Segment 3: must be an object' }
+  ]);
+  assert.deepStrictEqual(validateSegments('nope').errors, [{ line: 0, message: 'segments must be a list' }]);
+});
+
+test('validateSegments needs options in a multiple choice segment but not on a board', () => {
+  const clue = { id: 'q1', question: 'This river flows through Cairo', category: 'Geography', correctAnswer: 'The Nile' };
+
+  const board = validateSegments([{ title: 'Board', gameType: 'board', questions: [clue], packId: 'pack-1' }]);
+  assert.deepStrictEqual(board.errors, []);
+  assert.deepStrictEqual(board.segments[0].questions, [
+    { id: 'q1', question: 'This river flows through Cairo', options: [], correctAnswer: 'The Nile', category: 'Geography' }
+  ]);
+  assert.strictEqual(board.segments[0].packId, 'pack-1');
+
+  const multipleChoice = validateSegments([{ title: 'Quiz', gameType: 'multiple-choice', questions: [clue] }]);
+  assert.deepStrictEqual(multipleChoice.errors.map(error => error.message), [
+    'Segment 1: question 1: needs at least 2 options, found 0',
+    'Segment 1: question 1: correct answer "The Nile" doesn\'t match any option'
+  ]);
+});
+
+test('validateSegments keeps the question and answer only for single-question game types', () => {
+  const { segments, errors } = validateSegments([
+    { title: 'Guess', gameType: 'numeric', questionText: ' How tall is Everest (m)? ', correctAnswer: '8,849' },
+    { title: 'Buzz', gameType: 'buzzer', questionText: 'Ignored', correctAnswer: 'Ignored' }
+  ]);
+  assert.deepStrictEqual(errors, []);
+  assert.strictEqual(segments[0].questionText, 'How tall is Everest (m)?');
+  assert.strictEqual(segments[0].correctAnswer, '8,849');
+  assert.strictEqual('questionText' in segments[1], false);
+  assert.strictEqual('correctAnswer' in segments[1], false);
+});
+
+test('validateSegments checks single-question fields per game type', () => {
+  const { errors } = validateSegments([
+    { title: 'Guess', gameType: 'numeric', correctAnswer: 'about eight thousand' },
+    { title: 'Type it', gameType: 'free-text', questionText: 42, correctAnswer: ['Paris'] }
+  ]);
+  assert.deepStrictEqual(errors.map(error => error.message), [
+    'Segment 1: answer "about eight thousand" must be a number',
+    'Segment 2: question must be text',
+    'Segment 2: answer must be text'
+  ]);
+});
+
+test('validateSegments merges scoring rules and cleans automation rules', () => {
+  const { segments } = validateSegments([{
+    title: 'Final',
+    gameType: 'free-text',
+    scoringRules: { pointsCorrect: 5 },
+    automationRules: [{ trigger: 'timer-expired', action: 'lock-answers' }, { trigger: 'never', action: 'reveal' }]
+  }]);
+  assert.strictEqual(segments[0].scoringRules?.pointsCorrect, 5);
+  assert.strictEqual(segments[0].scoringRules?.tieMode, 'share');
+  assert.deepStrictEqual(segments[0].automationRules, [
+    { id: 'rule-1', trigger: 'timer-expired', action: 'lock-answers', delaySeconds: 0 }
+  ]);
+});
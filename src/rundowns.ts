@@ -0,0 +1,176 @@
+import crypto = require('crypto');
+import { StateStore } from './stateStore';
+import { DEFAULT_SCORING_RULES, mergeScoringRules, parseNumericAnswer, ScoringRules } from './scoring';
+import { getQuestionKind, ImportError, validateQuestion } from './questionImport';
+import { validateAutomationRules } from './automation';
+import { GameType, Question, Rundown, RundownSegment, RundownSummary } from './types';
+
+export const GAME_TYPES: GameType[] = ['buzzer', 'multiple-choice', 'two-option', 'timer-only', 'wager', 'free-text', 'numeric', 'board'];
+
+// The game types that play from the question bank; other segments drop their questions
+export const QUESTION_BANK_TYPES: GameType[] = ['multiple-choice', 'board'];
+
+// The game types that play one typed-in question; their segments carry its text and answer instead
+export const SINGLE_QUESTION_TYPES: GameType[] = ['free-text', 'numeric', 'wager'];
+
+function generateId(): string {
+  return crypto.randomBytes(6).toString('hex');
+}
+
+// Checks one segment from the admin panel or the API. Problems carry the segment's position in `line`
+function validateSegment(raw: any, position: number): { segment?: RundownSegment; errors: ImportError[] } {
+  const errors: ImportError[] = [];
+  const problem = (message: string) => errors.push({ line: position, message: `Segment ${position}: ${message}` });
+  if (!raw || typeof raw !== 'object') {
+    problem('must be an object');
+    return { errors };
+  }
+
+  const title = typeof raw.title === 'string' ? raw.title.trim() : '';
+  if (!title) problem('a title is required');
+  if (!GAME_TYPES.includes(raw.gameType)) problem(`unknown game type "${raw.gameType}"`);
+
+  const questions: Question[] = [];
+  if (raw.questions !== undefined && !Array.isArray(raw.questions)) {
+    problem('questions must be a list');
+  } else if (QUESTION_BANK_TYPES.includes(raw.gameType)) {
+    (raw.questions || []).forEach((item: any, index: number) => {
+      // Board segments hold clues without options; a multiple choice segment needs real options
+      const { question, problems } = validateQuestion(item && typeof item === 'object' ? item : {}, getQuestionKind(raw.gameType));
+      problems.forEach(message => problem(`question ${index + 1}: ${message}`));
+      if (question) questions.push(typeof item.id === 'string' && item.id ? { ...question, id: item.id } : question);
+    });
+  }
+
+  let questionText = '';
+  let correctAnswer = '';
+  if (SINGLE_QUESTION_TYPES.includes(raw.gameType)) {
+    const optionalText = (value: unknown, field: string) => {
+      if (value === undefined || value === null) return '';
+      if (typeof value !== 'string') {
+        problem(`${field} must be text`);
+        return '';
+      }
+      return value.trim();
+    };
+    questionText = optionalText(raw.questionText, 'question');
+    correctAnswer = optionalText(raw.correctAnswer, 'answer');
+    if (raw.gameType === 'numeric' && correctAnswer && parseNumericAnswer(correctAnswer) === null) {
+      problem(`answer "${correctAnswer}" must be a number`);
+    }
+  }
+
+  let timerSeconds: number | null = null;
+  if (raw.timerSeconds !== undefined && raw.timerSeconds !== null && raw.timerSeconds !== '') {
+    timerSeconds = Number(raw.timerSeconds);
+    if (!Number.isFinite(timerSeconds) || timerSeconds <= 0) problem('timer must be a positive number of seconds');
+  }
+
+  let scoringRules: ScoringRules | null = null;
+  if (raw.scoringRules && typeof raw.scoringRules === 'object') {
+    scoringRules = mergeScoringRules(DEFAULT_SCORING_RULES, raw.scoringRules);
+  }
+
+  const automationRules = Array.isArray(raw.automationRules) ? validateAutomationRules(raw.automationRules) : null;
+
+  if (errors.length > 0) return { errors };
+  const notes = typeof raw.notes === 'string' ? raw.notes.trim() : '';
+  return {
+    errors,
+    segment: {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+      title,
+      gameType: raw.gameType,
+      questions,
+      packId: questions.length > 0 && typeof raw.packId === 'string' && raw.packId ? raw.packId : null,
+      ...(questionText && { questionText }),
+      ...(correctAnswer && { correctAnswer }),
+      timerSeconds,
+      scoringRules,
+      automationRules,
+      ...(notes && { notes })
+    }
+  };
+}
+
+export function validateSegments(segments: unknown): { segments: RundownSegment[]; errors: ImportError[] } {
+  if (!Array.isArray(segments)) {
+    return { segments: [], errors: [{ line: 0, message: 'segments must be a list' }] };
+  }
+  const errors: ImportError[] = [];
+  const valid: RundownSegment[] = [];
+  segments.forEach((raw, index) => {
+    const result = validateSegment(raw, index + 1);
+    errors.push(...result.errors);
+    if (result.segment) valid.push(result.segment);
+  });
+  return { segments: valid, errors };
+}
+
+// Show rundowns kept under DATA_DIR/rundowns, one file each, like question packs
+export class RundownLibrary {
+  private rundowns = new Map<string, Rundown>();
+
+  constructor() {
+    StateStore.list('rundowns').forEach(id => {
+      const rundown = this.store(id).load();
+      if (rundown) this.rundowns.set(rundown.id, rundown);
+    });
+  }
+
+  private store(id: string): StateStore<Rundown> {
+    return new StateStore<Rundown>(`rundowns/${id}.json`);
+  }
+
+  private save(rundown: Rundown) {
+    rundown.updatedAt = Date.now();
+    this.store(rundown.id).save(rundown);
+  }
+
+  list(): RundownSummary[] {
+    return Array.from(this.rundowns.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(rundown => ({
+        id: rundown.id,
+        name: rundown.name,
+        createdAt: rundown.createdAt,
+        updatedAt: rundown.updatedAt,
+        segmentCount: rundown.segments.length
+      }));
+  }
+
+  get(id: string): Rundown | undefined {
+    return this.rundowns.get(id);
+  }
+
+  create(name: string, segments: unknown = []): { rundown?: Rundown; errors: ImportError[] } {
+    const validated = validateSegments(segments);
+    if (validated.errors.length > 0) return { errors: validated.errors };
+    const now = Date.now();
+    const rundown: Rundown = { id: generateId(), name, createdAt: now, updatedAt: now, segments: validated.segments };
+    this.rundowns.set(rundown.id, rundown);
+    this.save(rundown);
+    return { rundown, errors: [] };
+  }
+
+  update(id: string, update: { name?: string; segments?: unknown }): { rundown?: Rundown; errors: ImportError[] } {
+    const rundown = this.rundowns.get(id);
+    if (!rundown) return { errors: [{ line: 0, message: 'Rundown not found' }] };
+    if (update.segments !== undefined) {
+      const validated = validateSegments(update.segments);
+      if (validated.errors.length > 0) return { errors: validated.errors };
+      rundown.segments = validated.segments;
+    }
+    if (typeof update.name === 'string' && update.name.trim()) {
+      rundown.name = update.name.trim();
+    }
+    this.save(rundown);
+    return { rundown, errors: [] };
+  }
+
+  remove(id: string): boolean {
+    if (!this.rundowns.delete(id)) return false;
+    this.store(id).remove();
+    return true;
+  }
+}
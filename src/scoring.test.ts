@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'assert';
+import {
+  DEFAULT_SCORING_RULES,
+  ScoringRules,
+  mergeScoringRules,
+  parseNumericAnswer,
+  scoreAnswers,
+  scoreBuzz,
+  scoreNumericGuesses
+} from './scoring';
+
+const rules = (overrides: Partial<ScoringRules> = {}): ScoringRules => ({ ...DEFAULT_SCORING_RULES, ...overrides });
+
+test('mergeScoringRules keeps the current value for junk input', () => {
+  const merged = mergeScoringRules(rules({ pointsCorrect: 5 }), {
+    pointsCorrect: 'lots' as unknown as number,
+    penaltyWrong: -2,
+    speedBonus: [3, 'x' as unknown as number],
+    tieMode: 'coin-flip' as ScoringRules['tieMode']
+  });
+  assert.strictEqual(merged.pointsCorrect, 5);
+  assert.strictEqual(merged.penaltyWrong, 2);
+  assert.deepStrictEqual(merged.speedBonus, [3, 0]);
+  assert.strictEqual(merged.tieMode, 'share');
+  assert.deepStrictEqual(merged.placementPoints, [3, 2, 1]);
+});
+
+test('scoreBuzz uses the question points over the round default and applies the penalty', () => {
+  const round = rules({ pointsCorrect: 10, penaltyWrong: 5 });
+  assert.strictEqual(scoreBuzz(round, true), 10);
+  assert.strictEqual(scoreBuzz(round, true, 400), 400);
+  assert.strictEqual(scoreBuzz(round, false, 400), -5);
+});
+
+test('scoreAnswers ranks speed bonuses by answer time and penalises wrong answers', () => {
+  const changes = scoreAnswers(
+    rules({ pointsCorrect: 10, penaltyWrong: 2, speedBonus: [5, 3] }),
+    { a: 'B', b: 'B', c: 'A', d: 'B' },
+    { a: 300, b: 100, d: 200 },
+    (_, answer) => answer === 'B'
+  );
+  assert.deepStrictEqual(changes, [
+    { contestantId: 'b', points: 15, reason: 'correct_answer+speed_bonus_1' },
+    { contestantId: 'd', points: 13, reason: 'correct_answer+speed_bonus_2' },
+    { contestantId: 'a', points: 10, reason: 'correct_answer' },
+    { contestantId: 'c', points: -2, reason: 'wrong_answer' }
+  ]);
+});
+
+test('scoreAnswers leaves wrong answers alone without a penalty', () => {
+  const changes = scoreAnswers(rules(), { a: 'A', b: 'B' }, {}, (_, answer) => answer === 'A', 3);
+  assert.deepStrictEqual(changes, [{ contestantId: 'a', points: 3, reason: 'correct_answer' }]);
+});
+
+const guesses = { a: '90', b: '110', c: '95', d: 'about a hundred' };
+const placings = (results: ReturnType<typeof scoreNumericGuesses>) =>
+  Object.fromEntries(results.map(({ contestantId, place, points }) => [contestantId, { place, points }]));
+
+test('scoreNumericGuesses gives tied guesses the same place in share mode', () => {
+  assert.deepStrictEqual(placings(scoreNumericGuesses(rules(), guesses, 100)), {
+    a: { place: 2, points: 2 },
+    b: { place: 2, points: 2 },
+    c: { place: 1, points: 3 },
+    d: { place: null, points: 0 }
+  });
+});
+
+test('scoreNumericGuesses splits the places a tie covers in split mode', () => {
+  const results = placings(scoreNumericGuesses(rules({ tieMode: 'split' }), guesses, 100));
+  assert.deepStrictEqual(results.a, { place: 2, points: 1.5 });
+  assert.deepStrictEqual(results.b, { place: 2, points: 1.5 });
+});
+
+test('scoreNumericGuesses breaks ties by latency in fastest mode', () => {
+  const results = placings(scoreNumericGuesses(rules({ tieMode: 'fastest' }), guesses, 100, { a: 2000, b: 1000 }));
+  assert.deepStrictEqual(results.b, { place: 2, points: 2 });
+  assert.deepStrictEqual(results.a, { place: 3, points: 1 });
+});
+
+test('scoreNumericGuesses rules out guesses over the answer when going over is off', () => {
+  const results = scoreNumericGuesses(rules({ noGoingOver: true }), guesses, 100);
+  const over = results.find(result => result.contestantId === 'b')!;
+  assert.strictEqual(over.over, true);
+  assert.strictEqual(over.place, null);
+  assert.deepStrictEqual(placings(results).a, { place: 2, points: 2 });
+});
+
+test('parseNumericAnswer accepts separators and decimals only', () => {
+  assert.strictEqual(parseNumericAnswer('1,969'), 1969);
+  assert.strictEqual(parseNumericAnswer(' 42 '), 42);
+  assert.strictEqual(parseNumericAnswer('-3.5'), -3.5);
+  assert.strictEqual(parseNumericAnswer('.5'), 0.5);
+  assert.strictEqual(parseNumericAnswer('12abc'), null);
+  assert.strictEqual(parseNumericAnswer(''), null);
+});
+
+test('parseNumericAnswer rejects answers that are not text', () => {
+  [42, null, undefined, { replace: 1 }, ['42']].forEach(answer => assert.strictEqual(parseNumericAnswer(answer), null));
+});
@@ -0,0 +1,148 @@
+// Scoring rules for a round. The room applies them on reveal and on buzz judgements,
+// so hosts no longer have to hand-edit scores for routine points.
+export interface ScoringRules {
+  pointsCorrect: number;
+  penaltyWrong: number; // subtracted for a wrong answer (0 = no penalty)
+  speedBonus: number[]; // extra points for the 1st, 2nd, ... fastest correct answers
+  // Numeric rounds: points for 1st, 2nd, ... closest guess
+  placementPoints: number[];
+  noGoingOver: boolean; // guesses above the answer don't place
+  // Tied guesses each get the place's points, split the places they cover, or are placed by who answered first
+  tieMode: 'share' | 'split' | 'fastest';
+}
+
+export interface ScoreChange {
+  contestantId: string;
+  points: number;
+  reason: string;
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  pointsCorrect: 1,
+  penaltyWrong: 0,
+  speedBonus: [],
+  placementPoints: [3, 2, 1],
+  noGoingOver: false,
+  tieMode: 'share'
+};
+
+const toPoints = (value: unknown, fallback: number): number => {
+  const points = Number(value);
+  return Number.isFinite(points) ? points : fallback;
+};
+
+// Merges a partial update from the admin panel onto the current rules, ignoring junk values
+export function mergeScoringRules(current: ScoringRules, update: Partial<ScoringRules>): ScoringRules {
+  return {
+    pointsCorrect: toPoints(update.pointsCorrect, current.pointsCorrect),
+    penaltyWrong: Math.abs(toPoints(update.penaltyWrong, current.penaltyWrong)),
+    speedBonus: Array.isArray(update.speedBonus)
+      ? update.speedBonus.map(bonus => toPoints(bonus, 0))
+      : current.speedBonus,
+    placementPoints: Array.isArray(update.placementPoints)
+      ? update.placementPoints.map(points => toPoints(points, 0))
+      : current.placementPoints,
+    noGoingOver: typeof update.noGoingOver === 'boolean' ? update.noGoingOver : current.noGoingOver,
+    tieMode: update.tieMode === 'share' || update.tieMode === 'split' || update.tieMode === 'fastest' ? update.tieMode : current.tieMode
+  };
+}
+
+// A question's own point value beats the round default
+export function getCorrectPoints(rules: ScoringRules, questionPoints?: number): number {
+  return typeof questionPoints === 'number' && Number.isFinite(questionPoints) ? questionPoints : rules.pointsCorrect;
+}
+
+export function scoreBuzz(rules: ScoringRules, correct: boolean, questionPoints?: number): number {
+  return correct ? getCorrectPoints(rules, questionPoints) : -rules.penaltyWrong;
+}
+
+// Scores every submitted answer on reveal. Speed bonuses rank correct answers by when they came in.
+export function scoreAnswers(
+  rules: ScoringRules,
+  answers: Record<string, string>,
+  answerTimes: Record<string, number>,
+  isCorrect: (contestantId: string, answer: string) => boolean,
+  questionPoints?: number
+): ScoreChange[] {
+  const correctPoints = getCorrectPoints(rules, questionPoints);
+  const correctIds = Object.keys(answers)
+    .filter(id => isCorrect(id, answers[id]))
+    .sort((a, b) => (answerTimes[a] ?? Infinity) - (answerTimes[b] ?? Infinity));
+
+  const changes: ScoreChange[] = correctIds.map((contestantId, rank) => {
+    const bonus = rules.speedBonus[rank] || 0;
+    return {
+      contestantId,
+      points: correctPoints + bonus,
+      reason: bonus ? `correct_answer+speed_bonus_${rank + 1}` : 'correct_answer'
+    };
+  });
+
+  if (rules.penaltyWrong) {
+    Object.keys(answers)
+      .filter(id => !correctIds.includes(id))
+      .forEach(contestantId => changes.push({ contestantId, points: -rules.penaltyWrong, reason: 'wrong_answer' }));
+  }
+
+  return changes;
+}
+
+export interface NumericResult {
+  contestantId: string;
+  guess: number | null; // null if the answer wasn't a number
+  distance: number | null; // absolute distance from the answer
+  over: boolean; // guessed above the answer
+  place: number | null; // 1 = closest; null if disqualified or unplaced
+  points: number;
+}
+
+// Ranks guesses by distance from the target and awards placement points.
+// `latencies` (contestantId -> ms from question start to final answer) breaks ties in 'fastest' mode
+export function scoreNumericGuesses(
+  rules: ScoringRules,
+  answers: Record<string, string>,
+  target: number,
+  latencies: Record<string, number> = {}
+): NumericResult[] {
+  const results: NumericResult[] = Object.entries(answers).map(([contestantId, answer]) => {
+    const guess = parseNumericAnswer(answer);
+    return {
+      contestantId,
+      guess,
+      distance: guess === null ? null : Math.abs(guess - target),
+      over: guess !== null && guess > target,
+      place: null,
+      points: 0
+    };
+  });
+
+  const ranked = results
+    .filter(result => result.distance !== null && !(rules.noGoingOver && result.over))
+    .sort((a, b) => a.distance! - b.distance! || (latencies[a.contestantId] ?? Infinity) - (latencies[b.contestantId] ?? Infinity));
+
+  // Walk groups of equal distance; each group covers as many places as it has members.
+  // Breaking ties by speed makes every guess its own group
+  let index = 0;
+  while (index < ranked.length) {
+    const group = rules.tieMode === 'fastest'
+      ? [ranked[index]]
+      : ranked.slice(index).filter(result => result.distance === ranked[index].distance);
+    const coveredPoints = group.map((_, offset) => rules.placementPoints[index + offset] || 0);
+    const splitPoints = coveredPoints.reduce((sum, points) => sum + points, 0) / group.length;
+    group.forEach(result => {
+      result.place = index + 1;
+      result.points = rules.tieMode === 'split' ? Math.round(splitPoints * 100) / 100 : coveredPoints[0];
+    });
+    index += group.length;
+  }
+
+  return results;
+}
+
+// Accepts "1,969", " 42 " and "3.5"; anything else, including a non-string from a misbehaving client, isn't a guess
+export function parseNumericAnswer(answer: unknown): number | null {
+  if (typeof answer !== 'string') return null;
+  const cleaned = answer.replace(/[,\s]/g, '');
+  if (!/^-?\d*\.?\d+$/.test(cleaned)) return null;
+  return Number(cleaned);
+}
@@ -1,15 +1,24 @@
 import express from 'express';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import path from 'path';
 import os from 'os';
 import fs from 'fs';
 
-// Import eventLogger for recording functionality
-import { EventLogger } from './eventLogger';
 import { registerEndSessionRoute } from './endSessionRoute';
+import { createAdminSession, getRequestToken, isAdminAuthDisabled, isAdminAuthRequired, isValidAdminPassword, isValidAdminToken, requireAdmin, revokeAdminSession } from './adminAuth';
+import { GameRoom } from './gameRoom';
+import { ClockSync } from './clockSync';
+import { GameConfig, GameType, Question, TeamScoreMode, TimerMode } from './types';
+import { ScoringRules } from './scoring';
+import { WagerPhase } from './wagerRound';
+import { detectFormat, importQuestions, QUESTION_KINDS, QuestionKind } from './questionImport';
+import { QuestionPackLibrary } from './questionPacks';
+import { BoardPosition } from './board';
+import { MAX_MEDIA_SIZE, MediaLibrary } from './mediaLibrary';
+import { RundownLibrary } from './rundowns';
 
 dotenv.config();
 
@@ -24,11 +33,9 @@ const io = new Server(httpServer, {
   pingInterval: 2000
 });
 
-// Initialize event logger
-const eventLogger = new EventLogger();
-
 app.use(cors());
-app.use(express.json());
+// Question packs can run to a few hundred kilobytes
+app.use(express.json({ limit: '5mb' }));
 
 // Serve static files from the React build
 const clientBuildPath = path.join(__dirname, '..', 'client-new', 'build');
@@ -36,433 +43,479 @@ if (fs.existsSync(clientBuildPath)) {
   app.use(express.static(clientBuildPath));
 }
 
-// Game state
-interface Contestant {
-  id: string;
-  name: string;
-  score: number;
-  buzzed: boolean;
-  connected: boolean;
-}
-
-type GameType = 'buzzer' | 'multiple-choice' | 'two-option' | 'timer-only';
-
-interface Question {
-  question: string;
-  options: string[];
-  correctAnswer: string;
+// Game rooms, each with its own state, checkpoint and logging session
+const DEFAULT_ROOM_ID = 'default';
+const rooms = new Map<string, GameRoom>();
+const clockSync = new ClockSync();
+const questionPacks = new QuestionPackLibrary();
+const mediaLibrary = new MediaLibrary();
+const rundowns = new RundownLibrary();
+
+// Rooms move on to pack questions by themselves when automation advances the round
+function registerRoom(room: GameRoom) {
+  room.onQuestionAired = (aired) => questionPacks.markAired(aired.packId, aired.questionId);
+  rooms.set(room.id, room);
 }
 
-interface GameConfig {
-  question?: string;
-  options?: string[];
-  questions?: Question[];
-  currentQuestionIndex?: number;
-  timerDuration?: number; // in seconds
-  timerRunning?: boolean;
-  timerRemaining?: number;
+GameRoom.loadAll(io).forEach(registerRoom);
+if (!rooms.has(DEFAULT_ROOM_ID)) {
+  const defaultRoom = new GameRoom(io, DEFAULT_ROOM_ID, 'Main Studio');
+  registerRoom(defaultRoom);
+  defaultRoom.checkpoint();
 }
 
-const contestants: Contestant[] = [];
-let buzzOrder: string[] = [];
-let gameType: GameType = 'buzzer';
-let gameConfig: GameConfig = {};
-let answers: Record<string, string> = {}; // contestantId -> answer/choice
-let revealAnswers = false;
-let correctAnswer: string | null = null;
-let timerInterval: NodeJS.Timeout | null = null;
-
-let questions: Question[] = [];
-let currentQuestionIndex = 0;
-
-// Add socket mapping
-const socketToContestant = new Map<string, string>(); // socket.id -> contestantId
-
-function emitGameState() {
-  let configToSend = gameConfig;
-  if (gameType === 'multiple-choice') {
-    // Don't override the config for multiple-choice, just ensure options are present
-    configToSend = {
-      ...gameConfig,
-      options: gameConfig.options || ['A', 'B', 'C', 'D']
-    };
-  } else if (gameType === 'two-option') {
-    // Only send options if valid (length 2, not empty, not 'a')
-    const opts = (gameConfig.options || []).filter(
-      opt => opt && opt.trim().length > 0 && opt.trim().toLowerCase() !== 'a'
-    );
-    configToSend = { ...gameConfig, options: opts };
-  }
-  io.emit('gameState', {
-    contestants,
-    buzzOrder,
-    gameType,
-    gameConfig: configToSend,
-    questions,
-    currentQuestionIndex,
-    answers,
-    revealAnswers,
-    correctAnswer,
-  });
+function createRoomId(name: string): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 32) || 'room';
+  let id = base;
+  let suffix = 2;
+  while (rooms.has(id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
 }
 
-function startTimer(duration: number) {
-  if (timerInterval) {
-    clearInterval(timerInterval);
-  }
-  
-  gameConfig.timerRemaining = duration;
-  gameConfig.timerRunning = true;
-  emitGameState();
-
-  timerInterval = setInterval(() => {
-    if (gameConfig.timerRemaining && gameConfig.timerRemaining > 0) {
-      gameConfig.timerRemaining--;
-      
-      // Log timer tick every 5 seconds or when it's about to end
-      if (gameConfig.timerRemaining % 5 === 0 || gameConfig.timerRemaining <= 3) {
-        eventLogger.logTimerTick(gameConfig.timerRemaining);
-      }
-      
-      emitGameState();
-    } else {
-      stopTimer();
-    }
-  }, 1000);
+function findRoom(roomId: string): GameRoom | undefined {
+  return rooms.get(roomId);
 }
 
-function stopTimer() {
-  if (timerInterval) {
-    clearInterval(timerInterval);
-    timerInterval = null;
+// Resolves :roomId for room-scoped REST routes
+function withRoom(req: any, res: any, next: () => void) {
+  const room = findRoom(req.params.roomId);
+  if (!room) {
+    res.status(404).json({ success: false, error: 'Room not found' });
+    return;
   }
-  gameConfig.timerRunning = false;
-  emitGameState();
+  res.locals.room = room;
+  next();
 }
 
-function resumeTimer() {
-  if (gameConfig.timerRemaining && gameConfig.timerRemaining > 0 && !gameConfig.timerRunning) {
-    gameConfig.timerRunning = true;
-    emitGameState();
-
-    timerInterval = setInterval(() => {
-      if (gameConfig.timerRemaining && gameConfig.timerRemaining > 0) {
-        gameConfig.timerRemaining--;
-        emitGameState();
-      } else {
-        stopTimer();
-      }
-    }, 1000);
-  }
+function getSocketRoom(socket: Socket): GameRoom | undefined {
+  return socket.data.roomId ? findRoom(socket.data.roomId) : undefined;
 }
 
+// Events any socket may send; everything else needs the admin credential
+const PUBLIC_SOCKET_EVENTS = new Set(['join', 'requestSnapshot', 'buzz', 'submitAnswer', 'submitWager', 'passTurn']);
+
+// Check the admin credential once on the handshake
+io.use((socket, next) => {
+  socket.data.isAdmin = isValidAdminToken(socket.handshake.auth?.token);
+  next();
+});
+
 // Socket.IO event handlers
 io.on('connection', (socket) => {
-  console.log('Client connected:', socket.id);
-
-  socket.on('join', (contestantId: string) => {
-    console.log('Contestant joining:', contestantId);
-    const contestant = contestants.find(c => c.id === contestantId);
-    if (contestant) {
-      socket.join(contestantId);
-      contestant.connected = true;
-      socketToContestant.set(socket.id, contestantId);
-      emitGameState();
+  console.log('Client connected:', socket.id, socket.data.isAdmin ? '(admin)' : '');
+  clockSync.track(socket);
+
+  // The session is checked on every admin event, so one that expires or is revoked stops working mid-connection
+  socket.use(([event], next) => {
+    if (PUBLIC_SOCKET_EVENTS.has(event) || (socket.data.isAdmin && isValidAdminToken(socket.handshake.auth?.token))) {
+      return next();
     }
-    // Always send the current game state to the joining socket
-    socket.emit('gameState', {
-      contestants,
-      buzzOrder,
-      gameType,
-      gameConfig: gameType === 'multiple-choice' ? {
-        ...gameConfig,
-        options: gameConfig.options || ['A', 'B', 'C', 'D']
-      } : (gameType === 'two-option' ? {
-        ...gameConfig,
-        options: (gameConfig.options || []).filter(opt => opt && opt.trim().length > 0 && opt.trim().toLowerCase() !== 'a')
-      } : gameConfig),
-      questions,
-      currentQuestionIndex,
-      answers,
-      revealAnswers,
-      correctAnswer,
-    });
+    console.warn(`Rejected unauthenticated '${event}' from ${socket.id}`);
+    socket.emit('authError', { event });
+    next(new Error('unauthorized'));
   });
 
-  socket.on('disconnect', () => {
-    console.log('Client disconnected:', socket.id);
-    const contestantId = socketToContestant.get(socket.id);
-    if (contestantId) {
-      const contestant = contestants.find(c => c.id === contestantId);
-      if (contestant) {
-        console.log(`Setting contestant ${contestant.name} (${contestant.id}) to disconnected`);
-        contestant.connected = false;
-        socketToContestant.delete(socket.id);
-        // Force immediate state update
-        io.emit('gameState', {
-          contestants,
-          buzzOrder,
-          gameType,
-          gameConfig,
-          questions,
-          currentQuestionIndex,
-          answers,
-          revealAnswers,
-          correctAnswer,
-        });
+  // Admin handlers act on whichever room the socket joined
+  const onAdmin = <T extends any[]>(event: string, handler: (room: GameRoom, ...args: T) => void) => {
+    socket.on(event, (...args: any[]) => {
+      const room = getSocketRoom(socket);
+      if (!room) {
+        console.warn(`Ignoring '${event}' from ${socket.id}: not in a room`);
+        return;
       }
-    }
-  });
+      room.recordAction(event, args, () => handler(room, ...(args as T)));
+    });
+  };
 
-  socket.on('buzz', async (data: string | { contestantId: string, clientTimestamp?: number }) => {
-    // Capture server receive time immediately for accurate timing
-    const serverReceiveTime = Date.now();
-    
-    // Support both old format (just string) and new format (object with timestamp)
-    const contestantId = typeof data === 'string' ? data : data.contestantId;
-    const clientTimestamp = typeof data === 'object' ? data.clientTimestamp : undefined;
-    
-    console.log('Buzz received from:', contestantId, clientTimestamp ? `(client: ${clientTimestamp}, latency: ${serverReceiveTime - clientTimestamp}ms)` : '');
-    
-    if (gameType !== 'buzzer') return;
-    
-    const contestant = contestants.find(c => c.id === contestantId);
-    if (!contestant) return;
-    
-    // Atomic check and update - prevent race conditions
-    if (contestant.buzzed) {
-      console.log(`Duplicate buzz ignored from ${contestant.name}`);
+  socket.on('join', (data: string | { roomId?: string, contestantId?: string, key?: string }) => {
+    // Older clients join with a plain string and land in the default room
+    const roomId = typeof data === 'object' && data?.roomId ? data.roomId : DEFAULT_ROOM_ID;
+    const room = findRoom(roomId);
+    if (!room) {
+      socket.emit('joinError', { message: 'This game room does not exist.' });
       return;
     }
-    
-    // Set buzzed flag immediately
-    contestant.buzzed = true;
-    
-    // Add to buzz order only if not already present (additional safety check)
-    if (!buzzOrder.includes(contestantId)) {
-      buzzOrder.push(contestantId);
-    }
-    
-    // Log contestant buzz with full timing data
-    eventLogger.logContestantBuzz(contestantId, contestant.name, buzzOrder.length, serverReceiveTime, clientTimestamp);
-    
-    emitGameState();
-  });
 
-  socket.on('submitAnswer', ({ contestantId, answer }) => {
-    if ((gameType === 'multiple-choice' || gameType === 'two-option') && !revealAnswers) {
-      answers[contestantId] = answer;
-      
-      // Log answer submission
-      const contestant = contestants.find(c => c.id === contestantId);
-      if (contestant) {
-        const isCorrect = correctAnswer ? answer === correctAnswer : undefined;
-        eventLogger.logAnswerSubmission(contestantId, contestant.name, answer, isCorrect);
-      }
-      
-      emitGameState();
+    const previousRoom = getSocketRoom(socket);
+    if (previousRoom && previousRoom !== room) {
+      previousRoom.leave(socket);
     }
-  });
+    socket.data.roomId = room.id;
 
-  socket.on('admin:setGameType', (type: GameType) => {
-    gameType = type;
-    // Reset round state
-    buzzOrder = [];
-    answers = {};
-    revealAnswers = false;
-    correctAnswer = null;
-    // Clear game config when switching modes
-    gameConfig = {};
-    // Clear questions when switching from multiple choice
-    if (type !== 'multiple-choice') {
-      questions = [];
-      currentQuestionIndex = 0;
+    // Admin panels and overlays join without a contestant; contestants send their link secret
+    const contestantId = typeof data === 'object' ? data?.contestantId : undefined;
+    if (contestantId) {
+      room.joinContestant(socket, contestantId, typeof data === 'object' ? data?.key : undefined);
+    } else {
+      room.joinViewer(socket);
     }
-    // Stop timer when switching game types
-    stopTimer();
-    
-    // Log game type change
-    eventLogger.logGameTypeChange(type, gameConfig);
-    
-    emitGameState();
   });
 
-  socket.on('admin:setQuestions', (newQuestions: Question[]) => {
-    questions = newQuestions;
-    currentQuestionIndex = 0;
-    emitGameState();
+  // Clients ask for a full state when they notice a gap in the patch versions
+  socket.on('requestSnapshot', () => {
+    getSocketRoom(socket)?.sendSnapshot(socket);
   });
 
-  socket.on('admin:setGameConfig', (config: GameConfig) => {
-    gameConfig = config;
-    // Reset round state
-    buzzOrder = [];
-    answers = {};
-    revealAnswers = false;
-    correctAnswer = null;
-    
-    // Log question change if present
-    if (config.currentQuestionIndex !== undefined) {
-      const currentQuestion = questions[config.currentQuestionIndex];
-      eventLogger.logQuestionChange(
-        config.currentQuestionIndex,
-        currentQuestion?.question,
-        currentQuestion?.options
-      );
-    }
-    
-    emitGameState();
-  });
-
-  socket.on('admin:setCorrectAnswer', (answer: string) => {
-    correctAnswer = answer;
-    emitGameState();
+  socket.on('disconnect', () => {
+    console.log('Client disconnected:', socket.id);
+    clockSync.untrack(socket.id);
+    getSocketRoom(socket)?.leave(socket);
   });
 
-  socket.on('admin:revealAnswers', () => {
-    revealAnswers = true;
-    if (gameType === 'multiple-choice' && correctAnswer) {
-      contestants.forEach(contestant => {
-        const answer = answers[contestant.id];
-        if (answer === correctAnswer) {
-          contestant.score += 1;
-        }
-      });
-    }
-    
-    // Log answer reveal
-    eventLogger.logAnswerReveal(correctAnswer || '', answers);
-    
-    emitGameState();
+  socket.on('buzz', (data?: { clientTimestamp?: number }) => {
+    // Capture server receive time immediately for accurate timing
+    const serverReceiveTime = Date.now();
+    const clientTimestamp = typeof data === 'object' ? data?.clientTimestamp : undefined;
+    getSocketRoom(socket)?.buzz(socket.id, serverReceiveTime, clientTimestamp, clockSync.getEstimate(socket.id));
   });
 
-  socket.on('admin:resetBuzzers', () => {
-    console.log('Resetting buzzers');
-    contestants.forEach(c => c.buzzed = false);
-    buzzOrder = [];
-    answers = {};
-    revealAnswers = false;
-    correctAnswer = null;
-    emitGameState();
+  socket.on('passTurn', () => {
+    getSocketRoom(socket)?.passChessTurn(socket.id);
   });
 
-  socket.on('admin:resetScores', () => {
-    console.log('Resetting all scores to 0');
-    contestants.forEach(contestant => {
-      const oldScore = contestant.score;
-      contestant.score = 0;
-      
-      // Log score reset
-      eventLogger.logScoreUpdate(contestant.id, contestant.name, oldScore, 0, 'reset');
-    });
-    emitGameState();
+  // Anything but a string answer is dropped; the room trims and caps it
+  socket.on('submitAnswer', (data?: { answer?: unknown }) => {
+    const answer = typeof data === 'object' ? data?.answer : undefined;
+    if (typeof answer !== 'string') return;
+    getSocketRoom(socket)?.submitAnswer(socket.id, answer);
   });
 
-  socket.on('admin:updateScore', (data: { contestantId: string, score: number }) => {
-    console.log('Score update:', data);
-    const contestant = contestants.find(c => c.id === data.contestantId);
-    if (contestant) {
-      const oldScore = contestant.score;
-      contestant.score = data.score;
-      
-      // Log score update
-      eventLogger.logScoreUpdate(contestant.id, contestant.name, oldScore, data.score);
-      
-      if (gameType === 'buzzer' && data.score > oldScore) {
-        contestants.forEach(c => c.buzzed = false);
-        buzzOrder = [];
-      }
-      emitGameState();
+  socket.on('submitWager', (data: { amount: number }, callback?: (result: { success: boolean, wager?: number, error?: string }) => void) => {
+    const room = getSocketRoom(socket);
+    const result = room ? room.submitWager(socket.id, data?.amount) : { success: false, error: 'Not in a room' };
+    if (typeof callback === 'function') {
+      callback(result);
     }
   });
 
-  socket.on('admin:removeContestant', (contestantId: string) => {
-    console.log('Removing contestant:', contestantId);
-    const idx = contestants.findIndex(c => c.id === contestantId);
-    if (idx !== -1) {
-      const contestant = contestants[idx];
-      contestants.splice(idx, 1);
-      buzzOrder = buzzOrder.filter(id => id !== contestantId);
-      delete answers[contestantId];
-      
-      // Log contestant removal
-      eventLogger.logEvent('contestant_removed', {
-        contestantId,
-        contestantName: contestant.name,
-        timestamp: Date.now()
-      });
-      
-      emitGameState();
-    }
+  onAdmin('admin:setGameType', (room, type: GameType) => room.setGameType(type));
+  onAdmin('admin:setQuestions', (room, newQuestions: Question[], packId?: string) => room.setQuestions(newQuestions, packId && questionPacks.get(packId) ? packId : null));
+  onAdmin('admin:updateQuestions', (room, data: { questions: Question[], currentQuestionIndex: number }) => room.updateQuestions(data?.questions, data?.currentQuestionIndex));
+  onAdmin('admin:setGameConfig', (room, config: GameConfig) => {
+    room.setGameConfig(config);
+    // Moving to a pack question counts as airing it
+    const aired = config?.currentQuestionIndex !== undefined ? room.getCurrentPackQuestion() : null;
+    if (aired) questionPacks.markAired(aired.packId, aired.questionId);
   });
-
-  socket.on('admin:reorderContestants', (newOrder: string[]) => {
-    console.log('Reordering contestants:', newOrder);
-    // Reorder contestants array to match newOrder
-    const idToContestant = Object.fromEntries(contestants.map(c => [c.id, c]));
-    const reordered = newOrder.map(id => idToContestant[id]).filter(Boolean);
-    if (reordered.length === contestants.length) {
-      contestants.splice(0, contestants.length, ...reordered);
-      emitGameState();
-    }
+  onAdmin('admin:setCorrectAnswer', (room, answer: string) => room.setCorrectAnswer(answer));
+  onAdmin('admin:judgeAnswer', (room, data: { contestantId: string, accepted: boolean }) => room.judgeAnswer(data?.contestantId, !!data?.accepted));
+  onAdmin('admin:revealAnswers', (room) => room.reveal());
+  onAdmin('admin:setAnswersLocked', (room, locked: boolean) => room.setAnswersLocked(!!locked));
+  onAdmin('admin:setFirstAnswerFinal', (room, enabled: boolean) => room.setFirstAnswerFinal(!!enabled));
+  onAdmin('admin:setAutomationRules', (room, rules: unknown) => room.setAutomationRules(rules));
+  onAdmin('admin:setWagerPhase', (room, phase: WagerPhase) => room.setWagerPhase(phase));
+  onAdmin('admin:revealWager', (room, data: { contestantId: string, correct: boolean }) => room.revealWager(data?.contestantId, !!data?.correct));
+  onAdmin('admin:buildBoard', (room) => room.buildBoard());
+  onAdmin('admin:pickBoardCell', (room, position: BoardPosition) => {
+    room.pickBoardCell(position);
+    const aired = room.getCurrentPackQuestion();
+    if (aired) questionPacks.markAired(aired.packId, aired.questionId);
   });
-
-  socket.on('admin:startTimer', (duration: number) => {
-    startTimer(duration);
-    
-    // Log timer start
-    eventLogger.logTimerStart(duration);
+  onAdmin('admin:closeBoardCell', (room) => room.closeBoardCell());
+  onAdmin('admin:setBoardCellUsed', (room, data: { position: BoardPosition, used: boolean }) => room.setBoardCellUsed(data?.position, !!data?.used));
+  onAdmin('admin:resetBoard', (room) => room.resetBoard());
+  // Multiple choice segments open on their first question, which counts as airing it
+  const markSegmentAired = (room: GameRoom) => {
+    const aired = room.gameType === 'multiple-choice' ? room.getCurrentPackQuestion() : null;
+    if (aired) questionPacks.markAired(aired.packId, aired.questionId);
+  };
+  onAdmin('admin:startRundown', (room, rundownId: string) => {
+    const rundown = rundowns.get(rundownId);
+    if (!rundown) return;
+    room.startRundown(rundown);
+    markSegmentAired(room);
   });
-
-  socket.on('admin:stopTimer', () => {
-    const remainingTime = gameConfig.timerRemaining || 0;
-    stopTimer();
-    
-    // Log timer stop
-    eventLogger.logTimerStop(remainingTime);
+  onAdmin('admin:goToSegment', (room, index: number) => {
+    room.goToSegment(index);
+    markSegmentAired(room);
   });
+  onAdmin('admin:endRundown', (room) => room.endRundown());
+  onAdmin('admin:playMedia', (room) => room.playMedia());
+  onAdmin('admin:pauseMedia', (room) => room.pauseMedia());
+  onAdmin('admin:stopMedia', (room) => room.stopMedia());
+  socket.on('admin:undo', () => getSocketRoom(socket)?.undo());
+  socket.on('admin:redo', () => getSocketRoom(socket)?.redo());
+  onAdmin('admin:resetBuzzers', (room) => room.resetBuzzers());
+  onAdmin('admin:openBuzzers', (room) => room.openBuzzers());
+  onAdmin('admin:closeBuzzers', (room) => room.closeBuzzers());
+  onAdmin('admin:armBuzzers', (room) => room.armBuzzers());
+  onAdmin('admin:judgeBuzz', (room, data: { correct: boolean, contestantId?: string }) => room.judgeBuzz(!!data?.correct, data?.contestantId));
+  onAdmin('admin:setScoringRules', (room, rules: Partial<ScoringRules>) => room.setScoringRules(rules));
+  onAdmin('admin:setBuzzerLockout', (room, lockoutMs: number) => room.setBuzzerLockout(lockoutMs));
+  onAdmin('admin:resetScores', (room) => room.resetScores());
+  onAdmin('admin:updateScore', (room, data: { contestantId: string, score: number }) => room.updateScore(data.contestantId, data.score));
+  onAdmin('admin:removeContestant', (room, contestantId: string) => room.removeContestant(contestantId));
+  onAdmin('admin:regenerateContestantKey', (room, contestantId: string) => room.regenerateContestantKey(contestantId));
+  onAdmin('admin:addTeam', (room, name: string) => room.addTeam(name));
+  onAdmin('admin:renameTeam', (room, data: { teamId: string, name: string }) => room.renameTeam(data?.teamId, data?.name));
+  onAdmin('admin:removeTeam', (room, teamId: string) => room.removeTeam(teamId));
+  onAdmin('admin:setContestantTeam', (room, data: { contestantId: string, teamId: string | null }) => room.setContestantTeam(data?.contestantId, data?.teamId ?? null));
+  onAdmin('admin:updateTeamScore', (room, data: { teamId: string, score: number }) => room.updateTeamScore(data?.teamId, data?.score));
+  onAdmin('admin:setTeamScoreMode', (room, mode: TeamScoreMode) => room.setTeamScoreMode(mode));
+  onAdmin('admin:setTeamBuzzLockout', (room, enabled: boolean) => room.setTeamBuzzLockout(!!enabled));
+  onAdmin('admin:reorderContestants', (room, newOrder: string[]) => room.reorderContestants(newOrder));
+  // Timer commands go to the main timer unless they name another one by id
+  onAdmin('admin:startTimer', (room, duration: number, timerId?: string) => room.startTimer(duration, timerId));
+  onAdmin('admin:stopTimer', (room, timerId?: string) => room.stopTimer(timerId));
+  onAdmin('admin:resumeTimer', (room, timerId?: string) => room.resumeTimer(timerId));
+  onAdmin('admin:resetTimer', (room, timerId?: string) => room.resetTimer(timerId));
+  onAdmin('admin:setTimerDuration', (room, duration: number, timerId?: string) => room.setTimerDuration(duration, timerId));
+  onAdmin('admin:setTimerMode', (room, mode: TimerMode, timerId?: string) => room.setTimerMode(mode, timerId));
+  onAdmin('admin:setChessTurn', (room, contestantId: string, timerId?: string) => room.setChessTurn(contestantId, timerId));
+  onAdmin('admin:addTimer', (room, name: string) => room.addTimer(name));
+  onAdmin('admin:renameTimer', (room, data: { timerId: string, name: string }) => room.renameTimer(data?.timerId, data?.name));
+  onAdmin('admin:removeTimer', (room, timerId: string) => room.removeTimer(timerId));
+});
 
-  socket.on('admin:resumeTimer', () => {
-    resumeTimer();
-  });
+// Admin API endpoints
+app.get('/api/admin/status', (req, res) => {
+  res.json({ authRequired: isAdminAuthRequired() });
+});
 
-  socket.on('admin:setTimerDuration', (duration: number) => {
-    gameConfig.timerDuration = duration;
-    emitGameState();
-  });
+app.post('/api/admin/login', (req, res) => {
+  const { password } = req.body;
+  if (!process.env.ADMIN_PASSWORD && !isAdminAuthDisabled()) {
+    res.status(503).json({ success: false, error: 'ADMIN_PASSWORD is not configured on the server' });
+    return;
+  }
+  if (!isValidAdminPassword(password)) {
+    console.warn('Failed admin login attempt');
+    res.status(401).json({ success: false, error: 'Invalid password' });
+    return;
+  }
+  res.json({ success: true, ...createAdminSession() });
 });
 
-// Admin API endpoints
-app.post('/api/contestants', (req, res) => {
+// Ends the session and drops any admin socket still using it
+app.post('/api/admin/logout', (req, res) => {
+  const token = getRequestToken(req);
+  if (revokeAdminSession(token)) {
+    io.sockets.sockets.forEach(socket => {
+      if (socket.handshake.auth?.token === token) socket.disconnect(true);
+    });
+  }
+  res.json({ success: true });
+});
+
+app.get('/api/rooms', requireAdmin, (req, res) => {
+  res.json(Array.from(rooms.values()).map(room => room.getSummary()));
+});
+
+app.post('/api/rooms', requireAdmin, (req, res) => {
+  const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+  if (!name) {
+    res.status(400).json({ success: false, error: 'Room name is required' });
+    return;
+  }
+  const room = new GameRoom(io, createRoomId(name), name);
+  registerRoom(room);
+  room.checkpoint();
+  console.log(`Created room ${room.id} (${room.name})`);
+  res.json(room.getSummary());
+});
+
+app.delete('/api/rooms/:roomId', requireAdmin, withRoom, (req, res) => {
+  const room: GameRoom = res.locals.room;
+  if (room.id === DEFAULT_ROOM_ID) {
+    res.status(400).json({ success: false, error: 'The default room cannot be deleted' });
+    return;
+  }
+  room.destroy();
+  rooms.delete(room.id);
+  console.log(`Deleted room ${room.id}`);
+  res.json({ success: true });
+});
+
+app.post('/api/rooms/:roomId/contestants', requireAdmin, withRoom, (req, res) => {
   console.log('Adding contestant:', req.body);
-  const { name } = req.body;
-  const contestant: Contestant = {
-    id: Math.random().toString(36).substr(2, 9),
-    name,
-    score: 0,
-    buzzed: false,
-    connected: false
-  };
-  contestants.push(contestant);
-  
-  // Log contestant addition
-  eventLogger.logEvent('contestant_added', {
-    contestantId: contestant.id,
-    contestantName: contestant.name,
-    timestamp: Date.now()
-  });
-  
-  emitGameState();
+  const room: GameRoom = res.locals.room;
+  const contestant = room.addContestant(req.body.name);
   res.json(contestant);
 });
 
-app.get('/api/contestants', (req, res) => {
+app.get('/api/rooms/:roomId/contestants', requireAdmin, withRoom, (req, res) => {
   console.log('Getting contestants');
-  res.json(contestants);
+  res.json(res.locals.room.contestants);
+});
+
+// Validates a question file without loading it; the admin panel shows the errors and
+// pushes the questions over the socket once the host is happy with them
+app.post('/api/questions/import', requireAdmin, express.text({ limit: '5mb' }), (req, res) => {
+  const text = typeof req.body === 'string' ? req.body : '';
+  if (!text.trim()) {
+    res.status(400).json({ success: false, error: 'Send the file contents as text/plain' });
+    return;
+  }
+  // Board clues and multiple choice questions are checked differently; the admin panel says which game they're for
+  const kind = req.query.kind as QuestionKind;
+  if (!QUESTION_KINDS.includes(kind)) {
+    res.status(400).json({ success: false, error: 'kind must be multiple-choice or clue' });
+    return;
+  }
+  const format = detectFormat(text, req.query.format);
+  const { questions, errors } = importQuestions(text, format, kind);
+  res.json({ success: errors.length === 0, format, questions, errors });
+});
+
+// Question pack library
+app.get('/api/packs', requireAdmin, (req, res) => {
+  res.json(questionPacks.list());
+});
+
+app.post('/api/packs', requireAdmin, (req, res) => {
+  const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+  if (!name) {
+    res.status(400).json({ success: false, error: 'Pack name is required' });
+    return;
+  }
+  if (!QUESTION_KINDS.includes(req.body.kind)) {
+    res.status(400).json({ success: false, error: 'kind must be multiple-choice or clue' });
+    return;
+  }
+  const { pack, errors } = questionPacks.create(name, req.body.kind, req.body.questions);
+  if (!pack) {
+    res.status(400).json({ success: false, error: 'Some questions are invalid', errors });
+    return;
+  }
+  res.json(pack);
+});
+
+app.get('/api/packs/:packId', requireAdmin, (req, res) => {
+  const pack = questionPacks.get(req.params.packId);
+  if (!pack) {
+    res.status(404).json({ success: false, error: 'Pack not found' });
+    return;
+  }
+  res.json(pack);
+});
+
+app.put('/api/packs/:packId', requireAdmin, (req, res) => {
+  if (!questionPacks.get(req.params.packId)) {
+    res.status(404).json({ success: false, error: 'Pack not found' });
+    return;
+  }
+  const { pack, errors } = questionPacks.update(req.params.packId, req.body || {});
+  if (!pack) {
+    res.status(400).json({ success: false, error: 'Some questions are invalid', errors });
+    return;
+  }
+  res.json(pack);
+});
+
+app.delete('/api/packs/:packId', requireAdmin, (req, res) => {
+  if (!questionPacks.remove(req.params.packId)) {
+    res.status(404).json({ success: false, error: 'Pack not found' });
+    return;
+  }
+  res.json({ success: true });
+});
+
+app.post('/api/packs/:packId/duplicate', requireAdmin, (req, res) => {
+  const name = req.body?.name;
+  if (name !== undefined && typeof name !== 'string') {
+    res.status(400).json({ success: false, error: 'Pack name must be a string' });
+    return;
+  }
+  const pack = questionPacks.duplicate(req.params.packId, name);
+  if (!pack) {
+    res.status(404).json({ success: false, error: 'Pack not found' });
+    return;
+  }
+  res.json(pack);
+});
+
+// Media library. Uploads are the raw file as the request body, named with ?name=
+app.get('/api/media', requireAdmin, (req, res) => {
+  res.json(mediaLibrary.list());
+});
+
+app.post('/api/media', requireAdmin, express.raw({ type: ['image/*', 'audio/*', 'video/*'], limit: MAX_MEDIA_SIZE }), (req, res) => {
+  const mimeType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  const name = typeof req.query.name === 'string' ? req.query.name : '';
+  const asset = mediaLibrary.add(data, mimeType, name);
+  if (!asset) {
+    res.status(400).json({ success: false, error: 'Send a PNG, JPEG, GIF or WebP image, an MP3, M4A, AAC, Ogg or WAV clip, or an MP4, WebM or Ogg video' });
+    return;
+  }
+  console.log(`Stored ${asset.kind} "${asset.name}" as ${asset.id} (${asset.size} bytes)`);
+  res.json(asset);
+});
+
+app.delete('/api/media/:mediaId', requireAdmin, (req, res) => {
+  if (!mediaLibrary.remove(req.params.mediaId)) {
+    res.status(404).json({ success: false, error: 'Media not found' });
+    return;
+  }
+  res.json({ success: true });
+});
+
+// Served without auth so contestant screens and OBS can load it; ids are random and never listed publicly.
+// sendFile answers range requests, which audio and video seeking rely on
+app.get('/media/:mediaId', (req, res) => {
+  const asset = mediaLibrary.get(req.params.mediaId);
+  if (!asset) {
+    res.status(404).json({ success: false, error: 'Media not found' });
+    return;
+  }
+  res.type(asset.mimeType);
+  res.sendFile(mediaLibrary.getFilePath(asset), { maxAge: '1y', immutable: true });
 });
 
-// Recording API endpoints
-app.post('/api/logs/start-session', (req, res) => {
+// Show rundowns. Rooms run a copy, so edits here apply the next time a rundown is started
+app.get('/api/rundowns', requireAdmin, (req, res) => {
+  res.json(rundowns.list());
+});
+
+app.post('/api/rundowns', requireAdmin, (req, res) => {
+  const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+  if (!name) {
+    res.status(400).json({ success: false, error: 'Rundown name is required' });
+    return;
+  }
+  const { rundown, errors } = rundowns.create(name, req.body.segments);
+  if (!rundown) {
+    res.status(400).json({ success: false, error: 'Some segments are invalid', errors });
+    return;
+  }
+  res.json(rundown);
+});
+
+app.get('/api/rundowns/:rundownId', requireAdmin, (req, res) => {
+  const rundown = rundowns.get(req.params.rundownId);
+  if (!rundown) {
+    res.status(404).json({ success: false, error: 'Rundown not found' });
+    return;
+  }
+  res.json(rundown);
+});
+
+app.put('/api/rundowns/:rundownId', requireAdmin, (req, res) => {
+  if (!rundowns.get(req.params.rundownId)) {
+    res.status(404).json({ success: false, error: 'Rundown not found' });
+    return;
+  }
+  const { rundown, errors } = rundowns.update(req.params.rundownId, req.body || {});
+  if (!rundown) {
+    res.status(400).json({ success: false, error: 'Some segments are invalid', errors });
+    return;
+  }
+  res.json(rundown);
+});
+
+app.delete('/api/rundowns/:rundownId', requireAdmin, (req, res) => {
+  if (!rundowns.remove(req.params.rundownId)) {
+    res.status(404).json({ success: false, error: 'Rundown not found' });
+    return;
+  }
+  res.json({ success: true });
+});
+
+// Recording API endpoints, one logging session per room
+app.post('/api/rooms/:roomId/logs/start-session', requireAdmin, withRoom, (req, res) => {
+  const eventLogger = res.locals.room.eventLogger;
   try {
     eventLogger.startNewSession();
     res.json({ 
@@ -476,7 +529,8 @@ app.post('/api/logs/start-session', (req, res) => {
   }
 });
 
-app.get('/api/logs/session-info', (req, res) => {
+app.get('/api/rooms/:roomId/logs/session-info', requireAdmin, withRoom, (req, res) => {
+  const eventLogger = res.locals.room.eventLogger;
   try {
     const sessionInfo = eventLogger.getSessionInfo();
     res.json({ 
@@ -489,7 +543,8 @@ app.get('/api/logs/session-info', (req, res) => {
   }
 });
 
-app.get('/api/logs/export/markers', (req, res) => {
+app.get('/api/rooms/:roomId/logs/export/markers', requireAdmin, withRoom, (req, res) => {
+  const eventLogger = res.locals.room.eventLogger;
   try {
     const fps = parseInt(req.query.fps as string) || 30;
     const markers = eventLogger.exportToDaVinciResolveMarkers(fps);
@@ -500,7 +555,8 @@ app.get('/api/logs/export/markers', (req, res) => {
   }
 });
 
-app.get('/api/logs/export/xml', (req, res) => {
+app.get('/api/rooms/:roomId/logs/export/xml', requireAdmin, withRoom, (req, res) => {
+  const eventLogger = res.locals.room.eventLogger;
   try {
     const fps = parseFloat(req.query.fps as string) || 30;
     const xml = eventLogger.exportToDaVinciResolveXML(fps);
@@ -513,7 +569,8 @@ app.get('/api/logs/export/xml', (req, res) => {
   }
 });
 
-app.get('/api/logs/export/csv', (req, res) => {
+app.get('/api/rooms/:roomId/logs/export/csv', requireAdmin, withRoom, (req, res) => {
+  const eventLogger = res.locals.room.eventLogger;
   try {
     const csv = eventLogger.exportToCSV();
     res.setHeader('Content-Type', 'text/csv');
@@ -532,9 +589,28 @@ if (fs.existsSync(clientBuildPath)) {
   });
 }
 
-registerEndSessionRoute(app, eventLogger);
+registerEndSessionRoute(app, withRoom);
+
+if (isAdminAuthDisabled()) {
+  console.warn('ADMIN_AUTH_DISABLED is set - admin controls are open to anyone who can reach this server');
+} else if (!process.env.ADMIN_PASSWORD) {
+  console.error('ADMIN_PASSWORD is not set - admin controls are locked until it is (set ADMIN_AUTH_DISABLED=true for local development)');
+}
 
 const PORT = process.env.PORT || 3001;
 httpServer.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
-}); 
\ No newline at end of file
+}); 
+// Checkpoints are written a moment after each change; write the last ones before exiting
+const flushRooms = () => Promise.all(Array.from(rooms.values()).map(room => room.flushCheckpoint()));
+const shutdown = (signal: string) => {
+  console.log(`${signal} received, saving rooms`);
+  flushRooms().finally(() => process.exit(0));
+};
+process.once('SIGTERM', () => shutdown('SIGTERM'));
+process.once('SIGINT', () => shutdown('SIGINT'));
+// nodemon restarts with SIGUSR2; save, then send it again so the default handler ends the process
+process.once('SIGUSR2', () => {
+  console.log('SIGUSR2 received, saving rooms');
+  flushRooms().finally(() => process.kill(process.pid, 'SIGUSR2'));
+});
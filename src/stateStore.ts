@@ -0,0 +1,126 @@
+import fs = require('fs');
+import path = require('path');
+
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+// How long a checkpoint waits so a burst of changes (a buzz storm, a run of timer events) is one write
+const CHECKPOINT_DELAY_MS = 250;
+
+export class StateStore<T> {
+  private stateFile: string;
+  private pendingState: (() => T) | null = null;
+  private checkpointTimeout: NodeJS.Timeout | null = null;
+  private writes: Promise<void> = Promise.resolve(); // checkpoint writes run one at a time, in order
+
+  constructor(fileName: string = 'game_state.json') {
+    this.stateFile = path.join(getDataDir(), fileName);
+
+    const dir = path.dirname(this.stateFile);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  // Names (without .json) of every checkpoint stored in a data subdirectory
+  static list(subdir: string): string[] {
+    const dir = path.join(getDataDir(), subdir);
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    return fs.readdirSync(dir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length));
+  }
+
+  load(): T | null {
+    if (!fs.existsSync(this.stateFile)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.stateFile, 'utf8')) as T;
+    } catch (error) {
+      console.error(`Failed to read saved state from ${this.stateFile}:`, error);
+      return null;
+    }
+  }
+
+  // Renames a checkpoint that couldn't be restored so it's kept for a look but no longer loaded.
+  // Returns where it went
+  moveAside(): string | null {
+    const badFile = `${this.stateFile}.bad-${Date.now()}`;
+    try {
+      fs.renameSync(this.stateFile, badFile);
+      return badFile;
+    } catch (error) {
+      console.error(`Failed to move ${this.stateFile} aside:`, error);
+      return null;
+    }
+  }
+
+  save(state: T): void {
+    // Write to a temp file first so a crash mid-write never leaves a truncated checkpoint
+    const tempFile = `${this.stateFile}.tmp`;
+    try {
+      fs.writeFileSync(tempFile, JSON.stringify(state, null, 2));
+      fs.renameSync(tempFile, this.stateFile);
+    } catch (error) {
+      console.error(`Failed to save state to ${this.stateFile}:`, error);
+    }
+  }
+
+  // Coalesces frequent saves: the latest state is written at most once per delay, without blocking
+  // the event loop. `getState` runs when the write happens, so it always sees the newest state
+  saveSoon(getState: () => T): void {
+    this.pendingState = getState;
+    if (!this.checkpointTimeout) {
+      this.checkpointTimeout = setTimeout(() => {
+        this.checkpointTimeout = null;
+        this.writePending();
+      }, CHECKPOINT_DELAY_MS);
+    }
+  }
+
+  // Writes whatever saveSoon is still holding, e.g. on shutdown
+  flush(): Promise<void> {
+    if (this.checkpointTimeout) {
+      clearTimeout(this.checkpointTimeout);
+      this.checkpointTimeout = null;
+    }
+    return this.writePending();
+  }
+
+  private writePending(): Promise<void> {
+    this.writes = this.writes.then(async () => {
+      const getState = this.pendingState;
+      this.pendingState = null;
+      if (!getState) return;
+      const tempFile = `${this.stateFile}.tmp`;
+      try {
+        await fs.promises.writeFile(tempFile, JSON.stringify(getState(), null, 2));
+        await fs.promises.rename(tempFile, this.stateFile);
+      } catch (error) {
+        console.error(`Failed to save state to ${this.stateFile}:`, error);
+      }
+    });
+    return this.writes;
+  }
+
+  remove(): void {
+    // Drop a pending checkpoint, and let one already being written finish before the file goes
+    if (this.checkpointTimeout) {
+      clearTimeout(this.checkpointTimeout);
+      this.checkpointTimeout = null;
+    }
+    this.pendingState = null;
+    this.writes = this.writes.then(() => fs.promises.rm(this.stateFile, { force: true })).catch(error => {
+      console.error(`Failed to remove ${this.stateFile}:`, error);
+    });
+  }
+
+  getStateFile(): string {
+    return this.stateFile;
+  }
+}
@@ -0,0 +1,43 @@
+// Versioned state broadcasting: clients get a full snapshot when they join and
+// afterwards only the top-level keys that changed since the previous version.
+export interface StatePatch {
+  baseVersion: number; // version the client must hold to apply this patch
+  version: number;
+  serverTime: number;
+  changes: Record<string, any>;
+}
+
+export class StateSync {
+  private version = 0;
+  private lastSent: Record<string, string> = {};
+
+  // Full state at the current version; the first one seeds the baseline later patches diff against
+  snapshot<T extends Record<string, any>>(state: T): T & { version: number } {
+    if (Object.keys(this.lastSent).length === 0) {
+      Object.keys(state).forEach(key => {
+        this.lastSent[key] = JSON.stringify(state[key] ?? null);
+      });
+    }
+    return { ...state, version: this.version };
+  }
+
+  // Returns the keys that changed since the last call, or null if nothing did
+  diff(state: Record<string, any>): StatePatch | null {
+    const changes: Record<string, any> = {};
+    Object.keys(state).forEach(key => {
+      const serialized = JSON.stringify(state[key] ?? null);
+      if (this.lastSent[key] !== serialized) {
+        this.lastSent[key] = serialized;
+        changes[key] = state[key] ?? null;
+      }
+    });
+
+    if (Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    const baseVersion = this.version;
+    this.version++;
+    return { baseVersion, version: this.version, serverTime: Date.now(), changes };
+  }
+}
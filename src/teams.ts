@@ -0,0 +1,22 @@
+import crypto = require('crypto');
+import { Contestant, Team, TeamScoreMode } from './types';
+
+export const TEAM_SCORE_MODES: TeamScoreMode[] = ['sum', 'separate'];
+
+export function generateTeamId(): string {
+  return crypto.randomBytes(4).toString('hex');
+}
+
+// What scoreboards show: in 'sum' mode a team's score is its members' total,
+// in 'separate' mode it's the team's own running score
+export function getTeamStandings(teams: Team[], contestants: Contestant[], mode: TeamScoreMode): Team[] {
+  if (mode === 'separate') return teams;
+  return teams.map(team => ({
+    ...team,
+    score: contestants.filter(c => c.teamId === team.id).reduce((sum, c) => sum + c.score, 0)
+  }));
+}
+
+export function areTeammates(a: Contestant, b: Contestant): boolean {
+  return a.id !== b.id && a.teamId !== null && a.teamId === b.teamId;
+}
@@ -0,0 +1,70 @@
+import crypto = require('crypto');
+import { NamedTimer, TimerMode, TimerState } from './types';
+
+export const TIMER_MODES: TimerMode[] = ['countdown', 'stopwatch', 'chess-clock'];
+export const MAIN_TIMER_ID = 'main';
+
+export function generateTimerId(): string {
+  return crypto.randomBytes(4).toString('hex');
+}
+
+export function createTimer(mode: TimerMode = 'countdown', durationMs: number | null = null): TimerState {
+  return {
+    mode,
+    durationMs,
+    running: false,
+    endsAt: null,
+    pausedRemainingMs: null,
+    startedAt: null,
+    pausedElapsedMs: null,
+    splits: [],
+    banks: {},
+    activeContestantId: null
+  };
+}
+
+// Timer lengths arrive from the socket as seconds; anything else would expire the clock at once
+export function isValidTimerSeconds(seconds: unknown, allowZero: boolean = false): seconds is number {
+  return typeof seconds === 'number' && Number.isFinite(seconds) && (seconds > 0 || (allowZero && seconds === 0));
+}
+
+export function createNamedTimer(id: string, name: string): NamedTimer {
+  return { ...createTimer(), id, name };
+}
+
+// Stopwatch time so far
+export function getElapsedMs(timer: TimerState, now: number = Date.now()): number {
+  if (timer.running && timer.startedAt !== null) return Math.max(0, now - timer.startedAt);
+  return timer.pausedElapsedMs ?? 0;
+}
+
+// Time left on a contestant's chess clock; only the one on turn is counting down
+export function getBankMs(timer: TimerState, contestantId: string, now: number = Date.now()): number {
+  if (timer.running && timer.endsAt !== null && contestantId === timer.activeContestantId) {
+    return Math.max(0, timer.endsAt - now);
+  }
+  return timer.banks[contestantId] ?? timer.durationMs ?? 0;
+}
+
+// Time left on a countdown, or on the chess clock that's on turn
+export function getRemainingMs(timer: TimerState, now: number = Date.now()): number {
+  if (timer.mode === 'chess-clock') {
+    return timer.activeContestantId ? getBankMs(timer, timer.activeContestantId, now) : 0;
+  }
+  if (timer.running && timer.endsAt !== null) return Math.max(0, timer.endsAt - now);
+  return timer.pausedRemainingMs ?? 0;
+}
+
+// The clock stopped at `now`, holding whatever it showed
+export function pauseTimer(timer: TimerState, now: number): TimerState {
+  if (!timer.running) return timer;
+  if (timer.mode === 'stopwatch') {
+    return { ...timer, running: false, startedAt: null, pausedElapsedMs: getElapsedMs(timer, now) };
+  }
+  if (timer.mode === 'chess-clock') {
+    const active = timer.activeContestantId;
+    const banks = active ? { ...timer.banks, [active]: getBankMs(timer, active, now) } : timer.banks;
+    return { ...timer, running: false, endsAt: null, banks };
+  }
+  return { ...timer, running: false, endsAt: null, pausedRemainingMs: getRemainingMs(timer, now) };
+}
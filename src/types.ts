@@ -0,0 +1,210 @@
+import { AutomationRule } from './automation';
+import { NumericResult, ScoringRules } from './scoring';
+import { WagerRound } from './wagerRound';
+import { Board } from './board';
+import { QuestionKind } from './questionImport';
+
+// Game state
+export interface Contestant {
+  id: string;
+  key: string; // secret from the join link, only ever sent to admins
+  name: string;
+  score: number;
+  buzzed: boolean;
+  connected: boolean;
+  lockedOutUntil: number | null; // server clock; set by buzzing before the buzzers open
+  teamId: string | null;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  score: number; // only used in 'separate' mode; 'sum' mode adds up the members
+}
+
+// sum: a team scores what its members score; separate: the team keeps its own score
+export type TeamScoreMode = 'sum' | 'separate';
+
+export type GameType = 'buzzer' | 'multiple-choice' | 'two-option' | 'timer-only' | 'wager' | 'free-text' | 'numeric' | 'board';
+
+// closed: buzzes are ignored; armed: the host is reading and a buzz locks you out; open: buzz away
+export type BuzzerState = 'closed' | 'armed' | 'open';
+
+export type MediaKind = 'image' | 'audio' | 'video';
+
+// Points a question at an uploaded file; the kind lets clients pick the right element without a lookup
+export interface MediaRef {
+  id: string;
+  kind: MediaKind;
+  name?: string; // original file name, for the admin panel and the event log
+}
+
+// An uploaded file in DATA_DIR/media
+export interface MediaAsset extends MediaRef {
+  name: string;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+}
+
+// Host-controlled audio/video playback. Clients work out the position from the server clock
+// while it plays, so every screen stays in step without per-second updates
+export interface MediaPlayback {
+  mediaId: string | null;
+  playing: boolean;
+  startedAt: number | null; // server clock when playback last (re)started
+  offsetMs: number; // position when playback last started or paused
+}
+
+export interface Question {
+  id?: string; // stable id once the question is saved in a pack
+  question: string;
+  options: string[];
+  correctAnswer: string;
+  points?: number; // overrides the round's points for a correct answer
+  timer?: number; // seconds; sets the timer when the host moves to this question
+  category?: string;
+  notes?: string; // host only, like the rest of the question bank
+  media?: MediaRef; // picture, clip or video shown with the question
+  optionMedia?: (MediaRef | null)[]; // an image per option, in option order
+}
+
+export interface GameConfig {
+  question?: string;
+  options?: string[];
+  currentQuestionIndex?: number;
+  media?: MediaRef;
+  optionMedia?: (MediaRef | null)[];
+}
+
+export interface QuestionPack {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  kind: QuestionKind; // board clues or multiple choice, whichever game the pack was saved from
+  questions: Question[];
+  aired: Record<string, number>; // questionId -> when it first aired
+}
+
+export interface QuestionPackSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  kind: QuestionKind;
+  questionCount: number;
+  airedCount: number;
+}
+
+// One block of a show: everything the host would otherwise set up by hand between segments
+export interface RundownSegment {
+  id: string;
+  title: string;
+  gameType: GameType;
+  questions: Question[]; // loaded for multiple choice and board segments
+  questionText?: string; // free-text, numeric and wager segments: the question put up when the segment starts
+  correctAnswer?: string; // and its answer key; a number for closest-number segments
+  packId: string | null; // where the questions came from, so airing them still marks the pack
+  timerSeconds: number | null; // timer length set when the segment starts
+  scoringRules: ScoringRules | null; // null keeps whatever rules are in force
+  automationRules: AutomationRule[] | null; // likewise
+  notes?: string; // host only
+}
+
+export interface Rundown {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  segments: RundownSegment[];
+}
+
+export interface RundownSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  segmentCount: number;
+}
+
+// countdown: from the set length to zero; stopwatch: counts up with a split per contestant;
+// chess-clock: every contestant has their own bank that only runs on their turn
+export type TimerMode = 'countdown' | 'stopwatch' | 'chess-clock';
+
+// When a contestant first buzzed or answered, measured on the running stopwatch
+export interface TimerSplit {
+  contestantId: string;
+  elapsedMs: number;
+  source: 'buzz' | 'answer';
+}
+
+// The server only broadcasts when the timer changes state; clients count locally from endsAt/startedAt
+export interface TimerState {
+  mode: TimerMode;
+  durationMs: number | null; // configured length (each contestant's bank on a chess clock), null until the host sets one
+  running: boolean;
+  endsAt: number | null; // server clock (ms) at which a running countdown, or the chess clock on turn, reaches zero
+  pausedRemainingMs: number | null; // countdown: time left while stopped, 0 once expired, null if never started
+  startedAt: number | null; // stopwatch: server clock the running stopwatch counts up from
+  pausedElapsedMs: number | null; // stopwatch: time on the clock while stopped, null if never started
+  splits: TimerSplit[];
+  banks: Record<string, number>; // chess clock: contestantId -> time left; the one on turn runs down from endsAt
+  activeContestantId: string | null; // chess clock: whose turn it is
+}
+
+// Rooms can run several clocks at once, e.g. a segment clock next to a shot clock.
+// The first is always 'main', which question and segment timer lengths go to
+export interface NamedTimer extends TimerState {
+  id: string;
+  name: string;
+}
+
+// What a room checkpoints to disk after every change
+export interface RoomSnapshot {
+  savedAt: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  contestants: Contestant[];
+  teams: Team[];
+  teamScoreMode: TeamScoreMode;
+  teamBuzzLockout: boolean;
+  buzzOrder: string[];
+  buzzerState: BuzzerState;
+  buzzersOpenedAt: number | null;
+  buzzerLockoutMs: number;
+  scoringRules: ScoringRules;
+  automationRules: AutomationRule[];
+  incorrectBuzzes: string[];
+  gameType: GameType;
+  gameConfig: GameConfig;
+  timers: NamedTimer[];
+  questions: Question[];
+  questionPackId: string | null;
+  currentQuestionIndex: number;
+  answers: Record<string, string>;
+  answerTimes: Record<string, number>;
+  questionStartedAt: number | null;
+  firstAnswerFinal: boolean;
+  answerJudgements: Record<string, boolean>;
+  answerSuggestions: Record<string, boolean>;
+  numericResults: NumericResult[] | null;
+  revealAnswers: boolean;
+  answersLocked: boolean;
+  correctAnswer: string | null;
+  wagerRound: WagerRound;
+  board: Board;
+  mediaPlayback: MediaPlayback;
+  rundown: Rundown | null; // copy taken when the show started, so edits and deletes can't pull it out from under the host
+  rundownSegmentIndex: number;
+}
+
+export interface RoomSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  contestantCount: number;
+  connectedCount: number;
+  isRecording: boolean;
+}
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'assert';
+import { clampWager, createWagerRound, getPublicWagerRound } from './wagerRound';
+
+test('clampWager caps a bet at the contestant score', () => {
+  assert.strictEqual(clampWager(500, 300), 300);
+  assert.strictEqual(clampWager('120', 300), 120);
+  assert.strictEqual(clampWager(99.9, 300), 99);
+});
+
+test('clampWager lets a contestant at or below zero bet only nothing', () => {
+  assert.strictEqual(clampWager(50, 0), 0);
+  assert.strictEqual(clampWager(50, -200), 0);
+});
+
+test('clampWager rejects negative and non-numeric bets', () => {
+  assert.strictEqual(clampWager(-10, 300), null);
+  assert.strictEqual(clampWager('all of it', 300), null);
+  assert.strictEqual(clampWager(Infinity, 300), null);
+});
+
+test('getPublicWagerRound hides bets until they are revealed', () => {
+  const round = createWagerRound();
+  round.phase = 'revealing';
+  round.wagers = { a: 100, b: 250 };
+  round.revealed = ['b'];
+  round.results = { b: true };
+
+  assert.deepStrictEqual(getPublicWagerRound(round), {
+    phase: 'revealing',
+    submitted: ['a', 'b'],
+    revealed: ['b'],
+    wagers: { b: 250 },
+    results: { b: true }
+  });
+});
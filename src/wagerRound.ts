@@ -0,0 +1,34 @@
+// Final-Jeopardy style round: everyone bets in private, answers, then the host
+// reveals one contestant at a time and each reveal wins or loses the bet.
+export type WagerPhase = 'wagering' | 'answering' | 'revealing';
+
+export interface WagerRound {
+  phase: WagerPhase;
+  wagers: Record<string, number>; // contestantId -> bet, admin-only until revealed
+  revealed: string[]; // contestantIds in reveal order
+  results: Record<string, boolean>; // contestantId -> judged correct
+}
+
+export const WAGER_PHASES: WagerPhase[] = ['wagering', 'answering', 'revealing'];
+
+export function createWagerRound(): WagerRound {
+  return { phase: 'wagering', wagers: {}, revealed: [], results: {} };
+}
+
+// Whole points between zero and the contestant's score; nobody can bet points they don't have
+export function clampWager(amount: unknown, score: number): number | null {
+  const wager = Math.floor(Number(amount));
+  if (!Number.isFinite(wager) || wager < 0) return null;
+  return Math.min(wager, Math.max(0, score));
+}
+
+// What overlays and contestants see: who has locked in a bet, and the bets already revealed
+export function getPublicWagerRound(round: WagerRound) {
+  return {
+    phase: round.phase,
+    submitted: Object.keys(round.wagers),
+    revealed: round.revealed,
+    wagers: Object.fromEntries(round.revealed.map(id => [id, round.wagers[id] ?? 0])),
+    results: round.results
+  };
+}